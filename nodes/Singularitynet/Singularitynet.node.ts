@@ -23,14 +23,25 @@ import {
 	INodeProperties,
 } from 'n8n-workflow';
 
+// Import dynamic option methods
+import { getServiceGroups, getServiceMethods } from './methods/loadOptions';
+import { searchOrganizations, searchServices } from './methods/listSearch';
+import { getMethodInputFields } from './methods/resourceMapping';
+
 // Import action handlers
 import { accountOperations, accountFields, executeAccountAction } from './actions/account/account.actions';
 import { serviceOperations, serviceFields, executeServiceAction } from './actions/service/service.actions';
 import { organizationOperations, organizationFields, executeOrganizationAction } from './actions/organization/organization.actions';
-import { invocationOperations, invocationFields, executeInvocationAction } from './actions/invocation/invocation.actions';
+import {
+	invocationOperations,
+	invocationFields,
+	executeInvocationAction,
+	executeInvocationBatch,
+} from './actions/invocation/invocation.actions';
 import { paymentChannelOperations, paymentChannelFields, executePaymentChannelAction } from './actions/paymentChannel/paymentChannel.actions';
 import { escrowOperations, escrowFields, executeEscrowAction } from './actions/escrow/escrow.actions';
 import { marketplaceOperations, marketplaceFields, executeMarketplaceAction } from './actions/marketplace/marketplace.actions';
+import { trainingOperations, trainingFields, executeTrainingAction } from './actions/training/training.actions';
 import { stakingOperations, stakingFields, executeStakingAction } from './actions/staking/staking.actions';
 import { rfaiOperations, rfaiFields, executeRfaiAction } from './actions/rfai/rfai.actions';
 import { publisherOperations, publisherFields, executePublisherAction } from './actions/publisher/publisher.actions';
@@ -85,13 +96,16 @@ export class Singularitynet implements INodeType {
 					show: {
 						resource: [
 							'account',
+							'invocation',
 							'paymentChannel',
 							'escrow',
 							'staking',
 							'publisher',
 							'bridge',
 							'governance',
+							'daemon',
 							'asi',
+							'training',
 						],
 					},
 				},
@@ -104,8 +118,10 @@ export class Singularitynet implements INodeType {
 						resource: [
 							'service',
 							'organization',
+							'invocation',
 							'marketplace',
 							'rfai',
+							'training',
 						],
 					},
 				},
@@ -115,7 +131,7 @@ export class Singularitynet implements INodeType {
 				required: false,
 				displayOptions: {
 					show: {
-						resource: ['invocation', 'daemon'],
+						resource: ['invocation', 'daemon', 'training'],
 					},
 				},
 			},
@@ -173,6 +189,11 @@ export class Singularitynet implements INodeType {
 						value: 'marketplace',
 						description: 'Browse and discover AI services',
 					},
+					{
+						name: 'Model Training',
+						value: 'training',
+						description: 'Create and manage models of services that support training',
+					},
 					{
 						name: 'Organization',
 						value: 'organization',
@@ -304,6 +325,19 @@ export class Singularitynet implements INodeType {
 				options: marketplaceOperations,
 				default: 'browseServices',
 			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['training'],
+					},
+				},
+				options: trainingOperations,
+				default: 'listModels',
+			},
 			{
 				displayName: 'Operation',
 				name: 'operation',
@@ -430,6 +464,7 @@ export class Singularitynet implements INodeType {
 			...(paymentChannelFields as INodeProperties[]),
 			...(escrowFields as INodeProperties[]),
 			...(marketplaceFields as INodeProperties[]),
+			...(trainingFields as INodeProperties[]),
 			...(stakingFields as INodeProperties[]),
 			...(rfaiFields as INodeProperties[]),
 			...(publisherFields as INodeProperties[]),
@@ -439,9 +474,151 @@ export class Singularitynet implements INodeType {
 			...(daemonFields as INodeProperties[]),
 			...(asiFields as INodeProperties[]),
 			...(utilityFields as INodeProperties[]),
+
+			// Fee, gas and nonce settings of operations that send transactions
+			{
+				displayName: 'Transaction Options',
+				name: 'transactionOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['account', 'escrow', 'paymentChannel', 'invocation'],
+						operation: [
+							'transferAgix',
+							'depositToEscrow',
+							'withdrawFromEscrow',
+							'speedUpTransaction',
+							'cancelTransaction',
+							'depositAgix',
+							'withdrawAgix',
+							'openChannel',
+							'depositAndOpenChannel',
+							'addFunds',
+							'extendExpiry',
+							'extendAndAddFunds',
+							'claimTimeout',
+							'claimPayments',
+							'callService',
+							'callStreamingService',
+						],
+					},
+				},
+				options: [
+					{
+						displayName: 'Gas Limit Multiplier',
+						name: 'gasLimitMultiplier',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+							numberPrecision: 2,
+						},
+						default: 1.2,
+						description: 'Gas limit as a multiple of the estimated gas',
+					},
+					{
+						displayName: 'Max Fee Per Gas (Gwei)',
+						name: 'maxFeePerGas',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description:
+							'Highest total fee per gas to pay. When speeding up or cancelling, the lowest fee to replace with.',
+					},
+					{
+						displayName: 'Max Priority Fee Per Gas (Gwei)',
+						name: 'maxPriorityFeePerGas',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description:
+							'Highest tip per gas for the block producer. When speeding up or cancelling, the lowest tip to replace with.',
+					},
+					{
+						displayName: 'Nonce',
+						name: 'nonce',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						displayOptions: {
+							hide: {
+								'/resource': ['invocation'],
+							},
+						},
+						default: 0,
+						description:
+							'Nonce of the first transaction of the item; further transactions count up from it. Replaces a pending transaction with the same nonce. Only for a single input item.',
+					},
+					{
+						displayName: 'Wait for Confirmation',
+						name: 'waitForConfirmation',
+						type: 'options',
+						displayOptions: {
+							hide: {
+								'/resource': ['invocation'],
+							},
+						},
+						options: [
+							{
+								name: 'None',
+								value: 'none',
+								description: 'Return the hash of the pending transaction right away',
+							},
+							{
+								name: 'One Confirmation',
+								value: 'one',
+								description: 'Wait until the transaction is mined',
+							},
+							{
+								name: 'Multiple Confirmations',
+								value: 'multiple',
+								description: 'Wait until the transaction is a number of blocks deep',
+							},
+						],
+						default: 'one',
+						description:
+							'Whether to wait for transactions to be mined. Use the Wait for Transaction utility operation to wait later.',
+					},
+					{
+						displayName: 'Confirmations',
+						name: 'confirmations',
+						type: 'number',
+						displayOptions: {
+							hide: {
+								'/resource': ['invocation'],
+							},
+						},
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 3,
+						description: 'Number of confirmations to wait for with multiple confirmations',
+					},
+				],
+			},
 		],
 	};
 
+	methods = {
+		loadOptions: {
+			getServiceGroups,
+			getServiceMethods,
+		},
+		listSearch: {
+			searchOrganizations,
+			searchServices,
+		},
+		resourceMapping: {
+			getMethodInputFields,
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
@@ -449,6 +626,15 @@ export class Singularitynet implements INodeType {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
 
+		// Batched service calls run items in parallel instead of one by one
+		if (
+			resource === 'invocation' &&
+			operation === 'callService' &&
+			this.getNodeParameter('options.batchConcurrency', 0, 0)
+		) {
+			return [await executeInvocationBatch.call(this)];
+		}
+
 		for (let i = 0; i < items.length; i++) {
 			try {
 				let result: INodeExecutionData[];
@@ -475,6 +661,9 @@ export class Singularitynet implements INodeType {
 					case 'marketplace':
 						result = await executeMarketplaceAction.call(this, operation, i);
 						break;
+					case 'training':
+						result = await executeTrainingAction.call(this, operation, i);
+						break;
 					case 'staking':
 						result = await executeStakingAction.call(this, operation, i);
 						break;
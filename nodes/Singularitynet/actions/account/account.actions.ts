@@ -13,6 +13,7 @@ import { createEthereumClient, EthereumClient } from '../../transport/ethereumCl
 import { createCardanoClient, CardanoClient } from '../../transport/cardanoClient';
 import { cogsToAgix, agixToCogs, formatTokenAmount, weiToEth } from '../../utils/unitConverter';
 import { isEthereumNetwork, isCardanoNetwork } from '../../constants/networks';
+import { formatTransactionFees, getTransactionOptions } from '../../utils/transactionOptions';
 
 /**
  * Account operations
@@ -29,6 +30,8 @@ export const accountOperations: INodePropertyOptions[] = [
 	{ name: 'Validate Address', value: 'validateAddress', description: 'Validate blockchain address' },
 	{ name: 'Get Multi-Chain Balances', value: 'getMultiChainBalances', description: 'Get balances across multiple chains' },
 	{ name: 'Get Channel Balances', value: 'getChannelBalances', description: 'Get payment channel balances' },
+	{ name: 'Speed Up Transaction', value: 'speedUpTransaction', description: 'Resend a pending transaction with higher fees' },
+	{ name: 'Cancel Transaction', value: 'cancelTransaction', description: 'Replace a pending transaction with an empty one' },
 ];
 
 /**
@@ -145,6 +148,20 @@ export const accountFields = [
 			},
 		},
 	},
+	{
+		displayName: 'Transaction Hash',
+		name: 'transactionHash',
+		type: 'string' as const,
+		default: '',
+		required: true,
+		description: 'Hash of the pending transaction to replace',
+		displayOptions: {
+			show: {
+				resource: ['account'],
+				operation: ['speedUpTransaction', 'cancelTransaction'],
+			},
+		},
+	},
 ];
 
 /**
@@ -251,7 +268,7 @@ export async function transferAgix(
 	const toAddress = this.getNodeParameter('toAddress', index) as string;
 	const amount = this.getNodeParameter('amount', index) as number;
 
-	const ethClient = createEthereumClient(credentials);
+	const ethClient = createEthereumClient(credentials, getTransactionOptions.call(this, index));
 	const amountInCogs = agixToCogs(amount);
 
 	const result = await ethClient.transferAgix(toAddress, amountInCogs);
@@ -266,7 +283,7 @@ export async function transferAgix(
 				to: toAddress,
 				amountAgix: amount,
 				amountCogs: amountInCogs.toString(),
-				gasUsed: result.gasUsed?.toString(),
+				...formatTransactionFees(result),
 			},
 		},
 	];
@@ -340,7 +357,7 @@ export async function depositToEscrow(
 	const credentials = await this.getCredentials('singularitynetNetwork');
 	const amount = this.getNodeParameter('amount', index) as number;
 
-	const ethClient = createEthereumClient(credentials);
+	const ethClient = createEthereumClient(credentials, getTransactionOptions.call(this, index));
 	const amountInCogs = agixToCogs(amount);
 
 	const result = await ethClient.depositToEscrow(amountInCogs);
@@ -353,6 +370,8 @@ export async function depositToEscrow(
 				blockNumber: result.blockNumber,
 				amountDeposited: amount,
 				amountInCogs: amountInCogs.toString(),
+				approvalTransactionHash: result.approval?.hash,
+				...formatTransactionFees(result.approval, result),
 			},
 		},
 	];
@@ -368,7 +387,7 @@ export async function withdrawFromEscrow(
 	const credentials = await this.getCredentials('singularitynetNetwork');
 	const amount = this.getNodeParameter('amount', index) as number;
 
-	const ethClient = createEthereumClient(credentials);
+	const ethClient = createEthereumClient(credentials, getTransactionOptions.call(this, index));
 	const amountInCogs = agixToCogs(amount);
 
 	const result = await ethClient.withdrawFromEscrow(amountInCogs);
@@ -381,6 +400,35 @@ export async function withdrawFromEscrow(
 				blockNumber: result.blockNumber,
 				amountWithdrawn: amount,
 				amountInCogs: amountInCogs.toString(),
+				...formatTransactionFees(result),
+			},
+		},
+	];
+}
+
+/**
+ * Speed up or cancel a pending transaction
+ */
+export async function replaceTransaction(
+	this: IExecuteFunctions,
+	index: number,
+	mode: 'speedUp' | 'cancel'
+): Promise<INodeExecutionData[]> {
+	const credentials = await this.getCredentials('singularitynetNetwork');
+	const transactionHash = this.getNodeParameter('transactionHash', index) as string;
+
+	const ethClient = createEthereumClient(credentials, getTransactionOptions.call(this, index));
+	const result = await ethClient.replaceTransaction(transactionHash, mode);
+
+	return [
+		{
+			json: {
+				success: result.status === 'success',
+				action: mode,
+				replacedTransactionHash: transactionHash,
+				transactionHash: result.hash,
+				blockNumber: result.blockNumber,
+				...formatTransactionFees(result),
 			},
 		},
 	];
@@ -551,6 +599,10 @@ export async function executeAccountAction(
 			return getMultiChainBalances.call(this, index);
 		case 'getChannelBalances':
 			return getChannelBalances.call(this, index);
+		case 'speedUpTransaction':
+			return replaceTransaction.call(this, index, 'speedUp');
+		case 'cancelTransaction':
+			return replaceTransaction.call(this, index, 'cancel');
 		default:
 			throw new Error(`Unknown account operation: ${operation}`);
 	}
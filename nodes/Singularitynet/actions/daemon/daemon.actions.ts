@@ -1,16 +1,23 @@
 /**
  * Daemon Actions
- * Service daemon monitoring
+ * Service daemon monitoring and payment channel state
  */
 
 import type { IExecuteFunctions, INodeExecutionData, INodePropertyOptions } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import axios from 'axios';
+import { createSnetSdk } from '../../transport/snetSdk';
+import { cogsToAgix } from '../../utils/unitConverter';
 
 export const daemonOperations: INodePropertyOptions[] = [
 	{ name: 'Health Check', value: 'healthCheck', description: 'Check daemon health status' },
 	{ name: 'Get Daemon Status', value: 'getDaemonStatus', description: 'Get daemon status' },
 	{ name: 'Get Daemon Config', value: 'getDaemonConfig', description: 'Get daemon configuration' },
+	{
+		name: 'Get Channel State',
+		value: 'getChannelState',
+		description: 'Get the last signed amount and nonce of a payment channel from the daemon',
+	},
 ];
 
 export const daemonFields = [
@@ -24,7 +31,21 @@ export const daemonFields = [
 		displayOptions: {
 			show: {
 				resource: ['daemon'],
-				operation: ['healthCheck', 'getDaemonStatus', 'getDaemonConfig'],
+				operation: ['healthCheck', 'getDaemonStatus', 'getDaemonConfig', 'getChannelState'],
+			},
+		},
+	},
+	{
+		displayName: 'Channel ID',
+		name: 'channelId',
+		type: 'number' as const,
+		default: 0,
+		required: true,
+		description: 'The payment channel ID',
+		displayOptions: {
+			show: {
+				resource: ['daemon'],
+				operation: ['getChannelState'],
 			},
 		},
 	},
@@ -91,6 +112,29 @@ export async function executeDaemonAction(
 			break;
 		}
 
+		case 'getChannelState': {
+			const channelId = this.getNodeParameter('channelId', itemIndex) as number;
+			const networkCredentials = await this.getCredentials('singularitynetNetworkApi');
+			const serviceCredentials = await this.getCredentials('aiServiceApi').catch(() => undefined);
+			const sdk = createSnetSdk(networkCredentials, undefined, serviceCredentials);
+
+			const state = await sdk.getChannelState(daemonEndpoint, channelId);
+			result = {
+				endpoint: daemonEndpoint,
+				channelId: state.channelId,
+				currentNonce: state.currentNonce,
+				currentSignedAmountCogs: state.currentSignedAmount.toString(),
+				currentSignedAmountAgix: cogsToAgix(state.currentSignedAmount),
+				currentSignature: state.currentSignature,
+				oldestUnclaimedAmountCogs: state.oldNonceSignedAmount?.toString(),
+				oldestUnclaimedAmountAgix:
+					state.oldNonceSignedAmount !== undefined ? cogsToAgix(state.oldNonceSignedAmount) : 0,
+				plannedAmountCogs: state.plannedAmount.toString(),
+				usedAmountCogs: state.usedAmount.toString(),
+			};
+			break;
+		}
+
 		default:
 			throw new NodeOperationError(this.getNode(), `Unknown daemon operation: ${operation}`);
 	}
@@ -6,6 +6,7 @@
 import type { IExecuteFunctions, INodeExecutionData, INodePropertyOptions } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import { createEthereumClient } from '../../transport/ethereumClient';
+import { formatTransactionFees, getTransactionOptions } from '../../utils/transactionOptions';
 import { cogsToAgix, agixToCogs, formatTokenAmount } from '../../utils/unitConverter';
 
 export const escrowOperations: INodePropertyOptions[] = [
@@ -78,7 +79,10 @@ export async function executeEscrowAction(
 	itemIndex: number,
 ): Promise<INodeExecutionData[]> {
 	const credentials = await this.getCredentials('singularitynetNetworkApi');
-	const ethClient = createEthereumClient(credentials as Record<string, unknown>);
+	const ethClient = createEthereumClient(
+		credentials as Record<string, unknown>,
+		getTransactionOptions.call(this, itemIndex),
+	);
 
 	let result: { [key: string]: any };
 
@@ -109,6 +113,8 @@ export async function executeEscrowAction(
 				blockNumber: tx.blockNumber,
 				amountDepositedAgix: amount,
 				amountDepositedCogs: amountCogs.toString(),
+				approvalTransactionHash: tx.approval?.hash,
+				...formatTransactionFees(tx.approval, tx),
 			};
 			break;
 		}
@@ -124,6 +130,7 @@ export async function executeEscrowAction(
 				blockNumber: tx.blockNumber,
 				amountWithdrawnAgix: amount,
 				amountWithdrawnCogs: amountCogs.toString(),
+				...formatTransactionFees(tx),
 			};
 			break;
 		}
@@ -3,41 +3,111 @@
  * Call AI services on SingularityNET
  */
 
-import type { IExecuteFunctions, INodeExecutionData, INodePropertyOptions } from 'n8n-workflow';
+import type {
+	IBinaryKeyData,
+	ICredentialDataDecryptedObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodePropertyOptions,
+	ResourceMapperValue,
+} from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import { PlatformApi } from '../../transport/platformApi';
+import {
+	CostEstimate,
+	createSnetSdk,
+	FreeCallPolicy,
+	PaymentMode,
+	ServiceCallOptions,
+	ServiceCallResult,
+} from '../../transport/snetSdk';
+import { RetryPolicy } from '../../transport/retryPolicy';
+import { agixToCogs, cogsToAgix, weiToEth } from '../../utils/unitConverter';
+import {
+	parseProtoContent,
+	ParsedProto,
+	resolveGrpcMethod,
+	serviceToJson,
+} from '../../utils/protobufUtils';
+import { collectBytesFields, detectMimeType, setFieldValue } from '../../utils/binaryUtils';
+import { mapperValueToInput } from '../../utils/inputMapper';
+import {
+	ChannelStateBackend,
+	ChannelStateStore,
+	createChannelStateStore,
+} from '../../utils/channelStateStore';
+import { createResultCache, ResultCache, ResultCacheBackend } from '../../utils/resultCache';
+import { getTransactionOptions } from '../../utils/transactionOptions';
 
 export const invocationOperations: INodePropertyOptions[] = [
+	{ name: 'Call Service', value: 'callService', description: 'Call an AI service, paying through an MPE payment channel' },
+	{ name: 'Call Streaming Service', value: 'callStreamingService', description: 'Call a server, client or bidi streaming AI service method' },
+	{ name: 'Estimate Cost', value: 'estimateCost', description: 'Estimate the cost of calling a service method once per input item, without paying' },
+	{ name: 'Get Service Methods', value: 'getServiceMethods', description: 'Get the gRPC methods and messages of a service from its published .proto files' },
 	{ name: 'Get Service Info', value: 'getServiceInfo', description: 'Get service information for invocation' },
 	{ name: 'Get Free Call Info', value: 'getFreeCallInfo', description: 'Get free call availability' },
 ];
 
 export const invocationFields = [
 	{
-		displayName: 'Organization ID',
+		displayName: 'Organization',
 		name: 'organizationId',
-		type: 'string' as const,
-		default: '',
+		type: 'resourceLocator' as const,
+		default: { mode: 'list', value: '' },
 		required: true,
-		description: 'The organization ID',
+		description: 'The organization',
+		modes: [
+			{
+				displayName: 'From List',
+				name: 'list',
+				type: 'list' as const,
+				typeOptions: {
+					searchListMethod: 'searchOrganizations',
+					searchable: true,
+				},
+			},
+			{
+				displayName: 'ID',
+				name: 'id',
+				type: 'string' as const,
+				placeholder: 'snet',
+			},
+		],
 		displayOptions: {
 			show: {
 				resource: ['invocation'],
-				operation: ['getServiceInfo', 'getFreeCallInfo'],
+				operation: ['callService', 'callStreamingService', 'estimateCost', 'getServiceMethods', 'getServiceInfo', 'getFreeCallInfo'],
 			},
 		},
 	},
 	{
-		displayName: 'Service ID',
+		displayName: 'Service',
 		name: 'serviceId',
-		type: 'string' as const,
-		default: '',
+		type: 'resourceLocator' as const,
+		default: { mode: 'list', value: '' },
 		required: true,
-		description: 'The service ID',
+		description: 'The service',
+		modes: [
+			{
+				displayName: 'From List',
+				name: 'list',
+				type: 'list' as const,
+				typeOptions: {
+					searchListMethod: 'searchServices',
+					searchable: true,
+				},
+			},
+			{
+				displayName: 'ID',
+				name: 'id',
+				type: 'string' as const,
+				placeholder: 'example-service',
+			},
+		],
 		displayOptions: {
 			show: {
 				resource: ['invocation'],
-				operation: ['getServiceInfo', 'getFreeCallInfo'],
+				operation: ['callService', 'callStreamingService', 'estimateCost', 'getServiceMethods', 'getServiceInfo', 'getFreeCallInfo'],
 			},
 		},
 	},
@@ -54,8 +124,889 @@ export const invocationFields = [
 			},
 		},
 	},
+	{
+		displayName: 'Method Name or ID',
+		name: 'method',
+		type: 'options' as const,
+		typeOptions: {
+			loadOptionsMethod: 'getServiceMethods',
+			loadOptionsDependsOn: ['organizationId.value', 'serviceId.value'],
+		},
+		default: '',
+		required: true,
+		description:
+			'gRPC method to call, in the form package.Service/Method. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callService', 'callStreamingService', 'estimateCost'],
+			},
+		},
+	},
+	{
+		displayName: 'Input Mode',
+		name: 'inputMode',
+		type: 'options' as const,
+		options: [
+			{
+				name: 'JSON',
+				value: 'json',
+				description: 'Write the request message as JSON',
+			},
+			{
+				name: 'Map Fields',
+				value: 'fields',
+				description: 'Fill in one field per proto message field, or map them from input data',
+			},
+		],
+		default: 'json',
+		description: 'How to provide the request message',
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callService', 'callStreamingService'],
+			},
+		},
+	},
+	{
+		displayName: 'Input',
+		name: 'input',
+		type: 'json' as const,
+		default: '{}',
+		description: 'Request message for the method as JSON',
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callService', 'callStreamingService'],
+				inputMode: ['json'],
+			},
+		},
+	},
+	{
+		displayName: 'Method Input',
+		name: 'methodInput',
+		type: 'resourceMapper' as const,
+		noDataExpression: true,
+		default: {
+			mappingMode: 'defineBelow',
+			value: null,
+		},
+		required: true,
+		typeOptions: {
+			loadOptionsDependsOn: ['organizationId.value', 'serviceId.value', 'method'],
+			resourceMapper: {
+				resourceMapperMethod: 'getMethodInputFields',
+				mode: 'add' as const,
+				fieldWords: {
+					singular: 'field',
+					plural: 'fields',
+				},
+				addAllFields: true,
+				multiKeyMatch: false,
+				supportAutoMap: true,
+				noFieldsError: 'The selected method has no input fields',
+			},
+		},
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callService', 'callStreamingService'],
+				inputMode: ['fields'],
+			},
+		},
+	},
+	{
+		displayName: 'Group Name or ID',
+		name: 'groupName',
+		type: 'options' as const,
+		typeOptions: {
+			loadOptionsMethod: 'getServiceGroups',
+			loadOptionsDependsOn: ['organizationId.value', 'serviceId.value'],
+		},
+		default: '',
+		description:
+			'Service group to call. Uses the first group of the service if empty. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callService', 'callStreamingService', 'estimateCost'],
+			},
+		},
+	},
+	{
+		displayName: 'Dry Run',
+		name: 'dryRun',
+		type: 'boolean' as const,
+		default: false,
+		description:
+			'Whether to only estimate the cost of the calls and validate their input. No payment, transaction or service call is made.',
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callService'],
+			},
+		},
+	},
+	{
+		displayName: 'Binary Input Fields',
+		name: 'binaryInputFields',
+		type: 'fixedCollection' as const,
+		typeOptions: {
+			multipleValues: true,
+		},
+		placeholder: 'Add Binary Field',
+		default: {},
+		description: 'Fill bytes fields of the request from binary data of the input item',
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callService', 'callStreamingService'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Field',
+				name: 'fields',
+				values: [
+					{
+						displayName: 'Field Path',
+						name: 'fieldPath',
+						type: 'string' as const,
+						default: '',
+						placeholder: 'image',
+						description: 'Dot-separated path of the bytes field in the request message',
+					},
+					{
+						displayName: 'Input Binary Field',
+						name: 'binaryPropertyName',
+						type: 'string' as const,
+						default: 'data',
+						description: 'Name of the binary property holding the file to send',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Request Stream',
+		name: 'requestStream',
+		type: 'options' as const,
+		options: [
+			{
+				name: 'One Request per Item',
+				value: 'item',
+				description: 'Make one call per input item, sending its input as the only request message',
+			},
+			{
+				name: 'All Items as One Stream',
+				value: 'allItems',
+				description: 'Make a single call that sends the input of every item as the request stream (client and bidi streaming)',
+			},
+		],
+		default: 'item',
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callStreamingService'],
+			},
+		},
+	},
+	{
+		displayName: 'Response Output',
+		name: 'responseOutput',
+		type: 'options' as const,
+		options: [
+			{
+				name: 'One Item per Message',
+				value: 'items',
+				description: 'Output every response message as its own item',
+			},
+			{
+				name: 'Aggregate Messages',
+				value: 'aggregate',
+				description: 'Output a single item with all response messages',
+			},
+		],
+		default: 'items',
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callStreamingService'],
+			},
+		},
+	},
+	{
+		displayName: 'Options',
+		name: 'options',
+		type: 'collection' as const,
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['invocation'],
+				operation: ['callService', 'callStreamingService', 'estimateCost'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Batch Concurrency',
+				name: 'batchConcurrency',
+				type: 'number' as const,
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 5,
+				description:
+					'Call the service for this many items at once. The channel is funded once per batch, and output keeps the order of the input items. Paid calls run in parallel with the Prepaid Token payment mode, with Signature per Call they are sent to the daemon one at a time.',
+				displayOptions: {
+					show: {
+						'/operation': ['callService'],
+					},
+				},
+			},
+			{
+				displayName: 'Bypass Cache',
+				name: 'bypassCache',
+				type: 'boolean' as const,
+				default: false,
+				description:
+					'Whether to call the service even if a cached result exists. The new result replaces the cached one.',
+				displayOptions: {
+					show: {
+						'/operation': ['callService'],
+					},
+				},
+			},
+			{
+				displayName: 'Cache File',
+				name: 'cacheFile',
+				type: 'string' as const,
+				default: '',
+				placeholder: '~/.n8n/singularitynet-result-cache.json',
+				description: 'Path of the cache file when using Local File. Uses the default path if empty.',
+				displayOptions: {
+					show: {
+						'/operation': ['callService'],
+					},
+				},
+			},
+			{
+				displayName: 'Cache Results',
+				name: 'cacheResults',
+				type: 'options' as const,
+				options: [
+					{
+						name: 'Local File',
+						value: 'file',
+						description: 'Cache in a JSON file, shared by all workflows on this machine',
+					},
+					{
+						name: 'Memory',
+						value: 'memory',
+						description: 'Cache in memory until n8n restarts',
+					},
+					{
+						name: 'Off',
+						value: 'off',
+						description: 'Always call the service',
+					},
+				],
+				default: 'off',
+				description:
+					'Where to cache results, so calls with the same input are answered without paying again',
+				displayOptions: {
+					show: {
+						'/operation': ['callService'],
+					},
+				},
+			},
+			{
+				displayName: 'Cache TTL (Seconds)',
+				name: 'cacheTtl',
+				type: 'number' as const,
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 3600,
+				description: 'How long cached results are used',
+				displayOptions: {
+					show: {
+						'/operation': ['callService'],
+					},
+				},
+			},
+			{
+				displayName: 'Channel ID',
+				name: 'channelId',
+				type: 'string' as const,
+				default: '',
+				description:
+					"Payment channel to pay from. If empty, the wallet's channel to the service group is used, or a new one is opened.",
+			},
+			{
+				displayName: 'Channel State File',
+				name: 'channelStateFile',
+				type: 'string' as const,
+				default: '',
+				placeholder: '~/.n8n/singularitynet-channel-state.json',
+				description: 'File to keep channel state in when using Local File storage',
+			},
+			{
+				displayName: 'Channel State Storage',
+				name: 'channelStateStorage',
+				type: 'options' as const,
+				options: [
+					{
+						name: 'Local File',
+						value: 'file',
+						description: 'Shared by all workflows on this machine',
+					},
+					{
+						name: 'None',
+						value: 'memory',
+						description: 'Rely on the daemon only',
+					},
+					{
+						name: 'Workflow Static Data',
+						value: 'workflowStaticData',
+						description: 'Shared by the production executions of this workflow',
+					},
+				],
+				default: 'workflowStaticData',
+				description: 'Where the last signed amount of each payment channel is kept between executions',
+			},
+			{
+				displayName: 'Circuit Breaker Threshold',
+				name: 'circuitBreakerThreshold',
+				type: 'number' as const,
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 5,
+				description:
+					'Consecutive transient failures after which a host is skipped for 30 seconds. Set to 0 to disable.',
+			},
+			{
+				displayName: 'Free Call Policy',
+				name: 'freeCallPolicy',
+				type: 'options' as const,
+				options: [
+					{
+						name: 'Free Calls Only',
+						value: 'freeOnly',
+						description: 'Fail when the wallet has no free calls left',
+					},
+					{
+						name: 'Paid Only',
+						value: 'paidOnly',
+						description: 'Always pay through a payment channel',
+					},
+					{
+						name: 'Use Free Calls, Fall Back to Paid',
+						value: 'preferFree',
+						description: 'Use free calls while available, then pay through a payment channel',
+					},
+				],
+				default: 'preferFree',
+				description: 'How the free calls offered by the service are used',
+			},
+			{
+				displayName: 'Channel Funding Amount (AGIX)',
+				name: 'channelAmount',
+				type: 'number' as const,
+				default: 0,
+				description:
+					'Amount to open a new channel with or top up a channel running low. Defaults to what the call needs.',
+			},
+			{
+				displayName: 'Channel Expiration (Blocks)',
+				name: 'channelExpiration',
+				type: 'number' as const,
+				default: 11520,
+				description: 'Expiration of new and extended channels in blocks from now (default ~2 days)',
+			},
+			{
+				displayName: 'Max Retries',
+				name: 'maxRetries',
+				type: 'number' as const,
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 3,
+				description:
+					'Maximum number of times to retry transient failures such as HTTP 429 or 503 and unreachable hosts. Paid calls are retried with the same payment, so they are charged once.',
+			},
+			{
+				displayName: 'Min Blocks to Expiry',
+				name: 'minExpirationBlocks',
+				type: 'number' as const,
+				default: 5760,
+				description: 'Extend the channel when it expires in fewer blocks than this (default ~1 day)',
+			},
+			{
+				displayName: 'Min Channel Balance (AGIX)',
+				name: 'minChannelBalance',
+				type: 'number' as const,
+				default: 0,
+				description: 'Top up the channel when less than this would be left after the call',
+			},
+			{
+				displayName: 'Output Bytes as Binary',
+				name: 'binaryOutput',
+				type: 'boolean' as const,
+				default: false,
+				description:
+					'Whether to output bytes fields of the response as binary data instead of base64 strings. The binary property is named after the field path.',
+			},
+			{
+				displayName: 'Payment Mode',
+				name: 'paymentMode',
+				type: 'options' as const,
+				options: [
+					{
+						name: 'Signature per Call',
+						value: 'escrow',
+						description:
+							'Sign a payment for each call. Calls on a channel are sent to the daemon one at a time, in the order they were signed.',
+					},
+					{
+						name: 'Prepaid Token',
+						value: 'prepaid',
+						description:
+							"Sign once for several calls and pay with the daemon's concurrency token, so calls can run in parallel",
+					},
+				],
+				default: 'escrow',
+				description: 'How paid calls are paid from the channel',
+			},
+			{
+				displayName: 'Prepaid Calls',
+				name: 'prepaidCalls',
+				type: 'number' as const,
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 10,
+				description: 'Number of calls to pay for with each concurrency token when using Prepaid Token',
+			},
+			{
+				displayName: 'Proto Definition',
+				name: 'protoDefinition',
+				type: 'string' as const,
+				typeOptions: {
+					rows: 10,
+				},
+				default: '',
+				description: 'Contents of the service .proto file, used to encode gRPC requests. Loaded from the service metadata if empty.',
+			},
+			{
+				displayName: 'Retry Delay (Ms)',
+				name: 'retryDelay',
+				type: 'number' as const,
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 500,
+				description: 'Delay before the first retry. Later retries back off exponentially, with jitter.',
+			},
+			{
+				displayName: 'Timeout (Ms)',
+				name: 'timeout',
+				type: 'number' as const,
+				default: 60000,
+				description: 'Maximum time to wait for the service response. For streaming calls this covers the whole stream.',
+			},
+		],
+	},
 ];
 
+/**
+ * Invocation options shared by the call operations
+ */
+interface CallOptions {
+	batchConcurrency?: number;
+	binaryOutput?: boolean;
+	bypassCache?: boolean;
+	cacheFile?: string;
+	cacheResults?: ResultCacheBackend | 'off';
+	cacheTtl?: number;
+	channelId?: string;
+	channelAmount?: number;
+	channelExpiration?: number;
+	channelStateFile?: string;
+	channelStateStorage?: ChannelStateBackend;
+	circuitBreakerThreshold?: number;
+	freeCallPolicy?: FreeCallPolicy;
+	maxRetries?: number;
+	minChannelBalance?: number;
+	minExpirationBlocks?: number;
+	paymentMode?: PaymentMode;
+	prepaidCalls?: number;
+	protoDefinition?: string;
+	retryDelay?: number;
+	timeout?: number;
+}
+
+/**
+ * Read the request message of an item
+ */
+async function getCallInput(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): Promise<Record<string, unknown>> {
+	const inputMode = this.getNodeParameter('inputMode', itemIndex, 'json') as string;
+	let input: Record<string, unknown>;
+
+	if (inputMode === 'fields') {
+		const methodInput = this.getNodeParameter('methodInput', itemIndex) as ResourceMapperValue;
+		try {
+			input = mapperValueToInput(methodInput, this.getInputData()[itemIndex].json);
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), (error as Error).message, { itemIndex });
+		}
+	} else {
+		const rawInput = this.getNodeParameter('input', itemIndex, '{}') as string | object;
+		try {
+			input = typeof rawInput === 'string' ? JSON.parse(rawInput) : { ...(rawInput as Record<string, unknown>) };
+		} catch {
+			throw new NodeOperationError(this.getNode(), 'Input must be valid JSON', { itemIndex });
+		}
+	}
+
+	// Bytes fields are sent as base64, like the JSON form of the message
+	const binaryFields = this.getNodeParameter('binaryInputFields.fields', itemIndex, []) as Array<{
+		fieldPath: string;
+		binaryPropertyName: string;
+	}>;
+	for (const field of binaryFields) {
+		this.helpers.assertBinaryData(itemIndex, field.binaryPropertyName);
+		const buffer = await this.helpers.getBinaryDataBuffer(itemIndex, field.binaryPropertyName);
+		setFieldValue(input, field.fieldPath, buffer.toString('base64'));
+	}
+
+	return input;
+}
+
+/**
+ * Build an output item for a response message
+ *
+ * With binary output enabled, every bytes field of the message is moved
+ * to a binary property named after its path and replaced by a reference.
+ */
+async function toOutputItem(
+	this: IExecuteFunctions,
+	json: { [key: string]: any },
+	message: Record<string, unknown> | undefined,
+	callResult: ServiceCallResult,
+	method: string,
+	options: CallOptions,
+	itemIndex: number,
+): Promise<INodeExecutionData> {
+	if (!options.binaryOutput || !message) {
+		return { json: { ...json, output: message } };
+	}
+	if (!callResult.proto) {
+		throw new NodeOperationError(
+			this.getNode(),
+			'Binary output requires the service proto definitions',
+			{ itemIndex },
+		);
+	}
+
+	const { outputType } = resolveGrpcMethod(callResult.proto, method).method;
+	const binary: IBinaryKeyData = {};
+
+	for (const field of collectBytesFields(callResult.proto, outputType, message)) {
+		const propertyName = field.path.replace(/\./g, '_');
+		const { mimeType, extension } = detectMimeType(field.data);
+		binary[propertyName] = await this.helpers.prepareBinaryData(
+			field.data,
+			`${propertyName}.${extension}`,
+			mimeType,
+		);
+		setFieldValue(message, field.path, {
+			binaryPropertyName: propertyName,
+			mimeType,
+			fileSize: field.data.length,
+		});
+	}
+
+	return { json: { ...json, output: message }, binary };
+}
+
+/**
+ * Parse the proto definition option, if given
+ */
+function getCallProto(
+	this: IExecuteFunctions,
+	options: CallOptions,
+	itemIndex: number,
+): ParsedProto | undefined {
+	if (!options.protoDefinition) {
+		return undefined;
+	}
+	try {
+		return parseProtoContent(options.protoDefinition);
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Invalid proto definition: ${(error as Error).message}`,
+			{ itemIndex },
+		);
+	}
+}
+
+/**
+ * Create the channel state store selected in the options
+ */
+function getChannelStateStore(this: IExecuteFunctions, options: CallOptions): ChannelStateStore {
+	return createChannelStateStore(options.channelStateStorage ?? 'workflowStaticData', {
+		staticData: this.getWorkflowStaticData('global'),
+		filePath: options.channelStateFile,
+	});
+}
+
+/**
+ * Create the result cache selected in the options, if any
+ */
+function getResultCache(options: CallOptions): ResultCache | undefined {
+	if (!options.cacheResults || options.cacheResults === 'off') {
+		return undefined;
+	}
+	return createResultCache(options.cacheResults, { filePath: options.cacheFile });
+}
+
+/**
+ * Build the billing fields of a call result
+ */
+function getBillingFields(callResult: ServiceCallResult): { [key: string]: any } {
+	return {
+		channelId: callResult.channelId,
+		nonce: callResult.nonce,
+		amountChargedCogs: callResult.amountUsed?.toString(),
+		amountChargedAgix: callResult.amountUsed !== undefined ? cogsToAgix(callResult.amountUsed) : 0,
+		signedAmountCogs: callResult.signedAmount?.toString(),
+		freeCall: callResult.freeCall ?? false,
+		freeCallsRemaining: callResult.freeCallsRemaining,
+		channelAction: callResult.channelAction,
+		channelTransactionHash: callResult.channelTransactionHash,
+		endpoint: callResult.endpoint,
+		cached: callResult.cached ?? false,
+		cachedAt: callResult.cachedAt,
+	};
+}
+
+/**
+ * Map the call options to the payment options of the SDK
+ */
+function getPaymentOptions(
+	options: CallOptions,
+): Omit<ServiceCallOptions, 'method' | 'input' | 'groupName' | 'proto'> {
+	return {
+		channelId: options.channelId ? parseInt(options.channelId, 10) : undefined,
+		channelAmount: options.channelAmount ? agixToCogs(options.channelAmount) : undefined,
+		channelExpirationBlocks: options.channelExpiration,
+		minChannelBalance: options.minChannelBalance ? agixToCogs(options.minChannelBalance) : undefined,
+		minExpirationBlocks: options.minExpirationBlocks,
+		paymentMode: options.paymentMode,
+		prepaidCalls: options.prepaidCalls,
+		timeout: options.timeout,
+		freeCallPolicy: options.freeCallPolicy ?? 'preferFree',
+	};
+}
+
+/**
+ * Map the call options to the retry policy of the transports
+ */
+function getRetryPolicy(options: CallOptions): Partial<RetryPolicy> {
+	return {
+		maxRetries: options.maxRetries,
+		initialDelay: options.retryDelay,
+		circuitBreakerThreshold: options.circuitBreakerThreshold,
+	};
+}
+
+/**
+ * Format a cost estimate for output, in cogs and AGIX
+ */
+function formatCostEstimate(estimate: CostEstimate): { [key: string]: any } {
+	return {
+		groupName: estimate.groupName,
+		priceModel: estimate.priceModel,
+		pricePerCallCogs: estimate.pricePerCall.toString(),
+		pricePerCallAgix: cogsToAgix(estimate.pricePerCall),
+		calls: estimate.calls,
+		freeCalls: estimate.freeCalls,
+		paidCalls: estimate.paidCalls,
+		totalCostCogs: estimate.totalCost.toString(),
+		totalCostAgix: cogsToAgix(estimate.totalCost),
+		channelId: estimate.channelId,
+		channelRemainingCogs: estimate.channelRemaining?.toString(),
+		channelExpiration: estimate.channelExpiration,
+		channelAction: estimate.channelAction,
+		channelFundingCogs: estimate.channelFunding.toString(),
+		channelFundingAgix: cogsToAgix(estimate.channelFunding),
+		escrowBalanceAgix: cogsToAgix(estimate.escrowBalance),
+		escrowShortfallAgix: cogsToAgix(estimate.escrowShortfall),
+		estimatedGas: estimate.estimatedGas.toString(),
+		gasPriceWei: estimate.gasPrice.toString(),
+		estimatedGasCostEth: weiToEth(estimate.estimatedGasCost),
+	};
+}
+
+/**
+ * Estimate the cost of calling a method once per input item
+ *
+ * Runs for the first item only and returns a single estimate paired
+ * with all items. With validateInput, the request of every item is read
+ * first so invalid input fails the dry run.
+ */
+async function estimateCallCost(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	platformCredentials: ICredentialDataDecryptedObject,
+	validateInput: boolean,
+): Promise<INodeExecutionData[]> {
+	if (itemIndex > 0) {
+		return [];
+	}
+
+	const itemIndexes = this.getInputData().map((_, index) => index);
+	if (validateInput) {
+		for (const index of itemIndexes) {
+			await getCallInput.call(this, index);
+		}
+	}
+
+	const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
+	const serviceId = this.getNodeParameter('serviceId', itemIndex, '', { extractValue: true }) as string;
+	const method = this.getNodeParameter('method', itemIndex) as string;
+	const groupName = this.getNodeParameter('groupName', itemIndex, '') as string;
+	const options = this.getNodeParameter('options', itemIndex, {}) as CallOptions;
+
+	const networkCredentials = await this.getCredentials('singularitynetNetworkApi');
+	const sdk = createSnetSdk(
+		networkCredentials,
+		platformCredentials,
+		undefined,
+		getChannelStateStore.call(this, options),
+		getRetryPolicy(options),
+	);
+
+	const estimate = await sdk.estimateCost(orgId, serviceId, {
+		method,
+		groupName: groupName || undefined,
+		...getPaymentOptions(options),
+		calls: itemIndexes.length,
+	});
+
+	return [
+		{
+			json: {
+				organizationId: orgId,
+				serviceId,
+				method,
+				dryRun: validateInput,
+				...formatCostEstimate(estimate),
+			},
+			pairedItem: itemIndexes.map((index) => ({ item: index })),
+		},
+	];
+}
+
+/**
+ * Fund the channel once for a batch of calls
+ *
+ * Skipped for dry runs, which must not send transactions.
+ */
+async function fundBatch(this: IExecuteFunctions, itemIndexes: number[]): Promise<void> {
+	const itemIndex = itemIndexes[0];
+	if (this.getNodeParameter('dryRun', itemIndex, false) as boolean) {
+		return;
+	}
+
+	const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
+	const serviceId = this.getNodeParameter('serviceId', itemIndex, '', { extractValue: true }) as string;
+	const method = this.getNodeParameter('method', itemIndex) as string;
+	const groupName = this.getNodeParameter('groupName', itemIndex, '') as string;
+	const options = this.getNodeParameter('options', itemIndex, {}) as CallOptions;
+
+	const platformCredentials = await this.getCredentials('singularitynetPlatformApi');
+	const networkCredentials = await this.getCredentials('singularitynetNetworkApi');
+	const sdk = createSnetSdk(
+		networkCredentials,
+		platformCredentials,
+		undefined,
+		getChannelStateStore.call(this, options),
+		getRetryPolicy(options),
+		undefined,
+		getTransactionOptions.call(this, itemIndex),
+	);
+
+	await sdk.fundChannel(orgId, serviceId, {
+		method,
+		groupName: groupName || undefined,
+		...getPaymentOptions(options),
+		calls: itemIndexes.length,
+	});
+}
+
+/**
+ * Call a service for all items, a batch of items at a time
+ *
+ * The items of a batch are called in parallel, after funding the channel
+ * once for the whole batch. Escrow payments are sent one at a time by the
+ * SDK, in signing order, so only prepaid calls reach the daemon in
+ * parallel. Output keeps the order of the input items and
+ * is paired with them. With continueOnFail, failed items become error
+ * items and the other items are still called.
+ */
+export async function executeInvocationBatch(
+	this: IExecuteFunctions,
+): Promise<INodeExecutionData[]> {
+	const items = this.getInputData();
+	const concurrency = Math.max(1, this.getNodeParameter('options.batchConcurrency', 0, 1) as number);
+	const results: INodeExecutionData[][] = [];
+
+	const toErrorItem = (error: unknown, itemIndex: number): INodeExecutionData => ({
+		json: { error: error instanceof Error ? error.message : String(error) },
+		pairedItem: { item: itemIndex },
+	});
+
+	for (let start = 0; start < items.length; start += concurrency) {
+		const batch = items.slice(start, start + concurrency).map((_, offset) => start + offset);
+
+		try {
+			await fundBatch.call(this, batch);
+		} catch (error) {
+			if (!this.continueOnFail()) throw error;
+			batch.forEach((itemIndex) => {
+				results[itemIndex] = [toErrorItem(error, itemIndex)];
+			});
+			continue;
+		}
+
+		const outcomes = await Promise.allSettled(
+			batch.map((itemIndex) => executeInvocationAction.call(this, 'callService', itemIndex)),
+		);
+		outcomes.forEach((outcome, offset) => {
+			const itemIndex = batch[offset];
+			if (outcome.status === 'fulfilled') {
+				results[itemIndex] = outcome.value.map((item) => ({
+					...item,
+					pairedItem: item.pairedItem ?? { item: itemIndex },
+				}));
+			} else if (this.continueOnFail()) {
+				results[itemIndex] = [toErrorItem(outcome.reason, itemIndex)];
+			} else {
+				throw outcome.reason;
+			}
+		});
+	}
+
+	return results.flat();
+}
+
 export async function executeInvocationAction(
 	this: IExecuteFunctions,
 	operation: string,
@@ -70,9 +1021,201 @@ export async function executeInvocationAction(
 	let result: { [key: string]: any };
 
 	switch (operation) {
+		case 'callService': {
+			if (this.getNodeParameter('dryRun', itemIndex, false) as boolean) {
+				return estimateCallCost.call(this, itemIndex, platformCredentials, true);
+			}
+
+			const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
+			const serviceId = this.getNodeParameter('serviceId', itemIndex, '', { extractValue: true }) as string;
+			const method = this.getNodeParameter('method', itemIndex) as string;
+			const groupName = this.getNodeParameter('groupName', itemIndex, '') as string;
+			const options = this.getNodeParameter('options', itemIndex, {}) as CallOptions;
+			const input = await getCallInput.call(this, itemIndex);
+			const proto = getCallProto.call(this, options, itemIndex);
+
+			const networkCredentials = await this.getCredentials('singularitynetNetworkApi');
+			const serviceCredentials = await this.getCredentials('aiServiceApi').catch(() => undefined);
+			const sdk = createSnetSdk(
+				networkCredentials,
+				platformCredentials,
+				serviceCredentials,
+				getChannelStateStore.call(this, options),
+				getRetryPolicy(options),
+				getResultCache(options),
+				getTransactionOptions.call(this, itemIndex),
+			);
+
+			const callResult = await sdk.callService(orgId, serviceId, {
+				method,
+				input,
+				groupName: groupName || undefined,
+				...getPaymentOptions(options),
+				proto,
+				cacheTtl: options.cacheTtl ?? 3600,
+				bypassCache: options.bypassCache,
+			});
+
+			if (!callResult.success) {
+				throw new NodeOperationError(this.getNode(), `Service call failed: ${callResult.error}`, {
+					itemIndex,
+				});
+			}
+
+			const item = await toOutputItem.call(
+				this,
+				{
+					organizationId: orgId,
+					serviceId,
+					method,
+					groupName: callResult.groupName,
+				},
+				callResult.output,
+				callResult,
+				method,
+				options,
+				itemIndex,
+			);
+			item.json = {
+				...item.json,
+				...getBillingFields(callResult),
+				executionTime: callResult.executionTime,
+			};
+			return [item];
+		}
+
+		case 'callStreamingService': {
+			const requestStream = this.getNodeParameter('requestStream', itemIndex, 'item') as string;
+			const responseOutput = this.getNodeParameter('responseOutput', itemIndex, 'items') as string;
+
+			// A single call streams the requests of all items, made for the first item
+			const itemIndexes =
+				requestStream === 'allItems' ? this.getInputData().map((_, index) => index) : [itemIndex];
+			if (requestStream === 'allItems' && itemIndex > 0) {
+				return [];
+			}
+
+			const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
+			const serviceId = this.getNodeParameter('serviceId', itemIndex, '', { extractValue: true }) as string;
+			const method = this.getNodeParameter('method', itemIndex) as string;
+			const groupName = this.getNodeParameter('groupName', itemIndex, '') as string;
+			const options = this.getNodeParameter('options', itemIndex, {}) as CallOptions;
+			const inputs: Array<Record<string, unknown>> = [];
+			for (const index of itemIndexes) {
+				inputs.push(await getCallInput.call(this, index));
+			}
+			const proto = getCallProto.call(this, options, itemIndex);
+
+			const networkCredentials = await this.getCredentials('singularitynetNetworkApi');
+			const serviceCredentials = await this.getCredentials('aiServiceApi').catch(() => undefined);
+			const sdk = createSnetSdk(
+				networkCredentials,
+				platformCredentials,
+				serviceCredentials,
+				getChannelStateStore.call(this, options),
+				getRetryPolicy(options),
+				undefined,
+				getTransactionOptions.call(this, itemIndex),
+			);
+
+			const callResult = await sdk.streamService(orgId, serviceId, {
+				method,
+				input: inputs[0],
+				inputs: requestStream === 'allItems' ? inputs : undefined,
+				groupName: groupName || undefined,
+				...getPaymentOptions(options),
+				proto,
+			});
+
+			if (!callResult.success) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`Streaming call failed after ${callResult.messages.length} message(s): ${callResult.error}`,
+					{ itemIndex },
+				);
+			}
+
+			const pairedItem = itemIndexes.map((index) => ({ item: index }));
+			const common = {
+				organizationId: orgId,
+				serviceId,
+				method,
+				groupName: callResult.groupName,
+				requestCount: inputs.length,
+				...getBillingFields(callResult),
+				executionTime: callResult.executionTime,
+			};
+
+			if (responseOutput === 'aggregate') {
+				const binary: IBinaryKeyData = {};
+				const messages: unknown[] = [];
+				for (const [messageIndex, message] of callResult.messages.entries()) {
+					const item = await toOutputItem.call(this, {}, message, callResult, method, options, itemIndex);
+					messages.push(item.json.output);
+					Object.entries(item.binary || {}).forEach(([name, data]) => {
+						binary[`message${messageIndex}_${name}`] = data;
+					});
+				}
+				return [
+					{
+						json: {
+							...common,
+							messageCount: messages.length,
+							messages,
+						},
+						binary: options.binaryOutput ? binary : undefined,
+						pairedItem,
+					},
+				];
+			}
+
+			const items: INodeExecutionData[] = [];
+			for (const [messageIndex, message] of callResult.messages.entries()) {
+				const item = await toOutputItem.call(
+					this,
+					{ ...common, messageIndex },
+					message,
+					callResult,
+					method,
+					options,
+					itemIndex,
+				);
+				items.push({ ...item, pairedItem });
+			}
+			return items;
+		}
+
+		case 'estimateCost':
+			return estimateCallCost.call(this, itemIndex, platformCredentials, false);
+
+		case 'getServiceMethods': {
+			const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
+			const serviceId = this.getNodeParameter('serviceId', itemIndex, '', { extractValue: true }) as string;
+			const networkCredentials = await this.getCredentials('singularitynetNetworkApi');
+			const sdk = createSnetSdk(networkCredentials, platformCredentials);
+
+			let proto: ParsedProto;
+			try {
+				proto = await sdk.getServiceProto(orgId, serviceId);
+			} catch (error) {
+				throw new NodeOperationError(
+					this.getNode(),
+					`Failed to load service protos: ${(error as Error).message}`,
+					{ itemIndex },
+				);
+			}
+
+			result = {
+				organizationId: orgId,
+				serviceId,
+				...serviceToJson(proto),
+			};
+			break;
+		}
+
 		case 'getServiceInfo': {
-			const orgId = this.getNodeParameter('organizationId', itemIndex) as string;
-			const serviceId = this.getNodeParameter('serviceId', itemIndex) as string;
+			const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
+			const serviceId = this.getNodeParameter('serviceId', itemIndex, '', { extractValue: true }) as string;
 			const service = await platformApi.getService(orgId, serviceId);
 			
 			result = {
@@ -93,8 +1236,8 @@ export async function executeInvocationAction(
 		}
 
 		case 'getFreeCallInfo': {
-			const orgId = this.getNodeParameter('organizationId', itemIndex) as string;
-			const serviceId = this.getNodeParameter('serviceId', itemIndex) as string;
+			const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
+			const serviceId = this.getNodeParameter('serviceId', itemIndex, '', { extractValue: true }) as string;
 			const userAddress = this.getNodeParameter('userAddress', itemIndex, '') as string;
 
 			if (userAddress) {
@@ -1,5 +1,15 @@
 import type { IExecuteFunctions, INodeProperties, IDataObject } from 'n8n-workflow';
-import { createEthereumClient } from '../../transport/ethereumClient';
+import { NodeOperationError } from 'n8n-workflow';
+import { createEthereumClient, PaymentClaim } from '../../transport/ethereumClient';
+import { createSnetSdk } from '../../transport/snetSdk';
+import { ChannelStateBackend, createChannelStateStore } from '../../utils/channelStateStore';
+import {
+	groupIdToBytes32,
+	splitPaymentSignature,
+	verifyPaymentSignature,
+} from '../../utils/paymentUtils';
+import { formatTransactionFees, getTransactionOptions } from '../../utils/transactionOptions';
+import { cogsToAgix } from '../../utils/unitConverter';
 
 export const paymentChannelOperations: INodeProperties[] = [
 	{
@@ -19,12 +29,24 @@ export const paymentChannelOperations: INodeProperties[] = [
 				description: 'Open a new payment channel',
 				action: 'Open a payment channel',
 			},
+			{
+				name: 'Deposit and Open Channel',
+				value: 'depositAndOpenChannel',
+				description: 'Deposit AGIX to the escrow and open a channel with it in one transaction',
+				action: 'Deposit and open a payment channel',
+			},
 			{
 				name: 'Get Channel Info',
 				value: 'getChannel',
 				description: 'Get payment channel information',
 				action: 'Get channel info',
 			},
+			{
+				name: 'List Channels',
+				value: 'listChannels',
+				description: 'List channels from their MPE events with their current state',
+				action: 'List payment channels',
+			},
 			{
 				name: 'Add Funds',
 				value: 'addFunds',
@@ -37,12 +59,30 @@ export const paymentChannelOperations: INodeProperties[] = [
 				description: 'Extend channel expiration',
 				action: 'Extend channel expiry',
 			},
+			{
+				name: 'Extend and Add Funds',
+				value: 'extendAndAddFunds',
+				description: 'Extend channel expiration and add funds in one transaction',
+				action: 'Extend channel expiry and add funds',
+			},
 			{
 				name: 'Claim Timeout',
 				value: 'claimTimeout',
 				description: 'Claim funds from expired channel',
 				action: 'Claim channel timeout',
 			},
+			{
+				name: 'Claim Payments',
+				value: 'claimPayments',
+				description: 'Claim signed payments from the channels paying this wallet',
+				action: 'Claim channel payments',
+			},
+			{
+				name: 'Sync Channel State',
+				value: 'syncChannelState',
+				description: 'Reconcile the stored signed amount of a channel with the daemon',
+				action: 'Sync channel state',
+			},
 		],
 		default: 'getChannel',
 	},
@@ -58,7 +98,14 @@ export const paymentChannelFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['paymentChannel'],
-				operation: ['getChannel', 'addFunds', 'extendExpiry', 'claimTimeout'],
+				operation: [
+					'getChannel',
+					'addFunds',
+					'extendExpiry',
+					'extendAndAddFunds',
+					'claimTimeout',
+					'syncChannelState',
+				],
 			},
 		},
 		default: 0,
@@ -73,7 +120,7 @@ export const paymentChannelFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['paymentChannel'],
-				operation: ['openChannel'],
+				operation: ['openChannel', 'depositAndOpenChannel'],
 			},
 		},
 		default: '',
@@ -87,7 +134,7 @@ export const paymentChannelFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['paymentChannel'],
-				operation: ['openChannel'],
+				operation: ['openChannel', 'depositAndOpenChannel'],
 			},
 		},
 		default: '',
@@ -101,7 +148,7 @@ export const paymentChannelFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['paymentChannel'],
-				operation: ['openChannel', 'addFunds'],
+				operation: ['openChannel', 'depositAndOpenChannel', 'addFunds', 'extendAndAddFunds'],
 			},
 		},
 		default: 1,
@@ -115,21 +162,186 @@ export const paymentChannelFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['paymentChannel'],
-				operation: ['openChannel', 'extendExpiry'],
+				operation: ['openChannel', 'depositAndOpenChannel', 'extendExpiry', 'extendAndAddFunds'],
 			},
 		},
 		default: 11520,
 		description: 'Channel expiration in blocks (default ~2 days)',
 	},
+	// List Channels fields
+	{
+		displayName: 'Filters',
+		name: 'channelFilters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['paymentChannel'],
+				operation: ['listChannels'],
+			},
+		},
+		options: [
+			{
+				displayName: 'From Block',
+				name: 'fromBlock',
+				type: 'number',
+				default: 0,
+				description:
+					'Block to start scanning events from. Defaults to the block the MPE contract was deployed in. Some RPC providers limit the range of a scan.',
+			},
+			{
+				displayName: 'Group ID',
+				name: 'groupId',
+				type: 'string',
+				default: '',
+				description: 'Only list channels of this service group (bytes32 or base64)',
+			},
+			{
+				displayName: 'Recipient Address',
+				name: 'recipient',
+				type: 'string',
+				default: '',
+				description: 'Only list channels paying this recipient',
+			},
+			{
+				displayName: 'Sender Address',
+				name: 'sender',
+				type: 'string',
+				default: '',
+				description: 'Only list channels opened by this address. Defaults to the configured wallet, if any.',
+			},
+		],
+	},
+	// Claim Payments fields
+	{
+		displayName: 'Payment Authorizations',
+		name: 'paymentAuthorizations',
+		type: 'json',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['paymentChannel'],
+				operation: ['claimPayments'],
+			},
+		},
+		default: '[]',
+		placeholder: '[{"channelId": 1, "nonce": 0, "amount": "100", "signature": "0x..."}]',
+		description:
+			'Signed payments to claim, as an array of channel ID, nonce, signed amount in cogs and signature (hex or base64). An optional claimAmount claims less than the signed amount.',
+	},
+	{
+		displayName: 'Remaining Funds',
+		name: 'remainingFunds',
+		type: 'options',
+		displayOptions: {
+			show: {
+				resource: ['paymentChannel'],
+				operation: ['claimPayments'],
+			},
+		},
+		options: [
+			{
+				name: 'Keep in Channel',
+				value: 'keep',
+				description: 'Leave the rest of each channel open for further calls under the next nonce',
+			},
+			{
+				name: 'Send Back',
+				value: 'sendback',
+				description: 'Return the rest of each channel to its sender',
+			},
+		],
+		default: 'keep',
+		description: 'What happens to the funds left in each channel after the claim',
+	},
+	// Sync Channel State fields
+	{
+		displayName: 'Daemon Endpoint',
+		name: 'daemonEndpoint',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['paymentChannel'],
+				operation: ['syncChannelState'],
+			},
+		},
+		default: '',
+		description: 'Endpoint of the service daemon the channel pays',
+	},
+	{
+		displayName: 'Channel State Storage',
+		name: 'channelStateStorage',
+		type: 'options',
+		displayOptions: {
+			show: {
+				resource: ['paymentChannel'],
+				operation: ['syncChannelState'],
+			},
+		},
+		options: [
+			{
+				name: 'Local File',
+				value: 'file',
+			},
+			{
+				name: 'Workflow Static Data',
+				value: 'workflowStaticData',
+			},
+		],
+		default: 'workflowStaticData',
+		description: 'Where the last signed amount of each payment channel is kept between executions',
+	},
+	{
+		displayName: 'Channel State File',
+		name: 'channelStateFile',
+		type: 'string',
+		displayOptions: {
+			show: {
+				resource: ['paymentChannel'],
+				operation: ['syncChannelState'],
+				channelStateStorage: ['file'],
+			},
+		},
+		default: '',
+		placeholder: '~/.n8n/singularitynet-channel-state.json',
+		description: 'File to keep channel state in. Defaults to the placeholder path.',
+	},
 ];
 
+/**
+ * Convert a payment signature to hex
+ *
+ * Daemons report signatures base64 encoded, the contract takes them as hex.
+ */
+function toHexSignature(signature: string): string {
+	if (signature.startsWith('0x')) {
+		return signature;
+	}
+	return `0x${Buffer.from(signature, 'base64').toString('hex')}`;
+}
+
+/**
+ * Check that a value is a non-negative whole number, as a number or string
+ */
+function isIntegerValue(value: unknown): boolean {
+	if (typeof value === 'number') {
+		return Number.isSafeInteger(value) && value >= 0;
+	}
+	return typeof value === 'string' && /^\d+$/.test(value.trim());
+}
+
 export async function executePaymentChannelAction(
 	this: IExecuteFunctions,
 	operation: string,
 	itemIndex: number,
 ): Promise<IDataObject> {
 	const credentials = await this.getCredentials('singularitynetNetwork');
-	const ethereumClient = createEthereumClient(credentials as Record<string, unknown>);
+	const ethereumClient = createEthereumClient(
+		credentials as Record<string, unknown>,
+		getTransactionOptions.call(this, itemIndex),
+	);
 
 	if (operation === 'openChannel') {
 		const recipientAddress = this.getNodeParameter('recipientAddress', itemIndex) as string;
@@ -158,6 +370,40 @@ export async function executePaymentChannelAction(
 			amount,
 			expirationBlock,
 			transactionHash: result.tx.hash,
+			...formatTransactionFees(result.tx),
+		};
+	}
+
+	if (operation === 'depositAndOpenChannel') {
+		const recipientAddress = this.getNodeParameter('recipientAddress', itemIndex) as string;
+		const groupId = this.getNodeParameter('groupId', itemIndex) as string;
+		const amount = this.getNodeParameter('amount', itemIndex) as number;
+		const expiration = this.getNodeParameter('expiration', itemIndex) as number;
+
+		const currentBlock = await ethereumClient.getCurrentBlock();
+		const expirationBlock = currentBlock + expiration;
+		// Convert amount to bigint (AGIX has 8 decimals = 10^8 cogs)
+		const amountInCogs = BigInt(Math.floor(amount * 1e8));
+
+		const result = await ethereumClient.depositAndOpenChannel(
+			recipientAddress,
+			groupId,
+			amountInCogs,
+			expirationBlock,
+		);
+
+		return {
+			success: true,
+			operation: 'depositAndOpenChannel',
+			channelId: result.channelId,
+			recipient: recipientAddress,
+			groupId,
+			amount,
+			expirationBlock,
+			transactionHash: result.tx.hash,
+			approvalTransactionHash: result.approval?.hash,
+			transactionCount: result.approval ? 2 : 1,
+			...formatTransactionFees(result.approval, result.tx),
 		};
 	}
 
@@ -178,6 +424,44 @@ export async function executePaymentChannelAction(
 		};
 	}
 
+	if (operation === 'listChannels') {
+		const filters = this.getNodeParameter('channelFilters', itemIndex, {}) as IDataObject;
+		const sender = (filters.sender as string) || ethereumClient.getWallet()?.address;
+		const groupId = filters.groupId ? groupIdToBytes32(filters.groupId as string) : undefined;
+
+		const channels = await ethereumClient.listChannels({
+			sender,
+			recipient: (filters.recipient as string) || undefined,
+			groupId,
+			fromBlock: (filters.fromBlock as number) || undefined,
+		});
+
+		return {
+			success: true,
+			operation: 'listChannels',
+			sender,
+			totalChannels: channels.length,
+			openChannels: channels.filter((channel) => !channel.expired).length,
+			channels: channels.map((channel) => ({
+				channelId: channel.channelId,
+				nonce: channel.nonce,
+				sender: channel.sender,
+				signer: channel.signer,
+				recipient: channel.recipient,
+				groupId: channel.groupId,
+				value: channel.value.toString(),
+				valueAgix: cogsToAgix(channel.value),
+				expiration: channel.expiration,
+				expired: channel.expired,
+				openedAtBlock: channel.openedAtBlock,
+				lastActivityBlock: channel.lastActivityBlock,
+				totalFunded: channel.totalFunded.toString(),
+				totalClaimed: channel.totalClaimed.toString(),
+				claimCount: channel.claimCount,
+			})),
+		};
+	}
+
 	if (operation === 'addFunds') {
 		const channelId = this.getNodeParameter('channelId', itemIndex) as number;
 		const amount = this.getNodeParameter('amount', itemIndex) as number;
@@ -192,6 +476,7 @@ export async function executePaymentChannelAction(
 			channelId,
 			amount,
 			transactionHash: result.hash,
+			...formatTransactionFees(result),
 		};
 	}
 
@@ -210,6 +495,30 @@ export async function executePaymentChannelAction(
 			channelId,
 			newExpiration,
 			transactionHash: result.hash,
+			...formatTransactionFees(result),
+		};
+	}
+
+	if (operation === 'extendAndAddFunds') {
+		const channelId = this.getNodeParameter('channelId', itemIndex) as number;
+		const amount = this.getNodeParameter('amount', itemIndex) as number;
+		const expiration = this.getNodeParameter('expiration', itemIndex) as number;
+
+		const currentBlock = await ethereumClient.getCurrentBlock();
+		const newExpiration = currentBlock + expiration;
+		// Convert amount to bigint (AGIX has 8 decimals = 10^8 cogs)
+		const amountInCogs = BigInt(Math.floor(amount * 1e8));
+
+		const result = await ethereumClient.extendAndAddFundsToChannel(channelId, newExpiration, amountInCogs);
+
+		return {
+			success: true,
+			operation: 'extendAndAddFunds',
+			channelId,
+			amount,
+			newExpiration,
+			transactionHash: result.hash,
+			...formatTransactionFees(result),
 		};
 	}
 
@@ -222,6 +531,159 @@ export async function executePaymentChannelAction(
 			operation: 'claimTimeout',
 			channelId,
 			transactionHash: result.hash,
+			...formatTransactionFees(result),
+		};
+	}
+
+	if (operation === 'claimPayments') {
+		const rawAuthorizations = this.getNodeParameter('paymentAuthorizations', itemIndex) as unknown;
+		const isSendback = this.getNodeParameter('remainingFunds', itemIndex, 'keep') === 'sendback';
+		let authorizations: IDataObject[];
+		try {
+			authorizations = (
+				typeof rawAuthorizations === 'string' ? JSON.parse(rawAuthorizations) : rawAuthorizations
+			) as IDataObject[];
+		} catch (error) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Payment authorizations are not valid JSON: ${(error as Error).message}`,
+				{ itemIndex },
+			);
+		}
+		if (!Array.isArray(authorizations) || authorizations.length === 0) {
+			throw new NodeOperationError(this.getNode(), 'Payment authorizations must be a non-empty array', {
+				itemIndex,
+			});
+		}
+
+		const wallet = ethereumClient.getAddress();
+		const mpeAddress = ethereumClient.getMpeAddress();
+		const claims: PaymentClaim[] = [];
+		const rejected: IDataObject[] = [];
+
+		for (const [index, authorization] of authorizations.entries()) {
+			// Amounts are cogs and must be whole numbers to be signed
+			const invalid = ['channelId', 'nonce', 'amount'].filter(
+				(field) => !isIntegerValue((authorization as IDataObject | null)?.[field]),
+			);
+			if (authorization?.claimAmount !== undefined && !isIntegerValue(authorization.claimAmount)) {
+				invalid.push('claimAmount');
+			}
+			if (invalid.length > 0) {
+				rejected.push({
+					index,
+					channelId: authorization?.channelId,
+					nonce: authorization?.nonce,
+					amount: authorization?.amount,
+					reason: `Missing or invalid ${invalid.join(', ')}, expected a whole number`,
+				});
+				continue;
+			}
+
+			const channelId = Number(authorization.channelId);
+			const nonce = Number(authorization.nonce);
+			const amount = BigInt(String(authorization.amount));
+			const claimAmount = BigInt(String(authorization.claimAmount ?? authorization.amount));
+			const signature = toHexSignature(String(authorization.signature ?? ''));
+
+			const reject = (reason: string) =>
+				rejected.push({ index, channelId, nonce, amount: amount.toString(), reason });
+
+			if (claims.some((claim) => claim.channelId === channelId)) {
+				reject('Duplicate authorization for the channel');
+				continue;
+			}
+			const channel = await ethereumClient.getChannel(channelId);
+			if (channel.recipient.toLowerCase() !== wallet.toLowerCase()) {
+				reject('Channel does not pay this wallet');
+				continue;
+			}
+			if (channel.nonce !== nonce) {
+				reject(`Nonce does not match the channel nonce ${channel.nonce}`);
+				continue;
+			}
+			if (claimAmount > amount) {
+				reject('Claim amount exceeds the signed amount');
+				continue;
+			}
+			if (claimAmount > channel.value) {
+				reject(`Amount exceeds the channel value ${channel.value.toString()}`);
+				continue;
+			}
+			if (!verifyPaymentSignature(mpeAddress, channelId, nonce, amount, signature, channel.signer)) {
+				reject('Signature was not made by the channel signer');
+				continue;
+			}
+
+			const { v, r, s } = splitPaymentSignature(signature);
+			claims.push({ channelId, amount: claimAmount, plannedAmount: amount, v, r, s });
+		}
+
+		if (claims.length === 0) {
+			return {
+				success: false,
+				operation: 'claimPayments',
+				claimedChannels: 0,
+				totalClaimed: '0',
+				totalClaimedAgix: 0,
+				rejected,
+			};
+		}
+
+		const result = await ethereumClient.multiChannelClaim(claims, isSendback);
+		const totalClaimed = result.claims.reduce((total, claim) => total + claim.claimAmount, BigInt(0));
+
+		return {
+			success: result.tx.status === 'success',
+			operation: 'claimPayments',
+			remainingFunds: isSendback ? 'sendback' : 'keep',
+			claimedChannels: result.claims.length,
+			totalClaimed: totalClaimed.toString(),
+			totalClaimedAgix: cogsToAgix(totalClaimed),
+			claims: result.claims.map((claim) => ({
+				channelId: claim.channelId,
+				nonce: claim.nonce,
+				claimed: claim.claimAmount.toString(),
+				claimedAgix: cogsToAgix(claim.claimAmount),
+				sentBack: claim.sendBackAmount.toString(),
+				kept: claim.keepAmount.toString(),
+			})),
+			rejected,
+			transactionHash: result.tx.hash,
+			blockNumber: result.tx.blockNumber,
+			...formatTransactionFees(result.tx),
+		};
+	}
+
+	if (operation === 'syncChannelState') {
+		const channelId = this.getNodeParameter('channelId', itemIndex) as number;
+		const daemonEndpoint = this.getNodeParameter('daemonEndpoint', itemIndex) as string;
+		const storage = this.getNodeParameter('channelStateStorage', itemIndex) as ChannelStateBackend;
+		const filePath = this.getNodeParameter('channelStateFile', itemIndex, '') as string;
+
+		const store = createChannelStateStore(storage, {
+			staticData: this.getWorkflowStaticData('global'),
+			filePath,
+		});
+		const sdk = createSnetSdk(credentials, undefined, undefined, store);
+		const ethClient = sdk.getEthereumClient();
+
+		const channel = await ethClient.getChannel(channelId);
+		const state = await sdk.syncChannelState(daemonEndpoint, channel, ethClient.getMpeAddress());
+
+		return {
+			success: true,
+			operation: 'syncChannelState',
+			channelId,
+			nonce: state.nonce,
+			onChainNonce: channel.nonce,
+			signedAmount: state.signedAmount.toString(),
+			availableAmount: state.availableAmount.toString(),
+			remainingAmount: (state.availableAmount - state.signedAmount).toString(),
+			callCount: state.callCount,
+			daemonNonce: state.daemon.currentNonce,
+			daemonSignedAmount: state.daemon.currentSignedAmount.toString(),
+			pendingClaimAmount: state.daemon.oldNonceSignedAmount?.toString(),
 		};
 	}
 
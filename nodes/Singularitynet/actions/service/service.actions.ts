@@ -17,12 +17,29 @@ export const serviceOperations: INodePropertyOptions[] = [
 
 export const serviceFields = [
 	{
-		displayName: 'Organization ID',
+		displayName: 'Organization',
 		name: 'organizationId',
-		type: 'string' as const,
-		default: '',
+		type: 'resourceLocator' as const,
+		default: { mode: 'list', value: '' },
 		required: true,
-		description: 'The organization ID',
+		description: 'The organization',
+		modes: [
+			{
+				displayName: 'From List',
+				name: 'list',
+				type: 'list' as const,
+				typeOptions: {
+					searchListMethod: 'searchOrganizations',
+					searchable: true,
+				},
+			},
+			{
+				displayName: 'ID',
+				name: 'id',
+				type: 'string' as const,
+				placeholder: 'snet',
+			},
+		],
 		displayOptions: {
 			show: {
 				resource: ['service'],
@@ -31,12 +48,29 @@ export const serviceFields = [
 		},
 	},
 	{
-		displayName: 'Service ID',
+		displayName: 'Service',
 		name: 'serviceId',
-		type: 'string' as const,
-		default: '',
+		type: 'resourceLocator' as const,
+		default: { mode: 'list', value: '' },
 		required: true,
-		description: 'The service ID',
+		description: 'The service',
+		modes: [
+			{
+				displayName: 'From List',
+				name: 'list',
+				type: 'list' as const,
+				typeOptions: {
+					searchListMethod: 'searchServices',
+					searchable: true,
+				},
+			},
+			{
+				displayName: 'ID',
+				name: 'id',
+				type: 'string' as const,
+				placeholder: 'example-service',
+			},
+		],
 		displayOptions: {
 			show: {
 				resource: ['service'],
@@ -95,8 +129,8 @@ export async function executeServiceAction(
 		}
 
 		case 'getServiceInfo': {
-			const orgId = this.getNodeParameter('organizationId', itemIndex) as string;
-			const serviceId = this.getNodeParameter('serviceId', itemIndex) as string;
+			const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
+			const serviceId = this.getNodeParameter('serviceId', itemIndex, '', { extractValue: true }) as string;
 			const service = await platformApi.getService(orgId, serviceId);
 			result = { service, organizationId: orgId, serviceId };
 			break;
@@ -111,7 +145,7 @@ export async function executeServiceAction(
 		}
 
 		case 'getServicesByOrg': {
-			const orgId = this.getNodeParameter('organizationId', itemIndex) as string;
+			const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
 			const limit = this.getNodeParameter('limit', itemIndex, 20) as number;
 			const services = await platformApi.getOrganizationServices(orgId);
 			result = { services: services.slice(0, limit), organizationId: orgId, count: services.length };
@@ -119,8 +153,8 @@ export async function executeServiceAction(
 		}
 
 		case 'getServiceRating': {
-			const orgId = this.getNodeParameter('organizationId', itemIndex) as string;
-			const serviceId = this.getNodeParameter('serviceId', itemIndex) as string;
+			const orgId = this.getNodeParameter('organizationId', itemIndex, '', { extractValue: true }) as string;
+			const serviceId = this.getNodeParameter('serviceId', itemIndex, '', { extractValue: true }) as string;
 			const rating = await platformApi.getServiceRating(orgId, serviceId);
 			result = { organizationId: orgId, serviceId, rating };
 			break;
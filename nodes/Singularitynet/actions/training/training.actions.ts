@@ -0,0 +1,379 @@
+/**
+ * Model Training Actions
+ * Manage the models of services that support training, through the daemon
+ */
+
+import type { IExecuteFunctions, INodeExecutionData, INodePropertyOptions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { ModelDetails } from '../../transport/daemonClient';
+import { createSnetSdk } from '../../transport/snetSdk';
+import { parseMethodPath } from '../../utils/serviceUtils';
+
+export const trainingOperations: INodePropertyOptions[] = [
+	{
+		name: 'Create Model',
+		value: 'createModel',
+		description: 'Create a model for a training method of a service',
+	},
+	{ name: 'Delete Model', value: 'deleteModel', description: 'Delete a model' },
+	{
+		name: 'Get Model Status',
+		value: 'getModelStatus',
+		description: 'Get the training status of a model',
+	},
+	{
+		name: 'List Models',
+		value: 'listModels',
+		description: 'List the models of a training method the wallet can access',
+	},
+	{
+		name: 'Update Model Access',
+		value: 'updateModelAccess',
+		description: 'Update who can access a model',
+	},
+];
+
+export const trainingFields = [
+	{
+		displayName: 'Organization',
+		name: 'organizationId',
+		type: 'resourceLocator' as const,
+		default: { mode: 'list', value: '' },
+		required: true,
+		description: 'The organization',
+		modes: [
+			{
+				displayName: 'From List',
+				name: 'list',
+				type: 'list' as const,
+				typeOptions: {
+					searchListMethod: 'searchOrganizations',
+					searchable: true,
+				},
+			},
+			{
+				displayName: 'ID',
+				name: 'id',
+				type: 'string' as const,
+				placeholder: 'snet',
+			},
+		],
+		displayOptions: {
+			show: {
+				resource: ['training'],
+			},
+		},
+	},
+	{
+		displayName: 'Service',
+		name: 'serviceId',
+		type: 'resourceLocator' as const,
+		default: { mode: 'list', value: '' },
+		required: true,
+		description: 'The service',
+		modes: [
+			{
+				displayName: 'From List',
+				name: 'list',
+				type: 'list' as const,
+				typeOptions: {
+					searchListMethod: 'searchServices',
+					searchable: true,
+				},
+			},
+			{
+				displayName: 'ID',
+				name: 'id',
+				type: 'string' as const,
+				placeholder: 'example-service',
+			},
+		],
+		displayOptions: {
+			show: {
+				resource: ['training'],
+			},
+		},
+	},
+	{
+		displayName: 'Group Name or ID',
+		name: 'groupName',
+		type: 'options' as const,
+		typeOptions: {
+			loadOptionsMethod: 'getServiceGroups',
+			loadOptionsDependsOn: ['organizationId.value', 'serviceId.value'],
+		},
+		default: '',
+		description:
+			'Service group whose daemon serves the training API. Uses the first group of the service if empty. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+		displayOptions: {
+			show: {
+				resource: ['training'],
+			},
+		},
+	},
+	{
+		displayName: 'Training Method Name or ID',
+		name: 'trainingMethod',
+		type: 'options' as const,
+		typeOptions: {
+			loadOptionsMethod: 'getServiceMethods',
+			loadOptionsDependsOn: ['organizationId.value', 'serviceId.value'],
+		},
+		default: '',
+		required: true,
+		description:
+			'gRPC method that trains the models, in the form package.Service/Method. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+		displayOptions: {
+			show: {
+				resource: ['training'],
+			},
+		},
+	},
+	{
+		displayName: 'Model ID',
+		name: 'modelId',
+		type: 'string' as const,
+		default: '',
+		required: true,
+		description: 'ID of the model, as returned when it was created',
+		displayOptions: {
+			show: {
+				resource: ['training'],
+				operation: ['deleteModel', 'getModelStatus', 'updateModelAccess'],
+			},
+		},
+	},
+	{
+		displayName: 'Model Name',
+		name: 'modelName',
+		type: 'string' as const,
+		default: '',
+		required: true,
+		description: 'Name of the new model',
+		displayOptions: {
+			show: {
+				resource: ['training'],
+				operation: ['createModel'],
+			},
+		},
+	},
+	{
+		displayName: 'Publicly Accessible',
+		name: 'isPubliclyAccessible',
+		type: 'boolean' as const,
+		default: false,
+		description: 'Whether any address can use the model',
+		displayOptions: {
+			show: {
+				resource: ['training'],
+				operation: ['createModel', 'updateModelAccess'],
+			},
+		},
+	},
+	{
+		displayName: 'Address List',
+		name: 'addressList',
+		type: 'string' as const,
+		default: '',
+		placeholder: '0x123..., 0x456...',
+		description:
+			'Comma-separated addresses that can use the model besides the wallet, when it is not publicly accessible',
+		displayOptions: {
+			show: {
+				resource: ['training'],
+				operation: ['createModel', 'updateModelAccess'],
+			},
+		},
+	},
+	{
+		displayName: 'Additional Fields',
+		name: 'additionalFields',
+		type: 'collection' as const,
+		placeholder: 'Add Field',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['training'],
+				operation: ['createModel', 'updateModelAccess'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Description',
+				name: 'description',
+				type: 'string' as const,
+				default: '',
+				description: 'Description of the model',
+			},
+			{
+				displayName: 'Model Name',
+				name: 'modelName',
+				type: 'string' as const,
+				default: '',
+				description: 'New name of the model',
+				displayOptions: {
+					show: {
+						'/operation': ['updateModelAccess'],
+					},
+				},
+			},
+			{
+				displayName: 'Training Data Link',
+				name: 'trainingDataLink',
+				type: 'string' as const,
+				default: '',
+				description: 'URL of the data to train the model on',
+			},
+		],
+	},
+];
+
+/**
+ * Format model details for output
+ */
+function formatModel(model: ModelDetails, endpoint: string): { [key: string]: any } {
+	return {
+		modelId: model.modelId,
+		modelName: model.modelName,
+		status: model.status,
+		description: model.description,
+		isPubliclyAccessible: model.isPubliclyAccessible,
+		addressList: model.addressList,
+		trainingDataLink: model.trainingDataLink,
+		method: `${model.grpcServiceName}/${model.grpcMethodName}`,
+		organizationId: model.organizationId,
+		serviceId: model.serviceId,
+		groupId: model.groupId,
+		updatedDate: model.updatedDate || undefined,
+		endpoint,
+	};
+}
+
+/**
+ * Split a comma-separated address list
+ */
+function parseAddressList(value: string): string[] {
+	return value
+		.split(',')
+		.map((address) => address.trim())
+		.filter((address) => address.length > 0);
+}
+
+export async function executeTrainingAction(
+	this: IExecuteFunctions,
+	operation: string,
+	itemIndex: number,
+): Promise<INodeExecutionData[]> {
+	const orgId = this.getNodeParameter('organizationId', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+	const serviceId = this.getNodeParameter('serviceId', itemIndex, '', {
+		extractValue: true,
+	}) as string;
+	const groupName = this.getNodeParameter('groupName', itemIndex, '') as string;
+	const trainingMethod = this.getNodeParameter('trainingMethod', itemIndex) as string;
+	const { serviceName, methodName } = parseMethodPath(trainingMethod);
+	if (!serviceName || !methodName) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Training method '${trainingMethod}' must be in the form package.Service/Method`,
+			{ itemIndex },
+		);
+	}
+
+	const networkCredentials = await this.getCredentials('singularitynetNetworkApi');
+	const platformCredentials = await this.getCredentials('singularitynetPlatformApi');
+	const serviceCredentials = await this.getCredentials('aiServiceApi').catch(() => undefined);
+	const sdk = createSnetSdk(networkCredentials, platformCredentials, serviceCredentials);
+
+	const { daemon, endpoint, scope } = await sdk.getTrainingTarget(
+		orgId,
+		serviceId,
+		groupName || undefined,
+	);
+	const model: ModelDetails = {
+		...scope,
+		grpcServiceName: serviceName,
+		grpcMethodName: methodName,
+	};
+
+	switch (operation) {
+		case 'createModel': {
+			const additionalFields = this.getNodeParameter('additionalFields', itemIndex, {}) as {
+				description?: string;
+				trainingDataLink?: string;
+			};
+			const created = await daemon.createModel(
+				await sdk.getTrainingAuthorization('__create_model'),
+				{
+					...model,
+					modelName: this.getNodeParameter('modelName', itemIndex) as string,
+					isPubliclyAccessible: this.getNodeParameter(
+						'isPubliclyAccessible',
+						itemIndex,
+						false,
+					) as boolean,
+					addressList: parseAddressList(
+						this.getNodeParameter('addressList', itemIndex, '') as string,
+					),
+					description: additionalFields.description,
+					trainingDataLink: additionalFields.trainingDataLink,
+				},
+			);
+			return [{ json: formatModel(created, endpoint) }];
+		}
+
+		case 'listModels': {
+			const models = await daemon.getAllModels(
+				await sdk.getTrainingAuthorization('__get_all_models'),
+				serviceName,
+				methodName,
+			);
+			return models.map((listed) => ({ json: formatModel(listed, endpoint) }));
+		}
+
+		case 'getModelStatus': {
+			const status = await daemon.getModelStatus(
+				await sdk.getTrainingAuthorization('__get_model_status'),
+				{ ...model, modelId: this.getNodeParameter('modelId', itemIndex) as string },
+			);
+			return [{ json: formatModel(status, endpoint) }];
+		}
+
+		case 'updateModelAccess': {
+			const additionalFields = this.getNodeParameter('additionalFields', itemIndex, {}) as {
+				description?: string;
+				modelName?: string;
+				trainingDataLink?: string;
+			};
+			const updated = await daemon.updateModelAccess(
+				await sdk.getTrainingAuthorization('__update_model_access'),
+				{
+					...model,
+					...additionalFields,
+					modelId: this.getNodeParameter('modelId', itemIndex) as string,
+					isPubliclyAccessible: this.getNodeParameter(
+						'isPubliclyAccessible',
+						itemIndex,
+						false,
+					) as boolean,
+					addressList: parseAddressList(
+						this.getNodeParameter('addressList', itemIndex, '') as string,
+					),
+				},
+			);
+			return [{ json: formatModel(updated, endpoint) }];
+		}
+
+		case 'deleteModel': {
+			const deleted = await daemon.deleteModel(
+				await sdk.getTrainingAuthorization('__delete_model'),
+				{ ...model, modelId: this.getNodeParameter('modelId', itemIndex) as string },
+			);
+			return [{ json: formatModel(deleted, endpoint) }];
+		}
+
+		default:
+			throw new NodeOperationError(this.getNode(), `Unknown training operation: ${operation}`);
+	}
+}
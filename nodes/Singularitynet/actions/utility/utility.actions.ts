@@ -13,6 +13,7 @@ export const utilityOperations: INodePropertyOptions[] = [
 	{ name: 'Get Gas Estimate', value: 'getGasEstimate', description: 'Get current gas price' },
 	{ name: 'Get Network Status', value: 'getNetworkStatus', description: 'Get network status' },
 	{ name: 'Validate Address', value: 'validateAddress', description: 'Validate Ethereum address' },
+	{ name: 'Wait for Transaction', value: 'waitForTransaction', description: 'Wait for a transaction to be confirmed and decode its events' },
 ];
 
 export const utilityFields = [
@@ -80,6 +81,52 @@ export const utilityFields = [
 			},
 		},
 	},
+	{
+		displayName: 'Transaction Hash',
+		name: 'transactionHash',
+		type: 'string' as const,
+		default: '',
+		required: true,
+		description: 'Hash of the transaction to wait for',
+		displayOptions: {
+			show: {
+				resource: ['utility'],
+				operation: ['waitForTransaction'],
+			},
+		},
+	},
+	{
+		displayName: 'Confirmations',
+		name: 'confirmations',
+		type: 'number' as const,
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 1,
+		description: 'Number of blocks the transaction must be mined under, including its own',
+		displayOptions: {
+			show: {
+				resource: ['utility'],
+				operation: ['waitForTransaction'],
+			},
+		},
+	},
+	{
+		displayName: 'Timeout (Seconds)',
+		name: 'timeout',
+		type: 'number' as const,
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 120,
+		description: 'How long to wait before failing',
+		displayOptions: {
+			show: {
+				resource: ['utility'],
+				operation: ['waitForTransaction'],
+			},
+		},
+	},
 ];
 
 export async function executeUtility(
@@ -123,11 +170,15 @@ export async function executeUtility(
 		case 'getGasEstimate': {
 			const credentials = await this.getCredentials('singularitynetNetworkApi');
 			const ethClient = createEthereumClient(credentials as Record<string, unknown>);
-			const gasPrice = await ethClient.getGasPrice();
+			const feeData = await ethClient.getFeeData();
+			const toGwei = (wei?: bigint) => (wei !== undefined ? Number(wei) / 1e9 : undefined);
 
 			result = {
-				gasPriceWei: gasPrice.toString(),
-				gasPriceGwei: Number(gasPrice) / 1e9,
+				gasPriceWei: feeData.gasPrice.toString(),
+				gasPriceGwei: toGwei(feeData.gasPrice),
+				baseFeePerGasGwei: toGwei(feeData.baseFeePerGas),
+				maxFeePerGasGwei: toGwei(feeData.maxFeePerGas),
+				maxPriorityFeePerGasGwei: toGwei(feeData.maxPriorityFeePerGas),
 				network: ethClient.getNetworkConfig().name,
 			};
 			break;
@@ -149,6 +200,35 @@ export async function executeUtility(
 			break;
 		}
 
+		case 'waitForTransaction': {
+			const transactionHash = this.getNodeParameter('transactionHash', itemIndex) as string;
+			const confirmations = this.getNodeParameter('confirmations', itemIndex, 1) as number;
+			const timeout = this.getNodeParameter('timeout', itemIndex, 120) as number;
+
+			const credentials = await this.getCredentials('singularitynetNetworkApi');
+			const ethClient = createEthereumClient(credentials as Record<string, unknown>);
+			const transaction = await ethClient.waitForTransaction(
+				transactionHash,
+				confirmations,
+				timeout * 1000,
+			);
+
+			result = {
+				transactionHash: transaction.hash,
+				status: transaction.status,
+				blockNumber: transaction.blockNumber,
+				confirmations: transaction.confirmations,
+				from: transaction.from,
+				to: transaction.to,
+				gasUsed: transaction.gasUsed?.toString(),
+				effectiveGasPriceWei: transaction.effectiveGasPrice?.toString(),
+				feeWei: transaction.fee?.toString(),
+				feeEth: transaction.fee !== undefined ? weiToEth(transaction.fee) : undefined,
+				events: transaction.events,
+			};
+			break;
+		}
+
 		case 'validateAddress': {
 			const address = this.getNodeParameter('address', itemIndex) as string;
 			const { EthereumClient } = await import('../../transport/ethereumClient');
@@ -12,6 +12,8 @@ export interface NetworkConfig {
 	explorerUrl: string;
 	registryAddress: string;
 	mpeAddress: string;
+	/** Transaction that deployed the MPE contract, event queries start at its block */
+	mpeDeploymentTransaction?: string;
 	tokenAddress: string;
 	stakingAddress?: string;
 	bridgeAddress?: string;
@@ -27,6 +29,7 @@ export const ETHEREUM_MAINNET: NetworkConfig = {
 	explorerUrl: 'https://etherscan.io',
 	registryAddress: '0x663422c6999Ff94933DBCb388623952CF2407F6f',
 	mpeAddress: '0x5e592F9b1d303183d963635f895f0f0C48284f4e',
+	mpeDeploymentTransaction: '0x3cd235303853dab271613a7679c9c5bfc7c86b05305620dadaaa7c46920b66c7',
 	tokenAddress: '0x5B7533812759B45C2B44C19e320ba2cD2681b542',
 	stakingAddress: '0x6e3e2Cf40Ee42f25B13e2DDd8FA51178c0C51E21',
 	bridgeAddress: '0x2775E72C4e7fc98B8c5B0Ff1E6b54e6bEe9C8b4C',
@@ -0,0 +1,74 @@
+/**
+ * List Search Methods
+ * Searchable organization and service lists for resource locators
+ */
+
+import type { ILoadOptionsFunctions, INodeListSearchResult } from 'n8n-workflow';
+import { createPlatformApi } from '../transport/platformApi';
+
+/**
+ * Read a resource locator (or plain string) parameter of the current node
+ */
+export function getCurrentLocatorValue(context: ILoadOptionsFunctions, name: string): string {
+	const value = context.getCurrentNodeParameter(name, { extractValue: true });
+	return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Check if an item matches a search filter
+ */
+function matchesFilter(filter: string | undefined, ...values: Array<string | undefined>): boolean {
+	if (!filter) return true;
+	const needle = filter.toLowerCase();
+	return values.some((value) => value?.toLowerCase().includes(needle));
+}
+
+/**
+ * Search organizations on the marketplace
+ */
+export async function searchOrganizations(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const credentials = await this.getCredentials('singularitynetPlatformApi');
+	const organizations = await createPlatformApi(credentials).getOrganizations();
+
+	return {
+		results: organizations
+			.filter((org) => matchesFilter(filter, org.org_id, org.org_name))
+			.sort((a, b) => (a.org_name || a.org_id).localeCompare(b.org_name || b.org_id))
+			.map((org) => ({
+				name: org.org_name ? `${org.org_name} (${org.org_id})` : org.org_id,
+				value: org.org_id,
+			})),
+	};
+}
+
+/**
+ * Search services of the selected organization
+ */
+export async function searchServices(
+	this: ILoadOptionsFunctions,
+	filter?: string,
+): Promise<INodeListSearchResult> {
+	const organizationId = getCurrentLocatorValue(this, 'organizationId');
+	if (!organizationId) {
+		return { results: [] };
+	}
+
+	const credentials = await this.getCredentials('singularitynetPlatformApi');
+	const services = await createPlatformApi(credentials).getOrganizationServices(organizationId);
+
+	return {
+		results: services
+			.filter((service) => matchesFilter(filter, service.service_id, service.display_name))
+			.sort((a, b) => (a.display_name || a.service_id).localeCompare(b.display_name || b.service_id))
+			.map((service) => ({
+				name: service.display_name
+					? `${service.display_name} (${service.service_id})`
+					: service.service_id,
+				value: service.service_id,
+				description: service.short_description,
+			})),
+	};
+}
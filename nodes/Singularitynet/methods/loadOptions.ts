@@ -0,0 +1,83 @@
+/**
+ * Load Options Methods
+ * Dropdown values for service groups and methods
+ */
+
+import type { ILoadOptionsFunctions, INodePropertyOptions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { createPlatformApi } from '../transport/platformApi';
+import { createSnetSdk } from '../transport/snetSdk';
+import { getMethodPath, getMethodSignature, ParsedProto } from '../utils/protobufUtils';
+import { getCurrentLocatorValue } from './listSearch';
+
+/**
+ * Get the selected organization and service, if both are set
+ */
+function getSelectedService(
+	context: ILoadOptionsFunctions,
+): { organizationId: string; serviceId: string } | null {
+	const organizationId = getCurrentLocatorValue(context, 'organizationId');
+	const serviceId = getCurrentLocatorValue(context, 'serviceId');
+	return organizationId && serviceId ? { organizationId, serviceId } : null;
+}
+
+/**
+ * Get the groups of the selected service
+ */
+export async function getServiceGroups(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const selected = getSelectedService(this);
+	if (!selected) {
+		return [];
+	}
+
+	const credentials = await this.getCredentials('singularitynetPlatformApi');
+	const service = await createPlatformApi(credentials).getService(
+		selected.organizationId,
+		selected.serviceId,
+	);
+
+	return [
+		{ name: 'Default (First Group)', value: '' },
+		...(service.groups || []).map((group) => ({
+			name: group.group_name,
+			value: group.group_name,
+			description: `${group.endpoints?.length || 0} endpoint(s)`,
+		})),
+	];
+}
+
+/**
+ * Get the gRPC methods of the selected service from its proto files
+ */
+export async function getServiceMethods(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const selected = getSelectedService(this);
+	if (!selected) {
+		return [];
+	}
+
+	const networkCredentials = await this.getCredentials('singularitynetNetworkApi');
+	const platformCredentials = await this.getCredentials('singularitynetPlatformApi');
+	const sdk = createSnetSdk(networkCredentials, platformCredentials);
+
+	let proto: ParsedProto;
+	try {
+		proto = await sdk.getServiceProto(selected.organizationId, selected.serviceId);
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to load service methods: ${(error as Error).message}`,
+		);
+	}
+
+	return proto.services.flatMap((service) =>
+		service.methods.map((method) => ({
+			name: `${service.name}.${method.name}`,
+			value: getMethodPath(service, method).slice(1),
+			description: getMethodSignature(method),
+		})),
+	);
+}
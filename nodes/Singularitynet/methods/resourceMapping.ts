@@ -0,0 +1,47 @@
+/**
+ * Resource Mapping Methods
+ * Input fields generated from the selected method's proto message
+ */
+
+import type { ILoadOptionsFunctions, ResourceMapperFields } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { createSnetSdk } from '../transport/snetSdk';
+import { findServiceMethod, getMethodInputSchema, ParsedProto } from '../utils/protobufUtils';
+import { schemaToMapperFields } from '../utils/inputMapper';
+import { getCurrentLocatorValue } from './listSearch';
+
+/**
+ * Get the input fields of the selected method
+ */
+export async function getMethodInputFields(
+	this: ILoadOptionsFunctions,
+): Promise<ResourceMapperFields> {
+	const organizationId = getCurrentLocatorValue(this, 'organizationId');
+	const serviceId = getCurrentLocatorValue(this, 'serviceId');
+	const methodPath = this.getCurrentNodeParameter('method') as string | undefined;
+	if (!organizationId || !serviceId || !methodPath) {
+		return { fields: [] };
+	}
+
+	const networkCredentials = await this.getCredentials('singularitynetNetworkApi');
+	const platformCredentials = await this.getCredentials('singularitynetPlatformApi');
+	const sdk = createSnetSdk(networkCredentials, platformCredentials);
+
+	let proto: ParsedProto;
+	try {
+		proto = await sdk.getServiceProto(organizationId, serviceId);
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Failed to load service protos: ${(error as Error).message}`,
+		);
+	}
+
+	const resolved = findServiceMethod(proto, methodPath);
+	if (!resolved) {
+		throw new NodeOperationError(this.getNode(), `Method '${methodPath}' not found`);
+	}
+
+	const schema = getMethodInputSchema(proto, resolved.service.name, resolved.method.name);
+	return { fields: schema ? schemaToMapperFields(schema) : [] };
+}
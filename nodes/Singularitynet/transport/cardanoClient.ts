@@ -7,6 +7,7 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { getNetworkConfig, NetworkConfig } from '../constants/networks';
+import { attachRetryPolicy, RetryPolicy } from './retryPolicy';
 
 /**
  * Cardano client configuration
@@ -15,6 +16,7 @@ export interface CardanoClientConfig {
 	network: string;
 	nodeUrl?: string;
 	apiKey?: string;
+	retryPolicy?: Partial<RetryPolicy>;
 }
 
 /**
@@ -82,13 +84,16 @@ export class CardanoClient {
 
 		const baseUrl = config.nodeUrl || networkConfig.rpcUrl;
 
-		this.api = axios.create({
-			baseURL: baseUrl,
-			headers: {
-				project_id: this.apiKey,
-				'Content-Type': 'application/json',
-			},
-		});
+		this.api = attachRetryPolicy(
+			axios.create({
+				baseURL: baseUrl,
+				headers: {
+					project_id: this.apiKey,
+					'Content-Type': 'application/json',
+				},
+			}),
+			config.retryPolicy
+		);
 	}
 
 	/**
@@ -257,11 +262,15 @@ export class CardanoClient {
 /**
  * Create Cardano client from n8n credentials
  */
-export function createCardanoClient(credentials: Record<string, unknown>): CardanoClient {
+export function createCardanoClient(
+	credentials: Record<string, unknown>,
+	retryPolicy?: Partial<RetryPolicy>
+): CardanoClient {
 	const config: CardanoClientConfig = {
 		network: credentials.network as string,
 		nodeUrl: credentials.cardanoNodeUrl as string | undefined,
 		apiKey: credentials.cardanoApiKey as string | undefined,
+		retryPolicy,
 	};
 
 	return new CardanoClient(config);
@@ -0,0 +1,243 @@
+/**
+ * Channel Manager
+ *
+ * Finds the payment channel to pay a service group from and keeps it
+ * usable: channels running low on funds are topped up, channels close to
+ * expiry are extended, and a new channel is opened when none exists.
+ */
+
+import { ChannelInfo, EthereumClient } from './ethereumClient';
+
+/**
+ * Thresholds used to decide when a channel needs attention
+ */
+export interface ChannelThresholds {
+	/** Balance to keep in the channel after paying for a call, in cogs */
+	minBalance: bigint;
+	/** Blocks left before expiry below which the channel is extended */
+	minExpirationBlocks: number;
+	/** Amount to fund new channels and top up existing ones with, in cogs */
+	fundingAmount: bigint;
+	/** Expiration of new and extended channels, in blocks from now */
+	expirationBlocks: number;
+}
+
+/**
+ * Default thresholds, roughly one day of blocks to expiry
+ */
+export const DEFAULT_CHANNEL_THRESHOLDS: ChannelThresholds = {
+	minBalance: BigInt(0),
+	minExpirationBlocks: 5760,
+	fundingAmount: BigInt(0),
+	expirationBlocks: 11520,
+};
+
+/**
+ * Transaction made to prepare a channel
+ */
+export type ChannelAction = 'openChannel' | 'addFunds' | 'extend' | 'extendAndAddFunds';
+
+/**
+ * Transaction a channel needs before paying for a call
+ */
+export interface ChannelPlan {
+	action?: ChannelAction;
+	amount: bigint;
+	expiration: number;
+}
+
+/**
+ * Channel ready to pay from
+ */
+export interface ManagedChannel {
+	channel: ChannelInfo;
+	action?: ChannelAction;
+	transactionHash?: string;
+}
+
+/**
+ * Channel Manager class
+ */
+export class ChannelManager {
+	private ethClient: EthereumClient;
+	private thresholds: ChannelThresholds;
+
+	constructor(ethClient: EthereumClient, thresholds: Partial<ChannelThresholds> = {}) {
+		this.ethClient = ethClient;
+		this.thresholds = { ...DEFAULT_CHANNEL_THRESHOLDS };
+		Object.entries(thresholds).forEach(([key, value]) => {
+			if (value !== undefined) {
+				(this.thresholds as unknown as Record<string, unknown>)[key] = value;
+			}
+		});
+	}
+
+	/**
+	 * Find the wallet's channel to a recipient and group
+	 *
+	 * Only channels the wallet can sign payments for are considered. The
+	 * most recently opened one is used.
+	 */
+	async findChannel(recipient: string, groupId: string): Promise<ChannelInfo | null> {
+		const address = this.ethClient.getAddress().toLowerCase();
+		const channels = await this.ethClient.findChannels(address, recipient, groupId);
+
+		const usable = channels.filter(
+			(channel) =>
+				channel.sender.toLowerCase() === address && channel.signer.toLowerCase() === address
+		);
+		return usable.sort((a, b) => b.channelId - a.channelId)[0] ?? null;
+	}
+
+	/**
+	 * Open a new channel funded for at least one call
+	 */
+	async openChannel(recipient: string, groupId: string, price: bigint): Promise<ManagedChannel> {
+		const amount = this.getFundingAmount(BigInt(0), price);
+		await this.checkEscrowBalance(amount);
+
+		const currentBlock = await this.ethClient.getCurrentBlock();
+		const expiration = currentBlock + this.thresholds.expirationBlocks;
+		const { channelId, tx } = await this.ethClient.openChannel(
+			recipient,
+			groupId,
+			amount,
+			expiration
+		);
+		if (channelId === null) {
+			throw new Error(`Channel open transaction ${tx.hash} is not mined yet`);
+		}
+
+		const address = this.ethClient.getAddress();
+		return {
+			channel: {
+				channelId,
+				nonce: 0,
+				sender: address,
+				signer: address,
+				recipient,
+				groupId,
+				value: amount,
+				expiration,
+			},
+			action: 'openChannel',
+			transactionHash: tx.hash,
+		};
+	}
+
+	/**
+	 * Plan what a channel needs before paying for a call, without sending
+	 * any transaction
+	 *
+	 * The remaining amount is the part of the channel value not yet signed
+	 * away. Without a channel, a new one is planned.
+	 */
+	async planChannel(
+		channel: ChannelInfo | null,
+		remaining: bigint,
+		price: bigint
+	): Promise<ChannelPlan> {
+		const currentBlock = await this.ethClient.getCurrentBlock();
+		const newExpiration = currentBlock + this.thresholds.expirationBlocks;
+		if (!channel) {
+			return {
+				action: 'openChannel',
+				amount: this.getFundingAmount(BigInt(0), price),
+				expiration: newExpiration,
+			};
+		}
+
+		const needsExtension = channel.expiration - currentBlock < this.thresholds.minExpirationBlocks;
+		const needsFunds = remaining < price + this.thresholds.minBalance;
+		const amount = needsFunds ? this.getFundingAmount(remaining, price) : BigInt(0);
+		const expiration = needsExtension ? newExpiration : channel.expiration;
+
+		if (needsFunds && needsExtension) {
+			return { action: 'extendAndAddFunds', amount, expiration };
+		}
+		if (needsFunds) {
+			return { action: 'addFunds', amount, expiration };
+		}
+		if (needsExtension) {
+			return { action: 'extend', amount, expiration };
+		}
+		return { amount, expiration };
+	}
+
+	/**
+	 * Check that a channel can pay an amount without being topped up or
+	 * extended first
+	 */
+	async canPay(channel: ChannelInfo, remaining: bigint, price: bigint): Promise<boolean> {
+		const plan = await this.planChannel(channel, remaining, price);
+		return plan.action === undefined;
+	}
+
+	/**
+	 * Top up and extend a channel as needed before paying for a call
+	 *
+	 * Both changes are made in one transaction when both are needed.
+	 */
+	async ensureChannel(
+		channel: ChannelInfo,
+		remaining: bigint,
+		price: bigint
+	): Promise<ManagedChannel> {
+		const { action, amount, expiration } = await this.planChannel(channel, remaining, price);
+		if (!action) {
+			return { channel };
+		}
+
+		if (amount > BigInt(0)) {
+			await this.checkEscrowBalance(amount);
+		}
+
+		let transactionHash: string;
+		if (action === 'extendAndAddFunds') {
+			({ hash: transactionHash } = await this.ethClient.extendAndAddFundsToChannel(
+				channel.channelId,
+				expiration,
+				amount
+			));
+		} else if (action === 'addFunds') {
+			({ hash: transactionHash } = await this.ethClient.addFundsToChannel(
+				channel.channelId,
+				amount
+			));
+		} else {
+			({ hash: transactionHash } = await this.ethClient.extendChannel(
+				channel.channelId,
+				expiration
+			));
+		}
+
+		return {
+			channel: { ...channel, value: channel.value + amount, expiration },
+			action,
+			transactionHash,
+		};
+	}
+
+	/**
+	 * Get the amount to fund a channel with
+	 *
+	 * At least enough to pay for the call and keep the minimum balance.
+	 */
+	private getFundingAmount(remaining: bigint, price: bigint): bigint {
+		const shortfall = price + this.thresholds.minBalance - remaining;
+		return this.thresholds.fundingAmount > shortfall ? this.thresholds.fundingAmount : shortfall;
+	}
+
+	/**
+	 * Check the escrow holds enough to fund a channel
+	 */
+	private async checkEscrowBalance(amount: bigint): Promise<void> {
+		const balance = await this.ethClient.getEscrowBalance();
+		if (balance < amount) {
+			throw new Error(
+				`Insufficient escrow balance: ${amount} cogs required, ${balance} cogs available. ` +
+					'Deposit AGIX to the MPE escrow first.'
+			);
+		}
+	}
+}
@@ -0,0 +1,506 @@
+/**
+ * Daemon Client
+ *
+ * Calls the services the SingularityNET daemon serves next to the AI
+ * service, such as the payment channel state service. These are always
+ * called over a binary gRPC transport using the protos bundled here.
+ */
+
+import { GrpcTransport } from './grpcClient';
+import { parseProtoContent, ParsedProto } from '../utils/protobufUtils';
+
+/**
+ * Payment channel state service of the daemon (escrow/state_service.proto)
+ */
+const CHANNEL_STATE_PROTO = `
+syntax = "proto3";
+package escrow;
+message ChannelStateRequest {
+	bytes channel_id = 1;
+	bytes signature = 2;
+	uint64 current_block = 3;
+}
+message ChannelStateReply {
+	bytes current_nonce = 1;
+	bytes current_signed_amount = 2;
+	bytes current_signature = 3;
+	bytes old_nonce_signed_amount = 4;
+	bytes old_nonce_signature = 5;
+	uint64 planned_amount = 6;
+	uint64 used_amount = 7;
+}
+service PaymentChannelStateService {
+	rpc GetChannelState(ChannelStateRequest) returns (ChannelStateReply);
+}
+`;
+
+/**
+ * Concurrency token service of the daemon (escrow/token_service.proto)
+ */
+const TOKEN_PROTO = `
+syntax = "proto3";
+package escrow;
+message TokenRequest {
+	uint64 channel_id = 1;
+	uint64 current_nonce = 2;
+	uint64 signed_amount = 3;
+	bytes signature = 4;
+	uint64 current_block = 5;
+	bytes claim_signature = 6;
+}
+message TokenReply {
+	uint64 channel_id = 1;
+	string token = 2;
+	uint64 planned_amount = 3;
+	uint64 used_amount = 4;
+}
+service TokenService {
+	rpc GetToken(TokenRequest) returns (TokenReply);
+}
+`;
+
+/**
+ * Model training service of the daemon (training/training.proto)
+ */
+const TRAINING_PROTO = `
+syntax = "proto3";
+package training;
+message AuthorizationDetails {
+	uint64 current_block = 1;
+	string message = 2;
+	bytes signature = 3;
+	string signer_address = 4;
+}
+enum Status {
+	CREATED = 0;
+	IN_PROGRESS = 1;
+	ERRORED = 2;
+	COMPLETED = 3;
+	DELETED = 4;
+}
+message ModelDetails {
+	string model_id = 1;
+	string grpc_method_name = 2;
+	string grpc_service_name = 3;
+	string description = 4;
+	bool is_publicly_accessible = 5;
+	repeated string address_list = 6;
+	string training_data_link = 7;
+	string model_name = 8;
+	string organization_id = 9;
+	string service_id = 10;
+	string group_id = 11;
+	string updated_date = 12;
+	Status status = 13;
+}
+message CreateModelRequest {
+	AuthorizationDetails authorization = 1;
+	ModelDetails model_details = 2;
+}
+message AccessibleModelsRequest {
+	string grpc_method_name = 1;
+	string grpc_service_name = 2;
+	AuthorizationDetails authorization = 3;
+}
+message AccessibleModelsResponse {
+	repeated ModelDetails list_of_models = 1;
+}
+message ModelDetailsRequest {
+	ModelDetails model_details = 1;
+	AuthorizationDetails authorization = 2;
+}
+message UpdateModelRequest {
+	ModelDetails update_model_details = 1;
+	AuthorizationDetails authorization = 2;
+}
+message ModelDetailsResponse {
+	Status status = 1;
+	ModelDetails model_details = 2;
+}
+service Model {
+	rpc create_model(CreateModelRequest) returns (ModelDetailsResponse) {}
+	rpc delete_model(UpdateModelRequest) returns (ModelDetailsResponse) {}
+	rpc get_model_status(ModelDetailsRequest) returns (ModelDetailsResponse) {}
+	rpc update_model_access(UpdateModelRequest) returns (ModelDetailsResponse) {}
+	rpc get_all_models(AccessibleModelsRequest) returns (AccessibleModelsResponse) {}
+}
+`;
+
+let channelStateProto: ParsedProto | null = null;
+let tokenProto: ParsedProto | null = null;
+let trainingProto: ParsedProto | null = null;
+
+/**
+ * Channel state as tracked by the daemon
+ *
+ * The signed amount is cumulative for the current nonce. When the
+ * provider has started claiming the channel, the amount signed for the
+ * previous nonce is reported separately until the claim is on chain.
+ */
+export interface ChannelState {
+	channelId: number;
+	currentNonce: number;
+	currentSignedAmount: bigint;
+	currentSignature?: string;
+	oldNonceSignedAmount?: bigint;
+	oldNonceSignature?: string;
+	plannedAmount: bigint;
+	usedAmount: bigint;
+}
+
+/**
+ * Request for a concurrency token
+ *
+ * The claim signature authorizes the planned amount for the channel, the
+ * signature is the token signature over it, see generateTokenSignature.
+ */
+export interface TokenRequest {
+	channelId: number;
+	nonce: number;
+	signedAmount: bigint;
+	claimSignature: string;
+	signature: string;
+	currentBlock: number;
+}
+
+/**
+ * Concurrency token issued by the daemon for prepaid calls
+ */
+export interface PrepaidToken {
+	channelId: number;
+	token: string;
+	plannedAmount: bigint;
+	usedAmount: bigint;
+}
+
+/**
+ * Status of a model in the training API
+ */
+export type ModelStatus = 'CREATED' | 'IN_PROGRESS' | 'ERRORED' | 'COMPLETED' | 'DELETED';
+
+/**
+ * Wallet-signed authorization of a training API request
+ *
+ * The signature covers the message, the signer address and the current
+ * block, see generateTrainingSignature.
+ */
+export interface TrainingAuthorization {
+	currentBlock: number;
+	message: string;
+	signature: string;
+	signerAddress: string;
+}
+
+/**
+ * Model of a service that supports training
+ *
+ * Models belong to a training method of a service group. The model ID is
+ * assigned by the service when the model is created.
+ */
+export interface ModelDetails {
+	modelId?: string;
+	grpcMethodName?: string;
+	grpcServiceName?: string;
+	description?: string;
+	isPubliclyAccessible?: boolean;
+	addressList?: string[];
+	trainingDataLink?: string;
+	modelName?: string;
+	organizationId?: string;
+	serviceId?: string;
+	groupId?: string;
+	updatedDate?: string;
+	status?: ModelStatus;
+}
+
+/**
+ * Convert a signed authorization to its proto message
+ */
+function toAuthorizationMessage(authorization: TrainingAuthorization): Record<string, unknown> {
+	return {
+		current_block: authorization.currentBlock,
+		message: authorization.message,
+		signature: Buffer.from(authorization.signature.replace(/^0x/, ''), 'hex').toString('base64'),
+		signer_address: authorization.signerAddress,
+	};
+}
+
+/**
+ * Convert model details to their proto message
+ */
+function toModelMessage(model: ModelDetails): Record<string, unknown> {
+	return {
+		model_id: model.modelId ?? '',
+		grpc_method_name: model.grpcMethodName ?? '',
+		grpc_service_name: model.grpcServiceName ?? '',
+		description: model.description ?? '',
+		is_publicly_accessible: model.isPubliclyAccessible ?? false,
+		address_list: model.addressList ?? [],
+		training_data_link: model.trainingDataLink ?? '',
+		model_name: model.modelName ?? '',
+		organization_id: model.organizationId ?? '',
+		service_id: model.serviceId ?? '',
+		group_id: model.groupId ?? '',
+	};
+}
+
+/**
+ * Convert a model details proto message to model details
+ */
+function fromModelMessage(message: Record<string, unknown> = {}): ModelDetails {
+	return {
+		modelId: String(message.model_id ?? ''),
+		grpcMethodName: String(message.grpc_method_name ?? ''),
+		grpcServiceName: String(message.grpc_service_name ?? ''),
+		description: String(message.description ?? ''),
+		isPubliclyAccessible: !!message.is_publicly_accessible,
+		addressList: (message.address_list as string[] | undefined) ?? [],
+		trainingDataLink: String(message.training_data_link ?? ''),
+		modelName: String(message.model_name ?? ''),
+		organizationId: String(message.organization_id ?? ''),
+		serviceId: String(message.service_id ?? ''),
+		groupId: String(message.group_id ?? ''),
+		updatedDate: String(message.updated_date ?? ''),
+		status: (message.status as ModelStatus | undefined) ?? 'CREATED',
+	};
+}
+
+/**
+ * Convert a big-endian bytes value in base64 to a bigint
+ */
+function bytesToBigInt(value: unknown): bigint {
+	const hex = Buffer.from(String(value || ''), 'base64').toString('hex');
+	return hex ? BigInt(`0x${hex}`) : BigInt(0);
+}
+
+/**
+ * Convert a bytes value in base64 to a 0x-prefixed hex string
+ */
+function bytesToHex(value: unknown): string | undefined {
+	const hex = Buffer.from(String(value || ''), 'base64').toString('hex');
+	return hex ? `0x${hex}` : undefined;
+}
+
+/**
+ * Encode a number as minimal big-endian bytes in base64
+ */
+function bigIntToBytes(value: number | bigint): string {
+	let hex = BigInt(value).toString(16);
+	if (hex === '0') return '';
+	if (hex.length % 2) hex = `0${hex}`;
+	return Buffer.from(hex, 'hex').toString('base64');
+}
+
+/**
+ * Daemon Client class
+ */
+export class DaemonClient {
+	private transport: GrpcTransport;
+
+	constructor(transport: GrpcTransport) {
+		this.transport = transport;
+	}
+
+	/**
+	 * Get the state of a payment channel
+	 *
+	 * The signature must be made by the channel sender or signer over the
+	 * channel state request, see generateChannelStateSignature.
+	 */
+	async getChannelState(
+		channelId: number,
+		signature: string,
+		currentBlock: number,
+		timeout: number = 10000
+	): Promise<ChannelState> {
+		if (!channelStateProto) {
+			channelStateProto = parseProtoContent(CHANNEL_STATE_PROTO);
+		}
+
+		const reply = (await this.transport.call(
+			'escrow.PaymentChannelStateService/GetChannelState',
+			{
+				channel_id: bigIntToBytes(channelId),
+				signature: Buffer.from(signature.replace(/^0x/, ''), 'hex').toString('base64'),
+				current_block: currentBlock,
+			},
+			{ proto: channelStateProto, timeout }
+		)) as Record<string, unknown>;
+
+		return {
+			channelId,
+			currentNonce: Number(bytesToBigInt(reply.current_nonce)),
+			currentSignedAmount: bytesToBigInt(reply.current_signed_amount),
+			currentSignature: bytesToHex(reply.current_signature),
+			oldNonceSignedAmount: reply.old_nonce_signed_amount
+				? bytesToBigInt(reply.old_nonce_signed_amount)
+				: undefined,
+			oldNonceSignature: bytesToHex(reply.old_nonce_signature),
+			plannedAmount: BigInt(String(reply.planned_amount || 0)),
+			usedAmount: BigInt(String(reply.used_amount || 0)),
+		};
+	}
+
+	/**
+	 * Get a concurrency token for prepaid calls
+	 *
+	 * The token lets any number of calls, made in parallel, spend the
+	 * planned amount without a payment signature each.
+	 */
+	async getToken(request: TokenRequest, timeout: number = 10000): Promise<PrepaidToken> {
+		if (!tokenProto) {
+			tokenProto = parseProtoContent(TOKEN_PROTO);
+		}
+
+		const reply = (await this.transport.call(
+			'escrow.TokenService/GetToken',
+			{
+				channel_id: request.channelId,
+				current_nonce: request.nonce,
+				signed_amount: request.signedAmount.toString(),
+				signature: Buffer.from(request.signature.replace(/^0x/, ''), 'hex').toString('base64'),
+				current_block: request.currentBlock,
+				claim_signature: Buffer.from(request.claimSignature.replace(/^0x/, ''), 'hex').toString(
+					'base64'
+				),
+			},
+			{ proto: tokenProto, timeout }
+		)) as Record<string, unknown>;
+
+		return {
+			channelId: request.channelId,
+			token: String(reply.token || ''),
+			plannedAmount: BigInt(String(reply.planned_amount || 0)),
+			usedAmount: BigInt(String(reply.used_amount || 0)),
+		};
+	}
+
+	/**
+	 * Call a method of the model training service
+	 */
+	private async callTraining(
+		method: string,
+		input: Record<string, unknown>,
+		timeout: number
+	): Promise<Record<string, unknown>> {
+		if (!trainingProto) {
+			trainingProto = parseProtoContent(TRAINING_PROTO);
+		}
+		return (await this.transport.call(`training.Model/${method}`, input, {
+			proto: trainingProto,
+			timeout,
+		})) as Record<string, unknown>;
+	}
+
+	/**
+	 * Create a model for a training method
+	 */
+	async createModel(
+		authorization: TrainingAuthorization,
+		model: ModelDetails,
+		timeout: number = 30000
+	): Promise<ModelDetails> {
+		const reply = await this.callTraining(
+			'create_model',
+			{
+				authorization: toAuthorizationMessage(authorization),
+				model_details: toModelMessage(model),
+			},
+			timeout
+		);
+		return fromModelMessage(reply.model_details as Record<string, unknown>);
+	}
+
+	/**
+	 * List the models of a training method the signer can access
+	 */
+	async getAllModels(
+		authorization: TrainingAuthorization,
+		grpcServiceName: string,
+		grpcMethodName: string,
+		timeout: number = 30000
+	): Promise<ModelDetails[]> {
+		const reply = await this.callTraining(
+			'get_all_models',
+			{
+				grpc_method_name: grpcMethodName,
+				grpc_service_name: grpcServiceName,
+				authorization: toAuthorizationMessage(authorization),
+			},
+			timeout
+		);
+		return ((reply.list_of_models as Record<string, unknown>[] | undefined) ?? []).map((model) =>
+			fromModelMessage(model)
+		);
+	}
+
+	/**
+	 * Get the status of a model
+	 */
+	async getModelStatus(
+		authorization: TrainingAuthorization,
+		model: ModelDetails,
+		timeout: number = 30000
+	): Promise<ModelDetails> {
+		const reply = await this.callTraining(
+			'get_model_status',
+			{
+				model_details: toModelMessage(model),
+				authorization: toAuthorizationMessage(authorization),
+			},
+			timeout
+		);
+		return {
+			...fromModelMessage(reply.model_details as Record<string, unknown>),
+			status: (reply.status as ModelStatus | undefined) ?? 'CREATED',
+		};
+	}
+
+	/**
+	 * Update who can access a model
+	 */
+	async updateModelAccess(
+		authorization: TrainingAuthorization,
+		model: ModelDetails,
+		timeout: number = 30000
+	): Promise<ModelDetails> {
+		const reply = await this.callTraining(
+			'update_model_access',
+			{
+				update_model_details: toModelMessage(model),
+				authorization: toAuthorizationMessage(authorization),
+			},
+			timeout
+		);
+		return fromModelMessage(reply.model_details as Record<string, unknown>);
+	}
+
+	/**
+	 * Delete a model
+	 */
+	async deleteModel(
+		authorization: TrainingAuthorization,
+		model: ModelDetails,
+		timeout: number = 30000
+	): Promise<ModelDetails> {
+		const reply = await this.callTraining(
+			'delete_model',
+			{
+				update_model_details: toModelMessage(model),
+				authorization: toAuthorizationMessage(authorization),
+			},
+			timeout
+		);
+		return {
+			...fromModelMessage(reply.model_details as Record<string, unknown>),
+			status: (reply.status as ModelStatus | undefined) ?? 'DELETED',
+		};
+	}
+
+	/**
+	 * Get the daemon endpoint
+	 */
+	getEndpoint(): string {
+		return this.transport.getEndpoint();
+	}
+}
@@ -0,0 +1,130 @@
+/**
+ * Endpoint Selector
+ *
+ * Ranks the endpoints of a service group by health and latency, so calls
+ * go to the fastest daemon that answers and fail over to the next one on
+ * transport errors. Health results are cached for a short time.
+ */
+
+import { GrpcError } from './grpcClient';
+
+/**
+ * Observed health of an endpoint
+ */
+export interface EndpointHealth {
+	endpoint: string;
+	healthy: boolean;
+	latency: number;
+	checkedAt: number;
+}
+
+/**
+ * Health check of an endpoint, resolving to whether it serves calls
+ */
+export type HealthCheck = (endpoint: string) => Promise<boolean>;
+
+/**
+ * How long health results are reused, in milliseconds
+ */
+export const DEFAULT_HEALTH_TTL_MS = 30000;
+
+/**
+ * Network error codes raised before a request reaches the daemon
+ */
+const TRANSPORT_ERROR_CODES = [
+	'ECONNREFUSED',
+	'ECONNRESET',
+	'EHOSTUNREACH',
+	'ENETUNREACH',
+	'ENOTFOUND',
+	'EAI_AGAIN',
+	'ETIMEDOUT',
+	'ERR_HTTP2_SESSION_ERROR',
+	'ERR_HTTP2_STREAM_CANCEL',
+	'ERR_HTTP2_GOAWAY_SESSION',
+];
+
+/**
+ * Health results of all endpoints, by endpoint
+ *
+ * Shared by all SDK instances of the process, since an SDK is created
+ * for each item.
+ */
+const endpointHealth: Map<string, EndpointHealth> = new Map();
+
+/**
+ * Check if an error means the endpoint could not be reached
+ *
+ * Calls failing this way can be sent to another endpoint of the group.
+ * gRPC errors returned by the daemon itself are not transport errors,
+ * except UNAVAILABLE.
+ */
+export function isTransportError(error: unknown): boolean {
+	if (error instanceof GrpcError) {
+		return error.code === 14;
+	}
+	const code = (error as { code?: unknown } | null)?.code;
+	return typeof code === 'string' && TRANSPORT_ERROR_CODES.includes(code);
+}
+
+/**
+ * Endpoint Selector class
+ */
+export class EndpointSelector {
+	private healthCheck: HealthCheck;
+	private ttl: number;
+
+	constructor(healthCheck: HealthCheck, ttl: number = DEFAULT_HEALTH_TTL_MS) {
+		this.healthCheck = healthCheck;
+		this.ttl = ttl;
+	}
+
+	/**
+	 * Get the health of an endpoint, checking it when not cached
+	 */
+	async getHealth(endpoint: string): Promise<EndpointHealth> {
+		const cached = endpointHealth.get(endpoint);
+		if (cached && Date.now() - cached.checkedAt < this.ttl) {
+			return cached;
+		}
+
+		const start = Date.now();
+		const healthy = await this.healthCheck(endpoint).catch(() => false);
+		const health = { endpoint, healthy, latency: Date.now() - start, checkedAt: Date.now() };
+		endpointHealth.set(endpoint, health);
+		return health;
+	}
+
+	/**
+	 * Order endpoints from healthy and fastest to unhealthy
+	 *
+	 * Unhealthy endpoints are kept at the end, since a failed health check
+	 * does not always mean calls fail. A single endpoint is not checked.
+	 */
+	async rank(endpoints: string[]): Promise<string[]> {
+		if (endpoints.length <= 1) {
+			return [...endpoints];
+		}
+
+		const healths = await Promise.all(endpoints.map((endpoint) => this.getHealth(endpoint)));
+		return healths
+			.map((health, index) => ({ ...health, index }))
+			.sort((a, b) => {
+				if (a.healthy !== b.healthy) return a.healthy ? -1 : 1;
+				return a.latency - b.latency || a.index - b.index;
+			})
+			.map((health) => health.endpoint);
+	}
+
+	/**
+	 * Record that a call to an endpoint failed to reach it
+	 */
+	markFailed(endpoint: string): void {
+		endpointHealth.set(endpoint, {
+			endpoint,
+			healthy: false,
+			latency: Number.MAX_SAFE_INTEGER,
+			checkedAt: Date.now(),
+		});
+	}
+}
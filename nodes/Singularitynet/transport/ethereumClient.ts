@@ -15,6 +15,22 @@ import {
 	CONTRACT_ADDRESSES,
 } from '../constants/contracts';
 import { getNetworkConfig, NetworkConfig } from '../constants/networks';
+import {
+	ChannelEvent,
+	ChannelFilter,
+	IndexedChannel,
+	indexChannelEvents,
+} from '../utils/channelIndex';
+
+/**
+ * Blocks the MPE contract was deployed in, by deployment transaction
+ */
+const mpeDeploymentBlocks: Map<string, number> = new Map();
+
+/**
+ * Blocks scanned by one event query, within the limits of public RPC nodes
+ */
+const EVENT_QUERY_BLOCK_RANGE = 50000;
 
 /**
  * Ethereum client configuration
@@ -25,6 +41,23 @@ export interface EthereumClientConfig {
 	privateKey?: string;
 	mnemonic?: string;
 	derivationPath?: string;
+	transactionOptions?: TransactionOptions;
+}
+
+/**
+ * Fee, gas and nonce settings applied to every transaction sent
+ */
+export interface TransactionOptions {
+	/** Highest total fee per gas to pay, in wei */
+	maxFeePerGas?: bigint;
+	/** Highest tip per gas for the block producer, in wei */
+	maxPriorityFeePerGas?: bigint;
+	/** Gas limit as a multiple of the estimated gas */
+	gasLimitMultiplier?: number;
+	/** Nonce of the first transaction; later ones count up from it */
+	nonce?: number;
+	/** Confirmations to wait for, 0 to return once a transaction is sent */
+	confirmations?: number;
 }
 
 /**
@@ -36,6 +69,40 @@ export interface TransactionResult {
 	status: 'pending' | 'success' | 'failed';
 	gasUsed?: bigint;
 	effectiveGasPrice?: bigint;
+	/** Fee paid, gas used times effective gas price, in wei */
+	fee?: bigint;
+	nonce?: number;
+}
+
+/**
+ * Current network fees
+ */
+export interface FeeData {
+	gasPrice: bigint;
+	baseFeePerGas?: bigint;
+	maxFeePerGas?: bigint;
+	maxPriorityFeePerGas?: bigint;
+}
+
+/**
+ * Event of a SingularityNET contract decoded from a transaction receipt
+ */
+export interface DecodedEvent {
+	contract: string;
+	address: string;
+	name: string;
+	logIndex: number;
+	args: Record<string, unknown>;
+}
+
+/**
+ * Mined transaction with its confirmations and decoded events
+ */
+export interface ConfirmedTransaction extends TransactionResult {
+	from: string;
+	to: string | null;
+	confirmations: number;
+	events: DecodedEvent[];
 }
 
 /**
@@ -52,6 +119,32 @@ export interface ChannelInfo {
 	expiration: number;
 }
 
+/**
+ * Signed payment to claim from a channel
+ */
+export interface PaymentClaim {
+	channelId: number;
+	/** Amount to claim, at most the planned amount */
+	amount: bigint;
+	/** Amount the sender signed */
+	plannedAmount: bigint;
+	v: number;
+	r: string;
+	s: string;
+}
+
+/**
+ * Payment claimed from a channel, from its ChannelClaim event
+ */
+export interface ClaimedPayment {
+	channelId: number;
+	nonce: number;
+	claimAmount: bigint;
+	plannedAmount: bigint;
+	sendBackAmount: bigint;
+	keepAmount: bigint;
+}
+
 /**
  * Ethereum Client class
  */
@@ -66,6 +159,8 @@ export class EthereumClient {
 		staking?: ethers.Contract;
 		asiToken?: ethers.Contract;
 	} = {};
+	private transactionOptions: TransactionOptions;
+	private nextNonce: number | undefined;
 
 	constructor(config: EthereumClientConfig) {
 		const networkConfig = getNetworkConfig(config.network);
@@ -85,6 +180,9 @@ export class EthereumClient {
 			this.wallet = ethers.Wallet.fromPhrase(config.mnemonic, this.provider).derivePath(path) as any;
 		}
 
+		this.transactionOptions = config.transactionOptions ?? {};
+		this.nextNonce = this.transactionOptions.nonce;
+
 		this.initializeContracts();
 	}
 
@@ -112,6 +210,95 @@ export class EthereumClient {
 		}
 	}
 
+	/**
+	 * Send a contract transaction with the configured transaction options
+	 * and wait for the configured confirmations
+	 *
+	 * The receipt is null when no confirmation is waited for.
+	 */
+	private async sendTransaction(
+		contract: ethers.Contract,
+		method: string,
+		args: unknown[],
+		minConfirmations: number = 0
+	): Promise<{ tx: ethers.ContractTransactionResponse; receipt: ethers.TransactionReceipt | null }> {
+		const overrides = await this.getTransactionOverrides(() =>
+			contract.getFunction(method).estimateGas(...args)
+		);
+		const tx: ethers.ContractTransactionResponse = await contract.getFunction(method)(...args, overrides);
+		return { tx, receipt: await this.waitForConfirmations(tx, minConfirmations) };
+	}
+
+	/**
+	 * Wait for the configured confirmations of a sent transaction, at
+	 * least the given minimum
+	 */
+	private async waitForConfirmations(
+		tx: ethers.TransactionResponse,
+		minConfirmations: number
+	): Promise<ethers.TransactionReceipt | null> {
+		const confirmations = Math.max(this.transactionOptions.confirmations ?? 1, minConfirmations);
+		if (confirmations === 0) {
+			return null;
+		}
+
+		const receipt = await tx.wait(confirmations);
+		if (!receipt) {
+			throw new Error(`Transaction ${tx.hash} was replaced or dropped`);
+		}
+		return receipt;
+	}
+
+	/**
+	 * Build the overrides of a transaction from the transaction options
+	 *
+	 * An explicit nonce is used for the first transaction and counted up
+	 * for each one sent after it.
+	 */
+	private async getTransactionOverrides(
+		estimateGas: () => Promise<bigint>
+	): Promise<ethers.Overrides> {
+		const { maxFeePerGas, maxPriorityFeePerGas, gasLimitMultiplier } = this.transactionOptions;
+		const overrides: ethers.Overrides = {};
+
+		if (maxFeePerGas !== undefined) {
+			overrides.maxFeePerGas = maxFeePerGas;
+		}
+		if (maxPriorityFeePerGas !== undefined) {
+			overrides.maxPriorityFeePerGas = maxPriorityFeePerGas;
+		}
+		if (gasLimitMultiplier !== undefined && gasLimitMultiplier > 0) {
+			const estimate = await estimateGas();
+			overrides.gasLimit = (estimate * BigInt(Math.round(gasLimitMultiplier * 100))) / BigInt(100);
+		}
+		if (this.nextNonce !== undefined) {
+			overrides.nonce = this.nextNonce++;
+		}
+
+		return overrides;
+	}
+
+	/**
+	 * Build the result of a transaction, pending when it has no receipt
+	 */
+	private toTransactionResult(
+		tx: ethers.TransactionResponse,
+		receipt: ethers.TransactionReceipt | null
+	): TransactionResult {
+		if (!receipt) {
+			return { hash: tx.hash, status: 'pending', nonce: tx.nonce };
+		}
+		return {
+			hash: tx.hash,
+			blockNumber: receipt.blockNumber,
+			status: receipt.status === 1 ? 'success' : 'failed',
+			gasUsed: receipt.gasUsed,
+			effectiveGasPrice: receipt.gasPrice,
+			fee: receipt.fee,
+			nonce: tx.nonce,
+		};
+	}
+
 	/**
 	 * Get wallet address
 	 */
@@ -149,37 +336,56 @@ export class EthereumClient {
 			throw new Error('AGIX token contract or wallet not initialized');
 		}
 
-		const tx = await this.contracts.agixToken.transfer(to, amount);
-		const receipt = await tx.wait();
+		const { tx, receipt } = await this.sendTransaction(this.contracts.agixToken, 'transfer', [to, amount]);
 
-		return {
-			hash: tx.hash,
-			blockNumber: receipt.blockNumber,
-			status: receipt.status === 1 ? 'success' : 'failed',
-			gasUsed: receipt.gasUsed,
-			effectiveGasPrice: receipt.gasPrice,
-		};
+		return this.toTransactionResult(tx, receipt);
 	}
 
 	/**
 	 * Approve AGIX spending for MPE contract
 	 */
-	async approveAgix(amount: bigint): Promise<TransactionResult> {
+	async approveAgix(amount: bigint, minConfirmations: number = 0): Promise<TransactionResult> {
 		if (!this.contracts.agixToken || !this.wallet) {
 			throw new Error('AGIX token contract or wallet not initialized');
 		}
 
 		const mpeAddress = await this.getMpeAddress();
-		const tx = await this.contracts.agixToken.approve(mpeAddress, amount);
-		const receipt = await tx.wait();
+		const { tx, receipt } = await this.sendTransaction(
+			this.contracts.agixToken,
+			'approve',
+			[mpeAddress, amount],
+			minConfirmations
+		);
 
-		return {
-			hash: tx.hash,
-			blockNumber: receipt.blockNumber,
-			status: receipt.status === 1 ? 'success' : 'failed',
-			gasUsed: receipt.gasUsed,
-			effectiveGasPrice: receipt.gasPrice,
-		};
+		return this.toTransactionResult(tx, receipt);
+	}
+
+	/**
+	 * Get the AGIX the MPE contract may spend for an owner
+	 */
+	async getAgixAllowance(owner?: string): Promise<bigint> {
+		if (!this.contracts.agixToken) {
+			throw new Error('AGIX token contract not initialized');
+		}
+		const addr = owner || this.getAddress();
+		return this.contracts.agixToken.allowance(addr, this.getMpeAddress());
+	}
+
+	/**
+	 * Approve AGIX spending for the MPE contract only when the current
+	 * allowance does not cover the amount
+	 *
+	 * Returns the approval transaction, or null when none was needed. The
+	 * approval is always waited for.
+	 */
+	async ensureAgixAllowance(amount: bigint): Promise<TransactionResult | null> {
+		const allowance = await this.getAgixAllowance();
+		if (allowance >= amount) {
+			return null;
+		}
+		// The transaction spending the allowance is estimated against it, so
+		// the approval has to be mined first
+		return this.approveAgix(amount, 1);
 	}
 
 	/**
@@ -196,24 +402,19 @@ export class EthereumClient {
 	/**
 	 * Deposit AGIX to MPE escrow
 	 */
-	async depositToEscrow(amount: bigint): Promise<TransactionResult> {
+	async depositToEscrow(
+		amount: bigint
+	): Promise<TransactionResult & { approval: TransactionResult | null }> {
 		if (!this.contracts.mpe || !this.wallet) {
 			throw new Error('MPE contract or wallet not initialized');
 		}
 
-		// First approve the transfer
-		await this.approveAgix(amount);
+		// First approve the transfer if the allowance falls short
+		const approval = await this.ensureAgixAllowance(amount);
 
-		const tx = await this.contracts.mpe.deposit(amount);
-		const receipt = await tx.wait();
+		const { tx, receipt } = await this.sendTransaction(this.contracts.mpe, 'deposit', [amount]);
 
-		return {
-			hash: tx.hash,
-			blockNumber: receipt.blockNumber,
-			status: receipt.status === 1 ? 'success' : 'failed',
-			gasUsed: receipt.gasUsed,
-			effectiveGasPrice: receipt.gasPrice,
-		};
+		return { ...this.toTransactionResult(tx, receipt), approval };
 	}
 
 	/**
@@ -224,54 +425,88 @@ export class EthereumClient {
 			throw new Error('MPE contract or wallet not initialized');
 		}
 
-		const tx = await this.contracts.mpe.withdraw(amount);
-		const receipt = await tx.wait();
+		const { tx, receipt } = await this.sendTransaction(this.contracts.mpe, 'withdraw', [amount]);
 
-		return {
-			hash: tx.hash,
-			blockNumber: receipt.blockNumber,
-			status: receipt.status === 1 ? 'success' : 'failed',
-			gasUsed: receipt.gasUsed,
-			effectiveGasPrice: receipt.gasPrice,
-		};
+		return this.toTransactionResult(tx, receipt);
 	}
 
 	/**
 	 * Open a payment channel
+	 *
+	 * The channel ID is read from the receipt, so it is null when the
+	 * transaction is not waited for.
 	 */
 	async openChannel(
 		recipient: string,
 		groupId: string,
 		amount: bigint,
 		expiration: number
-	): Promise<{ channelId: number; tx: TransactionResult }> {
+	): Promise<{ channelId: number | null; tx: TransactionResult }> {
 		if (!this.contracts.mpe || !this.wallet) {
 			throw new Error('MPE contract or wallet not initialized');
 		}
 
 		const signer = this.wallet.address;
 
-		const tx = await this.contracts.mpe.openChannel(signer, recipient, groupId, amount, expiration);
-		const receipt = await tx.wait();
+		const { tx, receipt } = await this.sendTransaction(this.contracts.mpe, 'openChannel', [
+			signer,
+			recipient,
+			groupId,
+			amount,
+			expiration,
+		]);
 
-		// Extract channel ID from event
-		const event = receipt.logs.find(
-			(log: ethers.Log) => log.topics[0] === ethers.id('ChannelOpen(uint256,uint256,address,address,address,bytes32,uint256,uint256)')
-		);
-		const channelId = event ? parseInt(event.topics[1], 16) : 0;
+		return {
+			channelId: receipt ? this.getOpenedChannelId(receipt) : null,
+			tx: this.toTransactionResult(tx, receipt),
+		};
+	}
+
+	/**
+	 * Deposit AGIX to the escrow and open a payment channel with it in one
+	 * transaction
+	 *
+	 * AGIX spending is approved first only when the allowance falls short.
+	 * The channel ID is null when the transaction is not waited for.
+	 */
+	async depositAndOpenChannel(
+		recipient: string,
+		groupId: string,
+		amount: bigint,
+		expiration: number
+	): Promise<{ channelId: number | null; tx: TransactionResult; approval: TransactionResult | null }> {
+		if (!this.contracts.mpe || !this.wallet) {
+			throw new Error('MPE contract or wallet not initialized');
+		}
+
+		const approval = await this.ensureAgixAllowance(amount);
+
+		const signer = this.wallet.address;
+		const { tx, receipt } = await this.sendTransaction(this.contracts.mpe, 'depositAndOpenChannel', [
+			signer,
+			recipient,
+			groupId,
+			amount,
+			expiration,
+		]);
 
 		return {
-			channelId,
-			tx: {
-				hash: tx.hash,
-				blockNumber: receipt.blockNumber,
-				status: receipt.status === 1 ? 'success' : 'failed',
-				gasUsed: receipt.gasUsed,
-				effectiveGasPrice: receipt.gasPrice,
-			},
+			channelId: receipt ? this.getOpenedChannelId(receipt) : null,
+			tx: this.toTransactionResult(tx, receipt),
+			approval,
 		};
 	}
 
+	/**
+	 * Get the ID of the channel opened in a transaction from its ChannelOpen event
+	 */
+	private getOpenedChannelId(receipt: ethers.TransactionReceipt): number {
+		const event = receipt.logs.find(
+			(log: ethers.Log) => log.topics[0] === ethers.id('ChannelOpen(uint256,uint256,address,address,address,bytes32,uint256,uint256)')
+		);
+		return event ? parseInt(event.topics[1], 16) : 0;
+	}
+
 	/**
 	 * Get channel information
 	 */
@@ -302,16 +537,9 @@ export class EthereumClient {
 			throw new Error('MPE contract or wallet not initialized');
 		}
 
-		const tx = await this.contracts.mpe.channelAddFunds(channelId, amount);
-		const receipt = await tx.wait();
+		const { tx, receipt } = await this.sendTransaction(this.contracts.mpe, 'channelAddFunds', [channelId, amount]);
 
-		return {
-			hash: tx.hash,
-			blockNumber: receipt.blockNumber,
-			status: receipt.status === 1 ? 'success' : 'failed',
-			gasUsed: receipt.gasUsed,
-			effectiveGasPrice: receipt.gasPrice,
-		};
+		return this.toTransactionResult(tx, receipt);
 	}
 
 	/**
@@ -322,16 +550,213 @@ export class EthereumClient {
 			throw new Error('MPE contract or wallet not initialized');
 		}
 
-		const tx = await this.contracts.mpe.channelExtend(channelId, newExpiration);
-		const receipt = await tx.wait();
+		const { tx, receipt } = await this.sendTransaction(this.contracts.mpe, 'channelExtend', [channelId, newExpiration]);
 
-		return {
-			hash: tx.hash,
-			blockNumber: receipt.blockNumber,
-			status: receipt.status === 1 ? 'success' : 'failed',
-			gasUsed: receipt.gasUsed,
-			effectiveGasPrice: receipt.gasPrice,
-		};
+		return this.toTransactionResult(tx, receipt);
+	}
+
+	/**
+	 * Extend channel expiration and add funds in one transaction
+	 */
+	async extendAndAddFundsToChannel(
+		channelId: number,
+		newExpiration: number,
+		amount: bigint
+	): Promise<TransactionResult> {
+		if (!this.contracts.mpe || !this.wallet) {
+			throw new Error('MPE contract or wallet not initialized');
+		}
+
+		const { tx, receipt } = await this.sendTransaction(this.contracts.mpe, 'channelExtendAndAddFunds', [
+			channelId,
+			newExpiration,
+			amount,
+		]);
+
+		return this.toTransactionResult(tx, receipt);
+	}
+
+	/**
+	 * Get the block the MPE contract was deployed in
+	 *
+	 * Event queries start from it rather than the genesis block. It is read
+	 * from the receipt of the deployment transaction once per process, and
+	 * is 0 on networks without a known deployment transaction.
+	 */
+	async getMpeDeploymentBlock(): Promise<number> {
+		const hash = this.networkConfig.mpeDeploymentTransaction;
+		if (!hash) {
+			return 0;
+		}
+
+		let block = mpeDeploymentBlocks.get(hash);
+		if (block === undefined) {
+			const receipt = await this.provider.getTransactionReceipt(hash);
+			if (!receipt) {
+				return 0;
+			}
+			block = receipt.blockNumber;
+			mpeDeploymentBlocks.set(hash, block);
+		}
+		return block;
+	}
+
+	/**
+	 * Find the channels opened by a sender
+	 *
+	 * Channels are found from ChannelOpen events since the MPE deployment
+	 * and returned with their current on-chain state. Recipient and group
+	 * narrow the search.
+	 */
+	async findChannels(
+		sender: string,
+		recipient?: string,
+		groupId?: string,
+		fromBlock?: number
+	): Promise<ChannelInfo[]> {
+		if (!this.contracts.mpe) {
+			throw new Error('MPE contract not initialized');
+		}
+
+		const filter = this.contracts.mpe.filters.ChannelOpen(null, null, sender, null, recipient ?? null);
+		const events = await this.queryEvents(
+			this.contracts.mpe,
+			filter,
+			fromBlock ?? (await this.getMpeDeploymentBlock()),
+			await this.getCurrentBlock()
+		);
+
+		const channelIds = events
+			.filter((event) => {
+				const args = (event as ethers.EventLog).args;
+				return !groupId || (args && String(args.groupId).toLowerCase() === groupId.toLowerCase());
+			})
+			.map((event) => Number((event as ethers.EventLog).args.channelId));
+
+		return Promise.all(channelIds.map((channelId) => this.getChannel(channelId)));
+	}
+
+	/**
+	 * Get the events of channels matching a filter
+	 *
+	 * Channels are found from ChannelOpen events by sender and recipient,
+	 * and narrowed by group. The funds added, extensions and claims of the
+	 * channels found are queried with them. Events are scanned from the MPE
+	 * deployment unless the filter starts later.
+	 */
+	async getChannelEvents(filter: ChannelFilter): Promise<ChannelEvent[]> {
+		if (!this.contracts.mpe) {
+			throw new Error('MPE contract not initialized');
+		}
+
+		const mpe = this.contracts.mpe;
+		const fromBlock = filter.fromBlock ?? (await this.getMpeDeploymentBlock());
+		const toBlock = await this.getCurrentBlock();
+		const groupId = filter.groupId?.toLowerCase();
+
+		const openLogs = await this.queryEvents(
+			mpe,
+			mpe.filters.ChannelOpen(null, null, filter.sender ?? null, null, filter.recipient ?? null),
+			fromBlock,
+			toBlock
+		);
+		const events: ChannelEvent[] = [];
+		for (const log of openLogs as ethers.EventLog[]) {
+			if (groupId && String(log.args.groupId).toLowerCase() !== groupId) {
+				continue;
+			}
+			events.push({
+				type: 'open',
+				channelId: Number(log.args.channelId),
+				blockNumber: log.blockNumber,
+				logIndex: log.index,
+				transactionHash: log.transactionHash,
+				nonce: Number(log.args.nonce),
+				sender: log.args.sender,
+				signer: log.args.signer,
+				recipient: log.args.recipient,
+				groupId: log.args.groupId,
+				amount: BigInt(log.args.amount),
+				expiration: Number(log.args.expiration),
+			});
+		}
+
+		const channelIds = events.map((event) => event.channelId);
+		if (channelIds.length === 0) {
+			return events;
+		}
+
+		// No channel has events from before it was opened
+		const openBlock = Math.min(...events.map((event) => event.blockNumber));
+		const [addFundsLogs, extendLogs, claimLogs, senderClaimLogs] = await Promise.all([
+			this.queryEvents(mpe, mpe.filters.ChannelAddFunds(channelIds), openBlock, toBlock),
+			this.queryEvents(mpe, mpe.filters.ChannelExtend(channelIds), openBlock, toBlock),
+			this.queryEvents(mpe, mpe.filters.ChannelClaim(channelIds), openBlock, toBlock),
+			this.queryEvents(mpe, mpe.filters.ChannelSenderClaim(channelIds), openBlock, toBlock),
+		]);
+		const base = (log: ethers.EventLog) => ({
+			channelId: Number(log.args.channelId),
+			blockNumber: log.blockNumber,
+			logIndex: log.index,
+			transactionHash: log.transactionHash,
+		});
+
+		for (const log of addFundsLogs as ethers.EventLog[]) {
+			events.push({ type: 'addFunds', ...base(log), amount: BigInt(log.args.additionalFunds) });
+		}
+		for (const log of extendLogs as ethers.EventLog[]) {
+			events.push({ type: 'extend', ...base(log), expiration: Number(log.args.newExpiration) });
+		}
+		for (const log of claimLogs as ethers.EventLog[]) {
+			events.push({
+				type: 'claim',
+				...base(log),
+				nonce: Number(log.args.nonce),
+				claimAmount: BigInt(log.args.claimAmount),
+				sendBackAmount: BigInt(log.args.sendBackAmount),
+			});
+		}
+		for (const log of senderClaimLogs as ethers.EventLog[]) {
+			events.push({
+				type: 'senderClaim',
+				...base(log),
+				nonce: Number(log.args.nonce),
+				claimAmount: BigInt(log.args.claimAmount),
+			});
+		}
+
+		return events;
+	}
+
+	/**
+	 * Query the events of a contract over a block range
+	 *
+	 * The range is queried in chunks of EVENT_QUERY_BLOCK_RANGE blocks, one
+	 * after another, as RPC nodes reject log queries over too many blocks.
+	 */
+	private async queryEvents(
+		contract: ethers.Contract,
+		event: ethers.ContractEventName,
+		fromBlock: number,
+		toBlock: number
+	): Promise<Array<ethers.EventLog | ethers.Log>> {
+		const logs: Array<ethers.EventLog | ethers.Log> = [];
+		for (let start = fromBlock; start <= toBlock; start += EVENT_QUERY_BLOCK_RANGE) {
+			const end = Math.min(start + EVENT_QUERY_BLOCK_RANGE - 1, toBlock);
+			logs.push(...(await contract.queryFilter(event, start, end)));
+		}
+		return logs;
+	}
+
+	/**
+	 * List channels matching a filter with their current state
+	 */
+	async listChannels(filter: ChannelFilter): Promise<IndexedChannel[]> {
+		const [events, currentBlock] = await Promise.all([
+			this.getChannelEvents(filter),
+			this.getCurrentBlock(),
+		]);
+		return indexChannelEvents(events, currentBlock);
 	}
 
 	/**
@@ -342,15 +767,57 @@ export class EthereumClient {
 			throw new Error('MPE contract or wallet not initialized');
 		}
 
-		const tx = await this.contracts.mpe.channelClaimTimeout(channelId);
-		const receipt = await tx.wait();
+		const { tx, receipt } = await this.sendTransaction(this.contracts.mpe, 'channelClaimTimeout', [channelId]);
+
+		return this.toTransactionResult(tx, receipt);
+	}
+
+	/**
+	 * Claim signed payments from several channels in one transaction
+	 *
+	 * Each claim takes its amount out of the planned amount the sender
+	 * signed. With sendback the rest of each channel goes back to its
+	 * sender, otherwise it stays in the channel under the next nonce. Claims are read from the receipt, so
+	 * none are reported when the transaction is not waited for.
+	 */
+	async multiChannelClaim(
+		claims: PaymentClaim[],
+		isSendback: boolean
+	): Promise<{ claims: ClaimedPayment[]; tx: TransactionResult }> {
+		if (!this.contracts.mpe || !this.wallet) {
+			throw new Error('MPE contract or wallet not initialized');
+		}
+
+		const mpe = this.contracts.mpe;
+		const { tx, receipt } = await this.sendTransaction(mpe, 'multiChannelClaim', [
+			claims.map((claim) => claim.channelId),
+			claims.map((claim) => claim.amount),
+			claims.map((claim) => claim.plannedAmount),
+			claims.map(() => isSendback),
+			claims.map((claim) => claim.v),
+			claims.map((claim) => claim.r),
+			claims.map((claim) => claim.s),
+		]);
+
+		const claimed: ClaimedPayment[] = [];
+		for (const log of (receipt?.logs ?? []) as ethers.Log[]) {
+			const parsed = mpe.interface.parseLog(log);
+			if (parsed?.name !== 'ChannelClaim') {
+				continue;
+			}
+			claimed.push({
+				channelId: Number(parsed.args.channelId),
+				nonce: Number(parsed.args.nonce),
+				claimAmount: BigInt(parsed.args.claimAmount),
+				plannedAmount: BigInt(parsed.args.plannedAmount),
+				sendBackAmount: BigInt(parsed.args.sendBackAmount),
+				keepAmount: BigInt(parsed.args.keepAmount),
+			});
+		}
 
 		return {
-			hash: tx.hash,
-			blockNumber: receipt.blockNumber,
-			status: receipt.status === 1 ? 'success' : 'failed',
-			gasUsed: receipt.gasUsed,
-			effectiveGasPrice: receipt.gasPrice,
+			claims: claimed,
+			tx: this.toTransactionResult(tx, receipt),
 		};
 	}
 
@@ -369,6 +836,72 @@ export class EthereumClient {
 		return feeData.gasPrice || 0n;
 	}
 
+	/**
+	 * Get current fees, including the EIP-1559 fee caps where the network
+	 * supports them
+	 */
+	async getFeeData(): Promise<FeeData> {
+		const [feeData, block] = await Promise.all([
+			this.provider.getFeeData(),
+			this.provider.getBlock('latest'),
+		]);
+		return {
+			gasPrice: feeData.gasPrice ?? BigInt(0),
+			baseFeePerGas: block?.baseFeePerGas ?? undefined,
+			maxFeePerGas: feeData.maxFeePerGas ?? undefined,
+			maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? undefined,
+		};
+	}
+
+	/**
+	 * Replace a pending transaction with one paying higher fees
+	 *
+	 * A speed-up resends the same transaction, a cancel sends nothing to
+	 * the wallet itself, both under the nonce of the pending one. Fees are
+	 * raised by at least the minimum bump nodes accept for a replacement,
+	 * or to the configured fee caps if those are higher.
+	 */
+	async replaceTransaction(hash: string, mode: 'speedUp' | 'cancel'): Promise<TransactionResult> {
+		if (!this.wallet) {
+			throw new Error('No wallet configured');
+		}
+
+		const pending = await this.provider.getTransaction(hash);
+		if (!pending) {
+			throw new Error(`Transaction not found: ${hash}`);
+		}
+		if (pending.blockNumber !== null) {
+			throw new Error(`Transaction ${hash} is already mined in block ${pending.blockNumber}`);
+		}
+		if (pending.from.toLowerCase() !== this.wallet.address.toLowerCase()) {
+			throw new Error(`Transaction ${hash} was not sent by this wallet`);
+		}
+
+		const request: ethers.TransactionRequest =
+			mode === 'cancel'
+				? { to: this.wallet.address, value: BigInt(0), data: '0x', nonce: pending.nonce }
+				: {
+						to: pending.to,
+						value: pending.value,
+						data: pending.data,
+						gasLimit: pending.gasLimit,
+						nonce: pending.nonce,
+					};
+
+		const { maxFeePerGas, maxPriorityFeePerGas } = this.transactionOptions;
+		if (pending.maxFeePerGas !== null && pending.maxPriorityFeePerGas !== null) {
+			request.maxFeePerGas = maxBigInt(bumpFee(pending.maxFeePerGas), maxFeePerGas);
+			request.maxPriorityFeePerGas = maxBigInt(bumpFee(pending.maxPriorityFeePerGas), maxPriorityFeePerGas);
+		} else {
+			request.gasPrice = maxBigInt(bumpFee(pending.gasPrice), maxFeePerGas);
+		}
+
+		const tx = await this.wallet.sendTransaction(request);
+		const receipt = await this.waitForConfirmations(tx, 0);
+
+		return this.toTransactionResult(tx, receipt);
+	}
+
 	/**
 	 * Estimate gas for a transaction
 	 */
@@ -390,6 +923,90 @@ export class EthereumClient {
 		return this.provider.getTransactionReceipt(hash);
 	}
 
+	/**
+	 * Wait until a transaction has a number of confirmations
+	 *
+	 * The receipt is polled until the transaction is mined deep enough,
+	 * and the events of SingularityNET contracts in it are decoded. Fails
+	 * when the timeout passes first.
+	 */
+	async waitForTransaction(
+		hash: string,
+		confirmations: number = 1,
+		timeout: number = 120000,
+		pollInterval: number = 4000
+	): Promise<ConfirmedTransaction> {
+		const deadline = Date.now() + timeout;
+
+		for (;;) {
+			const receipt = await this.provider.getTransactionReceipt(hash);
+			if (receipt) {
+				const currentBlock = await this.provider.getBlockNumber();
+				const confirmed = currentBlock - receipt.blockNumber + 1;
+				if (confirmed >= confirmations) {
+					return {
+						hash: receipt.hash,
+						blockNumber: receipt.blockNumber,
+						status: receipt.status === 1 ? 'success' : 'failed',
+						gasUsed: receipt.gasUsed,
+						effectiveGasPrice: receipt.gasPrice,
+						fee: receipt.fee,
+						from: receipt.from,
+						to: receipt.to,
+						confirmations: confirmed,
+						events: this.decodeEvents(receipt.logs),
+					};
+				}
+			}
+
+			if (Date.now() + pollInterval > deadline) {
+				throw new Error(
+					`Timed out after ${timeout} ms waiting for ${confirmations} confirmation(s) of transaction ${hash}`
+				);
+			}
+			await sleep(pollInterval);
+		}
+	}
+
+	/**
+	 * Decode the logs emitted by SingularityNET contracts
+	 *
+	 * Logs of other contracts and unknown events are skipped.
+	 */
+	decodeEvents(logs: readonly ethers.Log[]): DecodedEvent[] {
+		const contracts = new Map<string, [string, ethers.Contract]>();
+		for (const [name, contract] of Object.entries(this.contracts)) {
+			if (contract) {
+				contracts.set(String(contract.target).toLowerCase(), [name, contract]);
+			}
+		}
+
+		const events: DecodedEvent[] = [];
+		for (const log of logs) {
+			const known = contracts.get(log.address.toLowerCase());
+			if (!known) {
+				continue;
+			}
+			const [name, contract] = known;
+			let parsed: ethers.LogDescription | null;
+			try {
+				parsed = contract.interface.parseLog({ topics: [...log.topics], data: log.data });
+			} catch {
+				parsed = null;
+			}
+			if (!parsed) {
+				continue;
+			}
+
+			const args: Record<string, unknown> = {};
+			parsed.fragment.inputs.forEach((input, index) => {
+				args[input.name] = formatEventValue(parsed.args[index]);
+			});
+			events.push({ contract: name, address: log.address, name: parsed.name, logIndex: log.index, args });
+		}
+		return events;
+	}
+
 	/**
 	 * Validate Ethereum address
 	 */
@@ -433,13 +1050,51 @@ export class EthereumClient {
 	}
 }
 
+/**
+ * Make a decoded event value JSON friendly
+ */
+function formatEventValue(value: unknown): unknown {
+	if (typeof value === 'bigint') {
+		return value.toString();
+	}
+	if (Array.isArray(value)) {
+		return value.map(formatEventValue);
+	}
+	return value;
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Raise a fee by the 12.5% nodes require to accept a replacement
+ */
+function bumpFee(fee: bigint): bigint {
+	return (fee * BigInt(1125) + BigInt(999)) / BigInt(1000);
+}
+
+/**
+ * Get the larger of a fee and an optional floor
+ */
+function maxBigInt(value: bigint, floor?: bigint): bigint {
+	return floor !== undefined && floor > value ? floor : value;
+}
+
 /**
  * Create Ethereum client from n8n credentials
  */
-export function createEthereumClient(credentials: Record<string, unknown>): EthereumClient {
+export function createEthereumClient(
+	credentials: Record<string, unknown>,
+	transactionOptions?: TransactionOptions
+): EthereumClient {
 	const config: EthereumClientConfig = {
 		network: credentials.network as string,
 		rpcUrl: credentials.ethereumRpcUrl as string | undefined,
+		transactionOptions,
 	};
 
 	if (credentials.authMethod === 'privateKey') {
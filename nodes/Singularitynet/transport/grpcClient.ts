@@ -2,10 +2,36 @@
  * gRPC Client
  *
  * Handles gRPC/gRPC-Web communication with SingularityNET AI services.
- * Supports both unary and streaming calls.
+ * Supports unary, server, client and bidi streaming calls.
  */
 
 import axios, { AxiosInstance } from 'axios';
+import { decodeMessage, encodeMessage, ParsedProto, resolveGrpcMethod } from '../utils/protobufUtils';
+import {
+	decodeGrpcMessage,
+	decodeGrpcWebResponse,
+	encodeGrpcWebFrame,
+	getGrpcStatusName,
+	GRPC_WEB_TRAILER_FRAME,
+	httpStatusToGrpcCode,
+	parseGrpcWebFrames,
+	parseGrpcWebTrailers,
+} from '../utils/grpcWebUtils';
+
+/**
+ * Wire format used by the client
+ *
+ * - json: JSON bodies, for services fronted by a JSON proxy
+ * - grpcWeb: binary gRPC-Web frames, as served by SingularityNET daemons
+ */
+export type GrpcClientMode = 'json' | 'grpcWeb';
+
+/**
+ * gRPC client options
+ */
+export interface GrpcClientOptions {
+	mode?: GrpcClientMode;
+}
 
 /**
  * gRPC call options
@@ -14,6 +40,7 @@ export interface GrpcCallOptions {
 	metadata?: Record<string, string>;
 	timeout?: number;
 	streaming?: boolean;
+	proto?: ParsedProto;
 }
 
 /**
@@ -31,17 +58,60 @@ export interface GrpcCallResult {
  */
 export type StreamCallback = (data: unknown) => void;
 
+/**
+ * Request of a streaming call
+ *
+ * An array is sent as the request stream of a client or bidi streaming
+ * method, a single message as the request of a server streaming method.
+ */
+export type StreamInput = Record<string, unknown> | Record<string, unknown>[];
+
+/**
+ * Common interface of the gRPC transports
+ */
+export interface GrpcTransport {
+	call(method: string, input: Record<string, unknown>, options?: GrpcCallOptions): Promise<unknown>;
+	stream(
+		method: string,
+		input: StreamInput,
+		callback: StreamCallback,
+		options?: GrpcCallOptions
+	): Promise<void>;
+	healthCheck(): Promise<boolean>;
+	getEndpoint(): string;
+}
+
+/**
+ * Error raised for a non-OK gRPC status
+ */
+export class GrpcError extends Error {
+	readonly code: number;
+	readonly status: string;
+	readonly details: string;
+
+	constructor(code: number, details: string) {
+		const status = getGrpcStatusName(code);
+		super(`gRPC call failed with status ${status} (${code})${details ? `: ${details}` : ''}`);
+		this.name = 'GrpcError';
+		this.code = code;
+		this.status = status;
+		this.details = details;
+	}
+}
+
 /**
  * gRPC Client class
  *
  * Uses gRPC-Web protocol for browser/Node.js compatibility
  */
-export class GrpcClient {
+export class GrpcClient implements GrpcTransport {
 	private endpoint: string;
 	private httpClient: AxiosInstance;
+	private mode: GrpcClientMode;
 
-	constructor(endpoint: string, useSsl: boolean = true) {
+	constructor(endpoint: string, useSsl: boolean = true, options: GrpcClientOptions = {}) {
 		this.endpoint = this.normalizeEndpoint(endpoint, useSsl);
+		this.mode = options.mode || 'json';
 		this.httpClient = axios.create({
 			baseURL: this.endpoint,
 			timeout: 300000, // 5 minutes default
@@ -70,6 +140,10 @@ export class GrpcClient {
 		input: Record<string, unknown>,
 		options: GrpcCallOptions = {}
 	): Promise<unknown> {
+		if (this.mode === 'grpcWeb') {
+			return this.callGrpcWeb(method, input, options);
+		}
+
 		const { metadata = {}, timeout = 60000 } = options;
 
 		// Build the full method path
@@ -94,24 +168,79 @@ export class GrpcClient {
 
 			return response.data;
 		} catch (error) {
+			// The axios error is kept so retries and failover see its code and status
 			if (axios.isAxiosError(error)) {
-				throw new Error(
-					`gRPC call failed: ${error.response?.data?.message || error.message}`
-				);
+				error.message = `gRPC call failed: ${error.response?.data?.message || error.message}`;
 			}
 			throw error;
 		}
 	}
 
 	/**
-	 * Make a streaming gRPC call (server-side streaming)
+	 * Make a unary call using binary gRPC-Web framing
 	 */
-	async stream(
+	private async callGrpcWeb(
 		method: string,
 		input: Record<string, unknown>,
+		options: GrpcCallOptions
+	): Promise<Record<string, unknown>> {
+		const { metadata = {}, timeout = 60000, proto } = options;
+		if (!proto) {
+			throw new Error('Proto definitions are required for gRPC-Web calls');
+		}
+
+		const resolved = resolveGrpcMethod(proto, method);
+		const body = encodeGrpcWebFrame(encodeMessage(proto, resolved.method.inputType, input));
+
+		const response = await this.httpClient.post(resolved.path, body, {
+			headers: {
+				'Content-Type': 'application/grpc-web+proto',
+				Accept: 'application/grpc-web+proto',
+				'X-Grpc-Web': '1',
+				...metadata,
+			},
+			timeout,
+			responseType: 'arraybuffer',
+			validateStatus: () => true,
+		});
+
+		if (response.status !== 200) {
+			throw new GrpcError(httpStatusToGrpcCode(response.status), `HTTP ${response.status}`);
+		}
+
+		const { messages, trailers } = decodeGrpcWebResponse(Buffer.from(response.data));
+
+		// Trailers-only responses carry the status in the HTTP headers
+		const status = trailers['grpc-status'] ?? (response.headers['grpc-status'] as string | undefined);
+		const statusMessage =
+			trailers['grpc-message'] ?? (response.headers['grpc-message'] as string | undefined);
+		if (status !== undefined && Number(status) !== 0) {
+			throw new GrpcError(Number(status), decodeGrpcMessage(statusMessage));
+		}
+
+		if (messages.length === 0) {
+			throw new GrpcError(2, 'Response contained no message');
+		}
+
+		return decodeMessage(proto, resolved.method.outputType, messages[0]);
+	}
+
+	/**
+	 * Make a streaming gRPC call
+	 *
+	 * Response messages are passed to the callback as they arrive. The
+	 * timeout covers the whole stream, not just the response headers.
+	 */
+	async stream(
+		method: string,
+		input: StreamInput,
 		callback: StreamCallback,
 		options: GrpcCallOptions = {}
 	): Promise<void> {
+		if (this.mode === 'grpcWeb') {
+			return this.streamGrpcWeb(method, input, callback, options);
+		}
+
 		const { metadata = {}, timeout = 300000 } = options;
 		const methodPath = method.startsWith('/') ? method : `/${method}`;
 
@@ -121,47 +250,171 @@ export class GrpcClient {
 			...metadata,
 		};
 
-		try {
-			const response = await this.httpClient.post(methodPath, input, {
-				headers,
-				timeout,
-				responseType: 'stream',
-			});
+		// Newline-delimited JSON or server-sent events. A message can be split
+		// across chunks, so only complete lines are parsed.
+		let pending = '';
+		const handleLine = (line: string) => {
+			const text = line.replace(/^data:\s?/, '').trim();
+			if (!text || text.startsWith(':') || /^(event|id|retry):/.test(text)) return;
+			try {
+				callback(JSON.parse(text));
+			} catch {
+				// Not JSON, might be raw data
+				callback({ raw: text });
+			}
+		};
 
-			// Process streamed responses
-			response.data.on('data', (chunk: Buffer) => {
-				try {
-					const text = chunk.toString();
-					// Handle potential multiple JSON objects in stream
-					const lines = text.split('\n').filter((line: string) => line.trim());
-					for (const line of lines) {
-						try {
-							const data = JSON.parse(line);
-							callback(data);
-						} catch {
-							// Not JSON, might be raw data
-							callback({ raw: line });
-						}
+		await this.readStream(
+			methodPath,
+			input,
+			{ headers, timeout },
+			(chunk) => {
+				const lines = (pending + chunk.toString('utf8')).split('\n');
+				pending = lines.pop() || '';
+				lines.forEach(handleLine);
+			},
+			() => handleLine(pending)
+		);
+	}
+
+	/**
+	 * Make a streaming call using binary gRPC-Web framing
+	 */
+	private async streamGrpcWeb(
+		method: string,
+		input: StreamInput,
+		callback: StreamCallback,
+		options: GrpcCallOptions
+	): Promise<void> {
+		const { metadata = {}, timeout = 300000, proto } = options;
+		if (!proto) {
+			throw new Error('Proto definitions are required for gRPC-Web calls');
+		}
+
+		const resolved = resolveGrpcMethod(proto, method);
+		const messages = Array.isArray(input) ? input : [input];
+		const body = Buffer.concat(
+			messages.map((message) =>
+				encodeGrpcWebFrame(encodeMessage(proto, resolved.method.inputType, message))
+			)
+		);
+
+		let pending: Buffer = Buffer.alloc(0);
+		let trailers: Record<string, string> = {};
+
+		const responseHeaders = await this.readStream(
+			resolved.path,
+			body,
+			{
+				headers: {
+					'Content-Type': 'application/grpc-web+proto',
+					Accept: 'application/grpc-web+proto',
+					'X-Grpc-Web': '1',
+					...metadata,
+				},
+				timeout,
+			},
+			(chunk) => {
+				const { frames, remainder } = parseGrpcWebFrames(Buffer.concat([pending, chunk]));
+				pending = remainder;
+				frames.forEach((frame) => {
+					if (frame.flag & GRPC_WEB_TRAILER_FRAME) {
+						trailers = { ...trailers, ...parseGrpcWebTrailers(frame.data) };
+					} else {
+						callback(decodeMessage(proto, resolved.method.outputType, frame.data));
 					}
-				} catch (err) {
-					callback({ error: 'Failed to parse stream data' });
+				});
+			},
+			() => {
+				if (pending.length > 0) {
+					throw new Error(`Truncated gRPC-Web response: ${pending.length} trailing bytes`);
 				}
-			});
-
-			return new Promise((resolve, reject) => {
-				response.data.on('end', () => resolve());
-				response.data.on('error', (err: Error) => reject(err));
-			});
-		} catch (error) {
-			if (axios.isAxiosError(error)) {
-				throw new Error(
-					`gRPC stream failed: ${error.response?.data?.message || error.message}`
-				);
 			}
-			throw error;
+		);
+
+		// Trailers-only responses carry the status in the HTTP headers
+		const status = trailers['grpc-status'] ?? responseHeaders['grpc-status'];
+		const statusMessage = trailers['grpc-message'] ?? responseHeaders['grpc-message'];
+		if (status !== undefined && Number(status) !== 0) {
+			throw new GrpcError(Number(status), decodeGrpcMessage(statusMessage));
 		}
 	}
 
+	/**
+	 * Post a request and read the response body as a stream
+	 *
+	 * Rejects when the overall deadline passes, when the chunk handler
+	 * throws or when the service answers with a non-200 status.
+	 */
+	private readStream(
+		path: string,
+		body: unknown,
+		config: { headers: Record<string, string>; timeout: number },
+		onChunk: (chunk: Buffer) => void,
+		onEnd: () => void
+	): Promise<Record<string, string | undefined>> {
+		const controller = new AbortController();
+
+		return new Promise((resolve, reject) => {
+			let settled = false;
+			const timer = setTimeout(() => {
+				finish(new GrpcError(4, `Deadline of ${config.timeout}ms exceeded`));
+				controller.abort();
+			}, config.timeout);
+
+			const finish = (error: Error | null, headers?: Record<string, string | undefined>) => {
+				if (settled) return;
+				settled = true;
+				clearTimeout(timer);
+				if (error) {
+					reject(error);
+				} else {
+					resolve(headers || {});
+				}
+			};
+
+			this.httpClient
+				.post(path, body, {
+					headers: config.headers,
+					responseType: 'stream',
+					signal: controller.signal,
+					validateStatus: () => true,
+				})
+				.then((response) => {
+					if (response.status !== 200) {
+						response.data.destroy();
+						finish(new GrpcError(httpStatusToGrpcCode(response.status), `HTTP ${response.status}`));
+						return;
+					}
+
+					const headers = response.headers as Record<string, string | undefined>;
+					response.data.on('data', (chunk: Buffer) => {
+						try {
+							onChunk(chunk);
+						} catch (error) {
+							finish(error as Error);
+							controller.abort();
+						}
+					});
+					response.data.on('end', () => {
+						try {
+							onEnd();
+							finish(null, headers);
+						} catch (error) {
+							finish(error as Error);
+						}
+					});
+					response.data.on('error', (error: Error) => finish(error));
+				})
+				.catch((error) => {
+					if (axios.isAxiosError(error)) {
+						error.message = `gRPC stream failed: ${error.message}`;
+					}
+					finish(error as Error);
+				});
+		});
+	}
+
 	/**
 	 * Health check the service
 	 */
@@ -176,6 +429,13 @@ export class GrpcClient {
 		}
 	}
 
+	/**
+	 * Get the wire format used by the client
+	 */
+	getMode(): GrpcClientMode {
+		return this.mode;
+	}
+
 	/**
 	 * Get service endpoint
 	 */
@@ -229,30 +489,15 @@ export class GrpcClient {
 			'snet-payment-channel-signature-bin': Buffer.from(signature.slice(2), 'hex').toString('base64'),
 		};
 	}
-
-	/**
-	 * Create free call metadata for gRPC calls
-	 */
-	static createFreeCallMetadata(
-		userId: string,
-		organizationId: string,
-		serviceId: string,
-		token: string,
-		blockNumber: number
-	): Record<string, string> {
-		return {
-			'snet-payment-type': 'free-call',
-			'snet-free-call-user-id': userId,
-			'snet-current-block-number': blockNumber.toString(),
-			'snet-free-call-auth-token-bin': token,
-			'snet-payment-channel-signature-bin': '',
-		};
-	}
 }
 
 /**
  * Create gRPC client for a service endpoint
  */
-export function createGrpcClient(endpoint: string, useSsl: boolean = true): GrpcClient {
-	return new GrpcClient(endpoint, useSsl);
+export function createGrpcClient(
+	endpoint: string,
+	useSsl: boolean = true,
+	options: GrpcClientOptions = {}
+): GrpcClient {
+	return new GrpcClient(endpoint, useSsl, options);
 }
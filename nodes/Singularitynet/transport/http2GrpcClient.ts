@@ -0,0 +1,324 @@
+/**
+ * HTTP/2 gRPC Client
+ *
+ * Native gRPC transport over HTTP/2 for daemons that do not expose
+ * gRPC-Web. Supports TLS and plaintext (h2c) connections, deadlines
+ * and call metadata behind the same interface as the gRPC-Web client.
+ */
+
+import * as http2 from 'http2';
+import { GrpcCallOptions, GrpcError, GrpcTransport, StreamCallback, StreamInput } from './grpcClient';
+import {
+	decodeMessage,
+	encodeMessage,
+	parseProtoContent,
+	ParsedProto,
+	resolveGrpcMethod,
+} from '../utils/protobufUtils';
+import {
+	decodeGrpcMessage,
+	encodeGrpcWebFrame,
+	httpStatusToGrpcCode,
+	parseGrpcWebFrames,
+} from '../utils/grpcWebUtils';
+
+/**
+ * Standard gRPC health checking protocol
+ */
+const HEALTH_PROTO = `
+syntax = "proto3";
+package grpc.health.v1;
+message HealthCheckRequest { string service = 1; }
+message HealthCheckResponse {
+	enum ServingStatus { UNKNOWN = 0; SERVING = 1; NOT_SERVING = 2; SERVICE_UNKNOWN = 3; }
+	ServingStatus status = 1;
+}
+service Health { rpc Check(HealthCheckRequest) returns (HealthCheckResponse); }
+`;
+
+let healthProto: ParsedProto | null = null;
+
+/**
+ * Open HTTP/2 sessions, by authority
+ *
+ * Shared by all clients of the process, so every call to a daemon goes
+ * over one connection instead of each client opening its own.
+ */
+const sessions: Map<string, http2.ClientHttp2Session> = new Map();
+
+/**
+ * Time without activity after which a session is closed, in milliseconds
+ */
+const SESSION_IDLE_TIMEOUT = 30000;
+
+/**
+ * Raw result of a gRPC request
+ */
+interface GrpcResponse {
+	status: number;
+	message: string;
+}
+
+/**
+ * HTTP/2 gRPC Client class
+ */
+export class Http2GrpcClient implements GrpcTransport {
+	private authority: string;
+
+	constructor(endpoint: string, useSsl: boolean = true) {
+		this.authority = this.normalizeEndpoint(endpoint, useSsl);
+	}
+
+	/**
+	 * Normalize endpoint to an HTTP/2 authority URL
+	 */
+	private normalizeEndpoint(endpoint: string, useSsl: boolean): string {
+		const url = /^https?:\/\//.test(endpoint)
+			? new URL(endpoint)
+			: new URL(`${useSsl ? 'https' : 'http'}://${endpoint}`);
+		return `${url.protocol}//${url.host}`;
+	}
+
+	/**
+	 * Get or open the HTTP/2 session of the authority
+	 */
+	private getSession(): http2.ClientHttp2Session {
+		const cached = sessions.get(this.authority);
+		if (cached && !cached.closed && !cached.destroyed) {
+			return cached;
+		}
+
+		const authority = this.authority;
+		const session = http2.connect(authority);
+		const forget = () => {
+			if (sessions.get(authority) === session) {
+				sessions.delete(authority);
+			}
+		};
+		session.on('error', forget);
+		session.on('close', forget);
+		// Close the connection once no call has used it for a while, calls
+		// still in progress are completed first
+		session.setTimeout(SESSION_IDLE_TIMEOUT, () => session.close());
+		// Do not keep the process alive for an idle connection
+		session.unref();
+
+		sessions.set(authority, session);
+		return session;
+	}
+
+	/**
+	 * Send a request and feed response messages to a handler
+	 */
+	private request(
+		path: string,
+		body: Buffer,
+		onMessage: (message: Buffer) => void,
+		options: GrpcCallOptions,
+		defaultTimeout: number
+	): Promise<GrpcResponse> {
+		const { metadata = {}, timeout = defaultTimeout } = options;
+
+		const headers: http2.OutgoingHttpHeaders = {
+			[http2.constants.HTTP2_HEADER_METHOD]: 'POST',
+			[http2.constants.HTTP2_HEADER_PATH]: path,
+			[http2.constants.HTTP2_HEADER_CONTENT_TYPE]: 'application/grpc+proto',
+			[http2.constants.HTTP2_HEADER_TE]: 'trailers',
+			'grpc-timeout': `${timeout}m`,
+		};
+		Object.entries(metadata).forEach(([key, value]) => {
+			headers[key.toLowerCase()] = value;
+		});
+
+		return new Promise((resolve, reject) => {
+			let req: http2.ClientHttp2Stream;
+			try {
+				req = this.getSession().request(headers);
+			} catch (error) {
+				reject(error);
+				return;
+			}
+
+			let settled = false;
+			let pending: Buffer = Buffer.alloc(0);
+			let status: number | undefined;
+			let statusMessage = '';
+
+			const timer = setTimeout(() => {
+				req.close(http2.constants.NGHTTP2_CANCEL);
+				finish(new GrpcError(4, `Deadline of ${timeout}ms exceeded`));
+			}, timeout);
+
+			const finish = (error: Error | null, response?: GrpcResponse) => {
+				if (settled) return;
+				settled = true;
+				clearTimeout(timer);
+				if (error) {
+					reject(error);
+				} else {
+					resolve(response as GrpcResponse);
+				}
+			};
+
+			const readStatus = (source: http2.IncomingHttpHeaders) => {
+				if (source['grpc-status'] !== undefined) {
+					status = Number(source['grpc-status']);
+					statusMessage = decodeGrpcMessage(source['grpc-message'] as string | undefined);
+				}
+			};
+
+			req.on('response', (responseHeaders) => {
+				const httpStatus = Number(responseHeaders[http2.constants.HTTP2_HEADER_STATUS]);
+				if (httpStatus !== 200) {
+					finish(new GrpcError(httpStatusToGrpcCode(httpStatus), `HTTP ${httpStatus}`));
+					req.close(http2.constants.NGHTTP2_CANCEL);
+					return;
+				}
+				// Trailers-only responses carry the status in the headers
+				readStatus(responseHeaders);
+			});
+
+			req.on('data', (chunk: Buffer) => {
+				const { frames, remainder } = parseGrpcWebFrames(Buffer.concat([pending, chunk]));
+				pending = remainder;
+				try {
+					frames.forEach((frame) => {
+						if (frame.flag !== 0) {
+							throw new GrpcError(12, 'Compressed gRPC messages are not supported');
+						}
+						onMessage(frame.data);
+					});
+				} catch (error) {
+					req.close(http2.constants.NGHTTP2_CANCEL);
+					finish(error as Error);
+				}
+			});
+
+			req.on('trailers', readStatus);
+
+			req.on('end', () => {
+				if (pending.length > 0) {
+					finish(new GrpcError(13, `Truncated response: ${pending.length} trailing bytes`));
+				} else if (status === undefined) {
+					finish(new GrpcError(13, 'Response ended without a gRPC status'));
+				} else if (status !== 0) {
+					finish(new GrpcError(status, statusMessage));
+				} else {
+					finish(null, { status, message: statusMessage });
+				}
+			});
+
+			req.on('error', (error) => finish(error));
+
+			req.end(body);
+		});
+	}
+
+	/**
+	 * Make a unary gRPC call
+	 */
+	async call(
+		method: string,
+		input: Record<string, unknown>,
+		options: GrpcCallOptions = {}
+	): Promise<unknown> {
+		const proto = this.requireProto(options);
+		const resolved = resolveGrpcMethod(proto, method);
+		const body = encodeGrpcWebFrame(encodeMessage(proto, resolved.method.inputType, input));
+
+		const messages: Buffer[] = [];
+		await this.request(resolved.path, body, (message) => messages.push(message), options, 60000);
+
+		if (messages.length === 0) {
+			throw new GrpcError(2, 'Response contained no message');
+		}
+		return decodeMessage(proto, resolved.method.outputType, messages[0]);
+	}
+
+	/**
+	 * Make a streaming gRPC call
+	 *
+	 * An array input is written as the request stream before half-closing,
+	 * which covers client streaming and bidi calls with a known request set.
+	 */
+	async stream(
+		method: string,
+		input: StreamInput,
+		callback: StreamCallback,
+		options: GrpcCallOptions = {}
+	): Promise<void> {
+		const proto = this.requireProto(options);
+		const resolved = resolveGrpcMethod(proto, method);
+		const messages = Array.isArray(input) ? input : [input];
+		const body = Buffer.concat(
+			messages.map((message) =>
+				encodeGrpcWebFrame(encodeMessage(proto, resolved.method.inputType, message))
+			)
+		);
+
+		await this.request(
+			resolved.path,
+			body,
+			(message) => callback(decodeMessage(proto, resolved.method.outputType, message)),
+			options,
+			300000
+		);
+	}
+
+	/**
+	 * Health check the service using the gRPC health protocol
+	 */
+	async healthCheck(): Promise<boolean> {
+		if (!healthProto) {
+			healthProto = parseProtoContent(HEALTH_PROTO);
+		}
+
+		try {
+			const response = (await this.call(
+				'grpc.health.v1.Health/Check',
+				{ service: '' },
+				{ proto: healthProto, timeout: 5000 }
+			)) as { status?: string };
+			return response.status === 'SERVING';
+		} catch {
+			return false;
+		}
+	}
+
+	/**
+	 * Get service endpoint
+	 */
+	getEndpoint(): string {
+		return this.authority;
+	}
+
+	/**
+	 * Close the HTTP/2 session of the authority
+	 *
+	 * Calls in progress are completed first, later calls open a new session.
+	 */
+	close(): void {
+		const session = sessions.get(this.authority);
+		if (session) {
+			sessions.delete(this.authority);
+			session.close();
+		}
+	}
+
+	/**
+	 * Ensure proto definitions are available for binary encoding
+	 */
+	private requireProto(options: GrpcCallOptions): ParsedProto {
+		if (!options.proto) {
+			throw new Error('Proto definitions are required for gRPC calls');
+		}
+		return options.proto;
+	}
+}
+
+/**
+ * Create HTTP/2 gRPC client for a service endpoint
+ */
+export function createHttp2GrpcClient(endpoint: string, useSsl: boolean = true): Http2GrpcClient {
+	return new Http2GrpcClient(endpoint, useSsl);
+}
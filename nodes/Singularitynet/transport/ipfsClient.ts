@@ -6,6 +6,7 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
+import { attachRetryPolicy, RetryPolicy } from './retryPolicy';
 
 /**
  * IPFS upload result
@@ -43,13 +44,20 @@ export class IpfsClient {
 	private apiEndpoint: string | null;
 	private httpClient: AxiosInstance;
 
-	constructor(gateway: string = DEFAULT_GATEWAYS[0], apiEndpoint?: string) {
-		this.gateway = gateway.endsWith('/') ? gateway : `${gateway}/`;
+	constructor(
+		gateway: string = DEFAULT_GATEWAYS[0],
+		apiEndpoint?: string,
+		retryPolicy?: Partial<RetryPolicy>
+	) {
+		this.gateway = this.normalizeGateway(gateway);
 		this.apiEndpoint = apiEndpoint || null;
 
-		this.httpClient = axios.create({
-			timeout: 60000,
-		});
+		this.httpClient = attachRetryPolicy(
+			axios.create({
+				timeout: 60000,
+			}),
+			retryPolicy
+		);
 	}
 
 	/**
@@ -209,7 +217,22 @@ export class IpfsClient {
 	 * Set gateway
 	 */
 	setGateway(gateway: string): void {
-		this.gateway = gateway.endsWith('/') ? gateway : `${gateway}/`;
+		this.gateway = this.normalizeGateway(gateway);
+	}
+
+	/**
+	 * Normalize gateway URL, adding the /ipfs/ path to bare gateway hosts
+	 */
+	private normalizeGateway(gateway: string): string {
+		const trimmed = gateway.replace(/\/+$/, '');
+		try {
+			if (new URL(trimmed).pathname === '/') {
+				return `${trimmed}/ipfs/`;
+			}
+		} catch {
+			// Not an absolute URL, use as given
+		}
+		return `${trimmed}/`;
 	}
 
 	/**
@@ -296,6 +319,10 @@ export class IpfsClient {
 /**
  * Create IPFS client from configuration
  */
-export function createIpfsClient(gateway?: string, apiEndpoint?: string): IpfsClient {
-	return new IpfsClient(gateway || DEFAULT_GATEWAYS[0], apiEndpoint);
+export function createIpfsClient(
+	gateway?: string,
+	apiEndpoint?: string,
+	retryPolicy?: Partial<RetryPolicy>
+): IpfsClient {
+	return new IpfsClient(gateway || DEFAULT_GATEWAYS[0], apiEndpoint, retryPolicy);
 }
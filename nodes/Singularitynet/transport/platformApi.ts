@@ -6,6 +6,7 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
+import { attachRetryPolicy, RetryPolicy } from './retryPolicy';
 
 /**
  * Platform API configuration
@@ -16,6 +17,7 @@ export interface PlatformApiConfig {
 	apiKey?: string;
 	identityAddress?: string;
 	userToken?: string;
+	retryPolicy?: Partial<RetryPolicy>;
 }
 
 /**
@@ -92,6 +94,10 @@ export interface ServiceDetails {
 			default: boolean;
 			price_model: string;
 			price_in_cogs: string;
+			details?: Array<{
+				service_name: string;
+				method_pricing: Array<{ method_name: string; price_in_cogs: string | number }>;
+			}>;
 		}>;
 		endpoints: string[];
 		free_calls: number;
@@ -141,11 +147,14 @@ export class PlatformApi {
 			headers['X-User-Token'] = config.userToken;
 		}
 
-		this.httpClient = axios.create({
-			baseURL: this.baseUrl,
-			headers,
-			timeout: 30000,
-		});
+		this.httpClient = attachRetryPolicy(
+			axios.create({
+				baseURL: this.baseUrl,
+				headers,
+				timeout: 30000,
+			}),
+			config.retryPolicy
+		);
 	}
 
 	/**
@@ -376,13 +385,17 @@ export class PlatformApi {
 /**
  * Create Platform API client from n8n credentials
  */
-export function createPlatformApi(credentials: Record<string, unknown>): PlatformApi {
+export function createPlatformApi(
+	credentials: Record<string, unknown>,
+	retryPolicy?: Partial<RetryPolicy>
+): PlatformApi {
 	const config: PlatformApiConfig = {
 		environment: (credentials.environment as string) || 'production',
 		customEndpoint: credentials.customEndpoint as string | undefined,
 		apiKey: credentials.apiKey as string | undefined,
 		identityAddress: credentials.identityAddress as string | undefined,
 		userToken: credentials.userToken as string | undefined,
+		retryPolicy,
 	};
 
 	return new PlatformApi(config);
@@ -0,0 +1,317 @@
+/**
+ * Retry Policy
+ *
+ * Shared retry handling for the transports: transient failures are
+ * retried with exponential backoff and jitter, and hosts that keep
+ * failing are skipped for a while by a per-host circuit breaker.
+ */
+
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { GrpcError } from './grpcClient';
+
+/**
+ * Retry policy settings
+ */
+export interface RetryPolicy {
+	/** Retries after the first attempt, 0 to disable retries */
+	maxRetries: number;
+	/** Delay before the first retry, in milliseconds */
+	initialDelay: number;
+	/** Longest delay between retries, in milliseconds */
+	maxDelay: number;
+	/** Factor the delay grows by on each retry */
+	backoffFactor: number;
+	/** Fraction of each delay that is randomized, from 0 to 1 */
+	jitter: number;
+	/** HTTP statuses worth retrying */
+	retryableStatuses: number[];
+	/** Consecutive failures that open a host's circuit, 0 to disable */
+	circuitBreakerThreshold: number;
+	/** How long an open circuit rejects calls, in milliseconds */
+	circuitBreakerResetTime: number;
+}
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxRetries: 3,
+	initialDelay: 500,
+	maxDelay: 10000,
+	backoffFactor: 2,
+	jitter: 0.5,
+	retryableStatuses: [408, 429, 500, 502, 503, 504],
+	circuitBreakerThreshold: 5,
+	circuitBreakerResetTime: 30000,
+};
+
+/**
+ * Network error codes of transient failures
+ */
+const RETRYABLE_ERROR_CODES = [
+	'ECONNABORTED',
+	'ECONNREFUSED',
+	'ECONNRESET',
+	'EAI_AGAIN',
+	'EPIPE',
+	'ETIMEDOUT',
+	'ERR_HTTP2_GOAWAY_SESSION',
+	'ERR_HTTP2_SESSION_ERROR',
+];
+
+/**
+ * gRPC status codes of transient failures: RESOURCE_EXHAUSTED and
+ * UNAVAILABLE
+ */
+const RETRYABLE_GRPC_CODES = [8, 14];
+
+/**
+ * Failures that show the server did not process the request, so even
+ * non-idempotent requests can be sent again
+ */
+const UNPROCESSED_STATUSES = [429, 503];
+
+/**
+ * Circuit state of a host
+ */
+interface CircuitState {
+	failures: number;
+	openUntil: number;
+}
+
+/**
+ * Circuit states of all hosts
+ *
+ * Shared by all clients of the process, so a failing host is skipped by
+ * every execution.
+ */
+const circuits: Map<string, CircuitState> = new Map();
+
+/**
+ * Error raised when a host's circuit is open
+ */
+export class CircuitOpenError extends Error {
+	readonly host: string;
+	readonly retryAt: number;
+
+	constructor(host: string, retryAt: number) {
+		super(
+			`Circuit open for ${host} after repeated failures, retry after ${new Date(retryAt).toISOString()}`
+		);
+		this.name = 'CircuitOpenError';
+		this.host = host;
+		this.retryAt = retryAt;
+	}
+}
+
+/**
+ * Resolve a retry policy from overrides of the default one
+ *
+ * Undefined overrides keep the default value.
+ */
+export function resolveRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+	const policy = { ...DEFAULT_RETRY_POLICY };
+	Object.entries(overrides).forEach(([key, value]) => {
+		if (value !== undefined) {
+			(policy as unknown as Record<string, unknown>)[key] = value;
+		}
+	});
+	return policy;
+}
+
+/**
+ * Get the host of a URL or endpoint, used to key circuits
+ */
+export function getHost(url: string): string {
+	try {
+		return new URL(/^[a-z]+:\/\//i.test(url) ? url : `https://${url}`).host;
+	} catch {
+		return url;
+	}
+}
+
+/**
+ * Check if an error is a transient failure worth retrying
+ */
+export function isRetryableError(
+	error: unknown,
+	policy: RetryPolicy = DEFAULT_RETRY_POLICY
+): boolean {
+	if (error instanceof CircuitOpenError) {
+		return false;
+	}
+	if (error instanceof GrpcError) {
+		return RETRYABLE_GRPC_CODES.includes(error.code);
+	}
+	if (axios.isAxiosError(error) && error.response) {
+		return policy.retryableStatuses.includes(error.response.status);
+	}
+	const code = (error as { code?: unknown } | null)?.code;
+	return typeof code === 'string' && RETRYABLE_ERROR_CODES.includes(code);
+}
+
+/**
+ * Get the delay before a retry
+ *
+ * Grows exponentially with the attempt, with part of it randomized so
+ * clients do not retry in lockstep. A Retry-After header is honored up
+ * to the maximum delay.
+ */
+export function getRetryDelay(
+	attempt: number,
+	policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+	error?: unknown
+): number {
+	const retryAfter = axios.isAxiosError(error)
+		? Number(error.response?.headers?.['retry-after'])
+		: NaN;
+	if (retryAfter >= 0) {
+		return Math.min(retryAfter * 1000, policy.maxDelay);
+	}
+
+	const delay = Math.min(policy.initialDelay * policy.backoffFactor ** attempt, policy.maxDelay);
+	return Math.round(delay * (1 - policy.jitter * Math.random()));
+}
+
+/**
+ * Throw if a host's circuit is open
+ *
+ * Once the reset time has passed, calls are let through again and the
+ * next failure opens the circuit at once.
+ */
+export function checkCircuit(host: string): void {
+	const circuit = circuits.get(host);
+	if (circuit && circuit.openUntil > Date.now()) {
+		throw new CircuitOpenError(host, circuit.openUntil);
+	}
+}
+
+/**
+ * Record a successful call to a host, closing its circuit
+ */
+export function recordSuccess(host: string): void {
+	circuits.delete(host);
+}
+
+/**
+ * Record a transient failure of a host, opening its circuit once the
+ * threshold is reached
+ */
+export function recordFailure(host: string, policy: RetryPolicy = DEFAULT_RETRY_POLICY): void {
+	if (policy.circuitBreakerThreshold <= 0) {
+		return;
+	}
+	const circuit = circuits.get(host) ?? { failures: 0, openUntil: 0 };
+	circuit.failures += 1;
+	if (circuit.failures >= policy.circuitBreakerThreshold) {
+		circuit.openUntil = Date.now() + policy.circuitBreakerResetTime;
+	}
+	circuits.set(host, circuit);
+}
+
+/**
+ * Wait for a number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run a function, retrying transient failures
+ *
+ * With a host, its circuit is checked before each attempt and updated
+ * with the outcome. shouldRetry can veto retrying an error, for requests
+ * that are unsafe to send again.
+ */
+export async function withRetry<T>(
+	fn: (attempt: number) => Promise<T>,
+	options: {
+		policy?: Partial<RetryPolicy>;
+		host?: string;
+		shouldRetry?: (error: unknown) => boolean;
+	} = {}
+): Promise<T> {
+	const policy = resolveRetryPolicy(options.policy);
+
+	for (let attempt = 0; ; attempt++) {
+		if (options.host) checkCircuit(options.host);
+		try {
+			const result = await fn(attempt);
+			if (options.host) recordSuccess(options.host);
+			return result;
+		} catch (error) {
+			if (!isRetryableError(error, policy)) throw error;
+			if (options.host) recordFailure(options.host, policy);
+			if (attempt >= policy.maxRetries || (options.shouldRetry && !options.shouldRetry(error))) {
+				throw error;
+			}
+			await sleep(getRetryDelay(attempt, policy, error));
+		}
+	}
+}
+
+/**
+ * Request config carrying the retry count
+ */
+interface RetryRequestConfig extends InternalAxiosRequestConfig {
+	retryCount?: number;
+}
+
+/**
+ * Check if a request can be sent again after an error
+ *
+ * Idempotent requests are always safe. Other requests are only sent
+ * again when the server did not process them.
+ */
+function isSafeToRetry(error: AxiosError): boolean {
+	const method = (error.config?.method || 'get').toLowerCase();
+	if (['get', 'head', 'options', 'put', 'delete'].includes(method)) {
+		return true;
+	}
+	if (error.response) {
+		return UNPROCESSED_STATUSES.includes(error.response.status);
+	}
+	return error.code === 'ECONNREFUSED';
+}
+
+/**
+ * Apply a retry policy and circuit breaker to an axios client
+ */
+export function attachRetryPolicy(
+	client: AxiosInstance,
+	overrides: Partial<RetryPolicy> = {}
+): AxiosInstance {
+	const policy = resolveRetryPolicy(overrides);
+	const hostOf = (config?: InternalAxiosRequestConfig) =>
+		config ? getHost(client.getUri(config)) : '';
+
+	client.interceptors.request.use((config) => {
+		checkCircuit(hostOf(config));
+		return config;
+	});
+
+	client.interceptors.response.use(
+		(response) => {
+			recordSuccess(hostOf(response.config));
+			return response;
+		},
+		async (error) => {
+			const config = (error as AxiosError).config as RetryRequestConfig | undefined;
+			if (!config || !isRetryableError(error, policy)) {
+				throw error;
+			}
+
+			recordFailure(hostOf(config), policy);
+			const attempt = config.retryCount ?? 0;
+			if (attempt >= policy.maxRetries || !isSafeToRetry(error as AxiosError)) {
+				throw error;
+			}
+
+			config.retryCount = attempt + 1;
+			await sleep(getRetryDelay(attempt, policy, error));
+			return client.request(config);
+		}
+	);
+
+	return client;
+}
@@ -5,12 +5,62 @@
  * platform, combining blockchain operations with platform APIs.
  */
 
-import { EthereumClient, createEthereumClient } from './ethereumClient';
+import { EthereumClient, TransactionOptions, createEthereumClient } from './ethereumClient';
 import { CardanoClient, createCardanoClient } from './cardanoClient';
 import { PlatformApi, createPlatformApi } from './platformApi';
-import { GrpcClient } from './grpcClient';
+import { GrpcClient, GrpcClientMode, GrpcError, GrpcTransport, StreamCallback } from './grpcClient';
+import { Http2GrpcClient } from './http2GrpcClient';
+import {
+	ChannelState,
+	DaemonClient,
+	ModelDetails,
+	PrepaidToken,
+	TrainingAuthorization,
+} from './daemonClient';
+import { ChannelAction, ChannelManager, ManagedChannel } from './channelManager';
+import { EndpointSelector, isTransportError } from './endpointSelector';
+import {
+	checkCircuit,
+	getHost,
+	isRetryableError,
+	recordFailure,
+	recordSuccess,
+	resolveRetryPolicy,
+	RetryPolicy,
+	withRetry,
+} from './retryPolicy';
 import { IpfsClient, createIpfsClient } from './ipfsClient';
 import { isEthereumNetwork, isCardanoNetwork } from '../constants/networks';
+import {
+	createFreeCallMetadata,
+	createPaymentMetadata,
+	createPrepaidCallMetadata,
+	generateChannelStateSignature,
+	generateFreeCallToken,
+	generatePaymentSignature,
+	generateTokenSignature,
+	generateTrainingSignature,
+	GAS_ESTIMATES,
+	groupIdToBytes32,
+	PaymentChannel,
+	PaymentSignature,
+} from '../utils/paymentUtils';
+import { encodeMessage, ParsedProto, resolveGrpcMethod } from '../utils/protobufUtils';
+import {
+	getDefaultPricing,
+	getMethodPrice,
+	parseMethodPath,
+	parsePricing,
+	ServiceGroup,
+} from '../utils/serviceUtils';
+import { loadServiceProto } from '../utils/protoLoader';
+import {
+	ChannelStateStore,
+	getChannelLockKey,
+	MemoryChannelStateStore,
+	StoredChannelState,
+} from '../utils/channelStateStore';
+import { getResultCacheKey, ResultCache } from '../utils/resultCache';
 
 /**
  * SDK configuration
@@ -19,8 +69,31 @@ export interface SnetSdkConfig {
 	networkCredentials: Record<string, unknown>;
 	platformCredentials?: Record<string, unknown>;
 	serviceCredentials?: Record<string, unknown>;
+	channelStateStore?: ChannelStateStore;
+	retryPolicy?: Partial<RetryPolicy>;
+	resultCache?: ResultCache;
+	transactionOptions?: TransactionOptions;
 }
 
+/**
+ * How free calls are used
+ *
+ * - paidOnly: always pay through a channel
+ * - preferFree: use free calls while available, then pay
+ * - freeOnly: only use free calls, failing when none are left
+ */
+export type FreeCallPolicy = 'paidOnly' | 'preferFree' | 'freeOnly';
+
+/**
+ * How paid calls are paid
+ *
+ * - escrow: a payment signature per call. Calls on a channel reach the
+ *   daemon one at a time, in the order they were signed
+ * - prepaid: a concurrency token covering several calls, so calls can be
+ *   made in parallel
+ */
+export type PaymentMode = 'escrow' | 'prepaid';
+
 /**
  * Service call options
  */
@@ -28,7 +101,20 @@ export interface ServiceCallOptions {
 	method: string;
 	input: Record<string, unknown>;
 	timeout?: number;
-	useFreeCall?: boolean;
+	freeCallPolicy?: FreeCallPolicy;
+	groupName?: string;
+	channelId?: number;
+	channelAmount?: bigint;
+	channelExpirationBlocks?: number;
+	minChannelBalance?: bigint;
+	minExpirationBlocks?: number;
+	paymentMode?: PaymentMode;
+	prepaidCalls?: number;
+	proto?: ParsedProto;
+	/** Seconds to cache the result for, when the SDK has a result cache */
+	cacheTtl?: number;
+	/** Call the service even when a cached result exists */
+	bypassCache?: boolean;
 }
 
 /**
@@ -40,9 +126,136 @@ export interface ServiceCallResult {
 	error?: string;
 	executionTime?: number;
 	channelId?: number;
+	nonce?: number;
 	amountUsed?: bigint;
+	signedAmount?: bigint;
+	endpoint?: string;
+	groupName?: string;
+	proto?: ParsedProto;
+	freeCall?: boolean;
+	freeCallsRemaining?: number;
+	channelAction?: ChannelAction;
+	channelTransactionHash?: string;
+	cached?: boolean;
+	cachedAt?: string;
+}
+
+/**
+ * Cost of service calls, estimated without paying
+ */
+export interface CostEstimate {
+	groupName: string;
+	priceModel: string;
+	pricePerCall: bigint;
+	calls: number;
+	freeCalls: number;
+	paidCalls: number;
+	totalCost: bigint;
+	channelId?: number;
+	channelRemaining?: bigint;
+	channelExpiration?: number;
+	channelAction?: ChannelAction;
+	channelFunding: bigint;
+	escrowBalance: bigint;
+	escrowShortfall: bigint;
+	gasPrice: bigint;
+	estimatedGas: bigint;
+	estimatedGasCost: bigint;
+}
+
+/**
+ * Service group resolved for invocation
+ */
+export interface ResolvedServiceGroup {
+	groupId: string;
+	groupName: string;
+	paymentAddress: string;
+	endpoints: string[];
+	priceModel: string;
+	priceInCogs: bigint;
+	mpeAddress: string;
+	freeCalls: number;
+	freeCallSignerAddress: string;
+}
+
+/**
+ * Payment prepared for a single paid call
+ */
+export interface ServicePayment {
+	channelId: number;
+	nonce: number;
+	price: bigint;
+	signedAmount: bigint;
+	signature: PaymentSignature;
+	channelAction?: ChannelAction;
+	channelTransactionHash?: string;
+}
+
+/**
+ * Channel state reconciled between the store, the daemon and the chain
+ */
+export interface SyncedChannelState {
+	channelId: number;
+	nonce: number;
+	signedAmount: bigint;
+	availableAmount: bigint;
+	callCount: number;
+	daemon: ChannelState;
+}
+
+/**
+ * Payment signed for a call, with the channel state to store once the
+ * daemon has accepted it
+ */
+interface SignedPayment {
+	payment: ServicePayment;
+	state: StoredChannelState;
 }
 
+/**
+ * Concurrency token with the payment it was issued for
+ */
+interface PrepaidCall extends PrepaidToken {
+	nonce: number;
+	signature: PaymentSignature;
+}
+
+/**
+ * Everything needed to make one service call
+ */
+interface PreparedCall {
+	group: ResolvedServiceGroup;
+	endpoint: string;
+	grpcClient: GrpcTransport;
+	proto?: ParsedProto;
+	payment?: ServicePayment;
+	metadata: Record<string, string>;
+	freeCall?: { remaining: number };
+	/** Options of an escrow call, whose payment is signed when it is sent */
+	escrow?: ServiceCallOptions;
+}
+
+/**
+ * Free call prepared for a single call
+ */
+interface ServiceFreeCall {
+	metadata: Record<string, string>;
+	remaining: number;
+}
+
+/**
+ * Default number of calls paid for with one concurrency token
+ */
+const DEFAULT_PREPAID_CALLS = 10;
+
+/**
+ * Concurrency tokens in use, by sender and channel group
+ *
+ * Shared by all SDK instances of the process, so parallel executions
+ * spend the same token instead of each signing for a new one.
+ */
+const prepaidTokens: Map<string, PrepaidCall> = new Map();
+
 /**
  * SingularityNET SDK class
  */
@@ -51,9 +264,15 @@ export class SnetSdk {
 	private cardanoClient: CardanoClient | null = null;
 	private platformApi: PlatformApi | null = null;
 	private ipfsClient: IpfsClient | null = null;
-	private grpcClients: Map<string, GrpcClient> = new Map();
+	private grpcClients: Map<string, GrpcTransport> = new Map();
+	private channelStateStore: ChannelStateStore;
+	private endpointSelector: EndpointSelector;
 
 	constructor(private config: SnetSdkConfig) {
+		this.channelStateStore = config.channelStateStore ?? new MemoryChannelStateStore();
+		this.endpointSelector = new EndpointSelector((endpoint) =>
+			this.getGrpcClient(endpoint).healthCheck()
+		);
 		this.initialize();
 	}
 
@@ -65,19 +284,24 @@ export class SnetSdk {
 
 		// Initialize blockchain client based on network
 		if (isEthereumNetwork(network)) {
-			this.ethereumClient = createEthereumClient(this.config.networkCredentials);
+			// Channels must be mined before calls can be paid from them
+			const transactionOptions = this.config.transactionOptions;
+			this.ethereumClient = createEthereumClient(this.config.networkCredentials, {
+				...transactionOptions,
+				confirmations: Math.max(transactionOptions?.confirmations ?? 1, 1),
+			});
 		} else if (isCardanoNetwork(network)) {
-			this.cardanoClient = createCardanoClient(this.config.networkCredentials);
+			this.cardanoClient = createCardanoClient(this.config.networkCredentials, this.config.retryPolicy);
 		}
 
 		// Initialize platform API if credentials provided
 		if (this.config.platformCredentials) {
-			this.platformApi = createPlatformApi(this.config.platformCredentials);
+			this.platformApi = createPlatformApi(this.config.platformCredentials, this.config.retryPolicy);
 		}
 
 		// Initialize IPFS client
 		const ipfsGateway = this.config.networkCredentials.ipfsGateway as string | undefined;
-		this.ipfsClient = createIpfsClient(ipfsGateway);
+		this.ipfsClient = createIpfsClient(ipfsGateway, undefined, this.config.retryPolicy);
 	}
 
 	/**
@@ -122,16 +346,119 @@ export class SnetSdk {
 
 	/**
 	 * Get or create gRPC client for a service
+	 *
+	 * The transport follows the protocol of the service credentials:
+	 * native HTTP/2 for gRPC, binary gRPC-Web by default, and JSON for REST.
 	 */
-	getGrpcClient(endpoint: string): GrpcClient {
+	getGrpcClient(endpoint: string): GrpcTransport {
 		let client = this.grpcClients.get(endpoint);
 		if (!client) {
-			client = new GrpcClient(endpoint);
+			const protocol = this.config.serviceCredentials?.protocol as string | undefined;
+			const useSsl = (this.config.serviceCredentials?.useSsl as boolean | undefined) ?? true;
+			if (protocol === 'grpc') {
+				client = new Http2GrpcClient(endpoint, useSsl);
+			} else {
+				const mode: GrpcClientMode = protocol === 'rest' ? 'json' : 'grpcWeb';
+				client = new GrpcClient(endpoint, useSsl, { mode });
+			}
 			this.grpcClients.set(endpoint, client);
 		}
 		return client;
 	}
 
+	/**
+	 * Get a client for the daemon services of an endpoint
+	 *
+	 * Daemon services are only served over gRPC, so REST services use
+	 * gRPC-Web to reach them.
+	 */
+	getDaemonClient(endpoint: string): DaemonClient {
+		if (this.config.serviceCredentials?.protocol !== 'rest') {
+			return new DaemonClient(this.getGrpcClient(endpoint));
+		}
+		const useSsl = (this.config.serviceCredentials?.useSsl as boolean | undefined) ?? true;
+		return new DaemonClient(new GrpcClient(endpoint, useSsl, { mode: 'grpcWeb' }));
+	}
+
+	/**
+	 * Get the state of a payment channel from the daemon
+	 */
+	async getChannelState(
+		endpoint: string,
+		channelId: number,
+		mpeAddress?: string
+	): Promise<ChannelState> {
+		const ethClient = this.getEthereumClient();
+		const wallet = ethClient.getWallet();
+		if (!wallet) {
+			throw new Error('A wallet is required to read channel state from the daemon');
+		}
+
+		const currentBlock = await ethClient.getCurrentBlock();
+		const signature = await generateChannelStateSignature(
+			wallet,
+			mpeAddress ?? ethClient.getMpeAddress(),
+			channelId,
+			currentBlock
+		);
+
+		try {
+			return await this.getDaemonClient(endpoint).getChannelState(
+				channelId,
+				signature,
+				currentBlock
+			);
+		} catch (error) {
+			throw new Error(
+				`Failed to get state of channel ${channelId} from daemon: ${(error as Error).message}`
+			);
+		}
+	}
+
+	/**
+	 * Sign the authorization of a training API request
+	 *
+	 * The daemon accepts any message, it is named after the request so
+	 * signatures are not reused across request types.
+	 */
+	async getTrainingAuthorization(message: string): Promise<TrainingAuthorization> {
+		const ethClient = this.getEthereumClient();
+		const wallet = ethClient.getWallet();
+		if (!wallet) {
+			throw new Error('A wallet is required for training API requests');
+		}
+
+		const currentBlock = await ethClient.getCurrentBlock();
+		return {
+			currentBlock,
+			message,
+			signature: await generateTrainingSignature(wallet, message, currentBlock),
+			signerAddress: wallet.address,
+		};
+	}
+
+	/**
+	 * Get the daemon serving the training API of a service group, and the
+	 * model details identifying the group
+	 */
+	async getTrainingTarget(
+		organizationId: string,
+		serviceId: string,
+		groupName?: string
+	): Promise<{
+		daemon: DaemonClient;
+		endpoint: string;
+		scope: Pick<ModelDetails, 'organizationId' | 'serviceId' | 'groupId'>;
+	}> {
+		const group = await this.resolveServiceGroup(organizationId, serviceId, groupName);
+		const [endpoint] = await this.endpointSelector.rank(group.endpoints);
+		return {
+			daemon: this.getDaemonClient(endpoint),
+			endpoint,
+			scope: { organizationId, serviceId, groupId: group.groupId },
+		};
+	}
+
 	/**
 	 * Get wallet address
 	 */
@@ -188,7 +515,7 @@ export class SnetSdk {
 		groupId: string,
 		amount: bigint,
 		expirationBlocks: number
-	): Promise<{ channelId: number; hash: string }> {
+	): Promise<{ channelId: number | null; hash: string }> {
 		const ethClient = this.getEthereumClient();
 		const currentBlock = await ethClient.getCurrentBlock();
 		const expiration = currentBlock + expirationBlocks;
@@ -209,8 +536,893 @@ export class SnetSdk {
 		return service as unknown as Record<string, unknown>;
 	}
 
+	/**
+	 * Get the parsed proto definitions of a service
+	 *
+	 * The .proto files are fetched from the model archive referenced by the
+	 * service metadata and cached per metadata hash.
+	 */
+	async getServiceProto(organizationId: string, serviceId: string): Promise<ParsedProto> {
+		const service = await this.getPlatformApi().getService(organizationId, serviceId);
+		if (!service.metadata_ipfs_hash) {
+			throw new Error(`Service ${organizationId}/${serviceId} has no metadata IPFS hash`);
+		}
+		return loadServiceProto(
+			this.getIpfsClient(),
+			organizationId,
+			serviceId,
+			service.metadata_ipfs_hash
+		);
+	}
+
+	/**
+	 * Resolve the service group used for invocation
+	 *
+	 * Falls back to the first group when no group name is given. The price
+	 * is that of the given method for method-priced services. The payment
+	 * address is only published on the organization, so it is looked up there.
+	 */
+	async resolveServiceGroup(
+		organizationId: string,
+		serviceId: string,
+		groupName?: string,
+		method?: string
+	): Promise<ResolvedServiceGroup> {
+		const platformApi = this.getPlatformApi();
+		const service = await platformApi.getService(organizationId, serviceId);
+
+		const groups = service.groups || [];
+		const group = groupName ? groups.find((g) => g.group_name === groupName) : groups[0];
+		if (!group) {
+			throw new Error(
+				groupName
+					? `Group '${groupName}' not found for service ${organizationId}/${serviceId}`
+					: `Service ${organizationId}/${serviceId} has no groups`
+			);
+		}
+		if (!group.endpoints?.length) {
+			throw new Error(`Group '${group.group_name}' has no endpoints`);
+		}
+
+		const organization = await platformApi.getOrganization(organizationId);
+		const orgGroup = organization.groups?.find((g) => g.group_id === group.group_id);
+		if (!orgGroup?.payment_address) {
+			throw new Error(`No payment address found for group '${group.group_name}'`);
+		}
+
+		const pricing = parsePricing(group.pricing);
+		const { serviceName, methodName } = parseMethodPath(method ?? '');
+
+		return {
+			groupId: group.group_id,
+			groupName: group.group_name,
+			paymentAddress: orgGroup.payment_address,
+			endpoints: group.endpoints,
+			priceModel: getDefaultPricing({ pricing } as ServiceGroup)?.priceModel ?? 'fixed_price',
+			priceInCogs: BigInt(getMethodPrice({ pricing }, serviceName, methodName)),
+			mpeAddress: service.mpe_address || this.getEthereumClient().getMpeAddress(),
+			freeCalls: group.free_calls || 0,
+			freeCallSignerAddress: group.free_call_signer_address,
+		};
+	}
+
+	/**
+	 * Select the channel to pay from
+	 *
+	 * Uses the given channel, or else the wallet's existing channel to the
+	 * group. The channel last paid from, as kept by the channel state store,
+	 * is read directly while it can still pay the amount before expiring;
+	 * otherwise the chain is searched. Returns null when there is none.
+	 */
+	private async selectChannel(
+		group: ResolvedServiceGroup,
+		options: Omit<ServiceCallOptions, 'input'>,
+		manager: ChannelManager,
+		amount: bigint
+	): Promise<PaymentChannel | null> {
+		const ethClient = this.getEthereumClient();
+		const groupId = groupIdToBytes32(group.groupId);
+
+		if (options.channelId === undefined) {
+			const address = ethClient.getAddress().toLowerCase();
+			const storedId = await this.channelStateStore.findChannelId(
+				group.mpeAddress,
+				address,
+				group.paymentAddress,
+				groupId
+			);
+			if (storedId !== null) {
+				const stored = await ethClient.getChannel(storedId);
+				const state = await this.channelStateStore.get(group.mpeAddress, storedId, stored.nonce);
+				const remaining = stored.value - (state?.signedAmount ?? BigInt(0));
+				if (
+					stored.sender.toLowerCase() === address &&
+					stored.signer.toLowerCase() === address &&
+					stored.recipient.toLowerCase() === group.paymentAddress.toLowerCase() &&
+					stored.groupId.toLowerCase() === groupId.toLowerCase() &&
+					(await manager.canPay(stored, remaining, amount))
+				) {
+					return stored;
+				}
+			}
+			return manager.findChannel(group.paymentAddress, groupId);
+		}
+
+		const channel = await ethClient.getChannel(options.channelId);
+		if (channel.sender.toLowerCase() !== ethClient.getAddress().toLowerCase()) {
+			throw new Error(`Channel ${options.channelId} is not owned by the configured wallet`);
+		}
+		if (
+			channel.recipient.toLowerCase() !== group.paymentAddress.toLowerCase() ||
+			channel.groupId.toLowerCase() !== groupId.toLowerCase()
+		) {
+			throw new Error(`Channel ${options.channelId} does not belong to group '${group.groupName}'`);
+		}
+		return channel;
+	}
+
+	/**
+	 * Reconcile the stored state of a channel with the daemon
+	 *
+	 * The daemon only records the payments of calls it accepted, so its
+	 * signed amount is kept whenever it is at the latest nonce seen by
+	 * either the daemon or the chain. The stored amount is used for a nonce
+	 * the daemon has not caught up with yet. Runs under the group's lock.
+	 */
+	async syncChannelState(
+		endpoint: string,
+		channel: PaymentChannel,
+		mpeAddress: string
+	): Promise<SyncedChannelState> {
+		return this.channelStateStore.withLock(
+			getChannelLockKey(mpeAddress, channel.sender, channel.recipient, channel.groupId),
+			() => this.reconcileChannelState(endpoint, channel, mpeAddress)
+		);
+	}
+
+	/**
+	 * Reconcile channel state, with the group's lock already held
+	 */
+	private async reconcileChannelState(
+		endpoint: string,
+		channel: PaymentChannel,
+		mpeAddress: string
+	): Promise<SyncedChannelState> {
+		const { state, stored } = await this.readChannelState(endpoint, channel, mpeAddress);
+
+		if (!stored || stored.signedAmount !== state.signedAmount) {
+			await this.channelStateStore.set({
+				mpeAddress,
+				channelId: channel.channelId,
+				nonce: state.nonce,
+				signedAmount: state.signedAmount,
+				callCount: state.callCount,
+				sender: channel.sender,
+				recipient: channel.recipient,
+				groupId: channel.groupId,
+			});
+		}
+		return state;
+	}
+
+	/**
+	 * Compute the reconciled state of a channel without storing it
+	 *
+	 * Returns the stored state it was computed from as well.
+	 */
+	private async readChannelState(
+		endpoint: string,
+		channel: PaymentChannel,
+		mpeAddress: string
+	): Promise<{ state: SyncedChannelState; stored: StoredChannelState | null }> {
+		const daemon = await this.getChannelState(endpoint, channel.channelId, mpeAddress);
+		const nonce = Math.max(daemon.currentNonce, channel.nonce);
+		const stored = await this.channelStateStore.get(mpeAddress, channel.channelId, nonce);
+
+		const signedAmount =
+			daemon.currentNonce === nonce ? daemon.currentSignedAmount : stored?.signedAmount ?? BigInt(0);
+		const callCount = stored?.callCount ?? 0;
+
+		// Funds of a claim in progress are still in the on-chain value
+		const pendingClaim =
+			daemon.currentNonce > channel.nonce ? daemon.oldNonceSignedAmount ?? BigInt(0) : BigInt(0);
+
+		return {
+			state: {
+				channelId: channel.channelId,
+				nonce,
+				signedAmount,
+				availableAmount: channel.value - pendingClaim,
+				callCount,
+				daemon,
+			},
+			stored,
+		};
+	}
+
+	/**
+	 * Prepare a concurrency token for a prepaid call
+	 *
+	 * A token is signed for several calls at once and reused until its
+	 * planned amount is spent.
+	 */
+	private async preparePrepaidCall(
+		group: ResolvedServiceGroup,
+		endpoint: string,
+		options: ServiceCallOptions
+	): Promise<ServicePayment & { token: string }> {
+		const key = this.getGroupLockKey(group);
+
+		return this.channelStateStore.withLock(key, async () => {
+			const cached = prepaidTokens.get(key);
+			if (cached && !(await this.isPrepaidTokenCurrent(cached, group, options))) {
+				prepaidTokens.delete(key);
+			} else if (cached && cached.usedAmount + group.priceInCogs <= cached.plannedAmount) {
+				cached.usedAmount += group.priceInCogs;
+				return this.toPrepaidPayment(cached, group);
+			}
+
+			const calls = Math.max(1, options.prepaidCalls ?? DEFAULT_PREPAID_CALLS);
+			const { payment, state } = await this.signPayment(
+				group,
+				options,
+				group.priceInCogs * BigInt(calls)
+			);
+
+			const ethClient = this.getEthereumClient();
+			const wallet = ethClient.getWallet();
+			if (!wallet) {
+				throw new Error('A wallet is required for paid service calls');
+			}
+			const currentBlock = await ethClient.getCurrentBlock();
+			const signature = await generateTokenSignature(
+				wallet,
+				payment.signature.signature,
+				currentBlock
+			);
+			const token = await this.getDaemonClient(endpoint).getToken({
+				channelId: payment.channelId,
+				nonce: payment.nonce,
+				signedAmount: payment.signedAmount,
+				claimSignature: payment.signature.signature,
+				signature,
+				currentBlock,
+			});
+			await this.channelStateStore.set(state);
+
+			const prepaid: PrepaidCall = {
+				...token,
+				nonce: payment.nonce,
+				signature: payment.signature,
+				usedAmount: token.usedAmount + group.priceInCogs,
+			};
+			prepaidTokens.set(key, prepaid);
+			return {
+				...this.toPrepaidPayment(prepaid, group),
+				channelAction: payment.channelAction,
+				channelTransactionHash: payment.channelTransactionHash,
+			};
+		});
+	}
+
+	/**
+	 * Check that a token was signed for the channel and nonce in use
+	 *
+	 * A token is void once the channel was claimed, which moves it to a
+	 * new nonce, or once the sender pays the group from another channel.
+	 */
+	private async isPrepaidTokenCurrent(
+		prepaid: PrepaidCall,
+		group: ResolvedServiceGroup,
+		options: ServiceCallOptions
+	): Promise<boolean> {
+		const channelId =
+			options.channelId ??
+			(await this.channelStateStore.findChannelId(
+				group.mpeAddress,
+				this.getEthereumClient().getAddress(),
+				group.paymentAddress,
+				groupIdToBytes32(group.groupId)
+			)) ??
+			prepaid.channelId;
+		if (channelId !== prepaid.channelId) {
+			return false;
+		}
+		const channel = await this.getEthereumClient().getChannel(channelId);
+		return channel.nonce === prepaid.nonce;
+	}
+
+	/**
+	 * Describe a prepaid call as a payment
+	 */
+	private toPrepaidPayment(
+		prepaid: PrepaidCall,
+		group: ResolvedServiceGroup
+	): ServicePayment & { token: string } {
+		return {
+			channelId: prepaid.channelId,
+			nonce: prepaid.nonce,
+			price: group.priceInCogs,
+			signedAmount: prepaid.plannedAmount,
+			signature: prepaid.signature,
+			token: prepaid.token,
+		};
+	}
+
+	/**
+	 * Create a channel manager with the thresholds of the call options
+	 */
+	private createChannelManager(options: Omit<ServiceCallOptions, 'input'>): ChannelManager {
+		return new ChannelManager(this.getEthereumClient(), {
+			minBalance: options.minChannelBalance,
+			minExpirationBlocks: options.minExpirationBlocks,
+			fundingAmount: options.channelAmount,
+			expirationBlocks: options.channelExpirationBlocks,
+		});
+	}
+
+	/**
+	 * Get the lock key of the wallet's channels to a service group
+	 */
+	private getGroupLockKey(group: ResolvedServiceGroup): string {
+		return getChannelLockKey(
+			group.mpeAddress,
+			this.getEthereumClient().getAddress(),
+			group.paymentAddress,
+			groupIdToBytes32(group.groupId)
+		);
+	}
+
+	/**
+	 * Sign a payment of an amount, with the group's lock already held
+	 *
+	 * MPE signatures authorize a cumulative amount, so each call signs the
+	 * previously signed amount plus the price of this call. The last signed
+	 * amount and nonce of an existing channel are reconciled with the daemon
+	 * and the channel state store, so payments stay valid across restarts
+	 * and other workers. The new state is returned rather than stored, to be
+	 * stored once the daemon accepts the payment.
+	 */
+	private async signPayment(
+		group: ResolvedServiceGroup,
+		options: ServiceCallOptions,
+		amount: bigint
+	): Promise<SignedPayment> {
+		const wallet = this.getEthereumClient().getWallet();
+		if (!wallet) {
+			throw new Error('A wallet is required for paid service calls');
+		}
+
+		const manager = this.createChannelManager(options);
+		const existing = await this.selectChannel(group, options, manager, amount);
+		let managed: ManagedChannel;
+		let state: Omit<SyncedChannelState, 'channelId' | 'daemon'>;
+
+		if (existing) {
+			state = await this.reconcileChannelState(group.endpoints[0], existing, group.mpeAddress);
+			managed = await manager.ensureChannel(
+				existing,
+				state.availableAmount - state.signedAmount,
+				amount
+			);
+			state.availableAmount += managed.channel.value - existing.value;
+		} else {
+			// Channels opened for this call are not known to the daemon yet
+			managed = await manager.openChannel(
+				group.paymentAddress,
+				groupIdToBytes32(group.groupId),
+				amount
+			);
+			state = {
+				nonce: managed.channel.nonce,
+				signedAmount: BigInt(0),
+				availableAmount: managed.channel.value,
+				callCount: 0,
+			};
+		}
+		const channel = managed.channel;
+
+		const signedAmount = state.signedAmount + amount;
+		if (signedAmount > state.availableAmount) {
+			throw new Error(
+				`Insufficient funds in channel ${channel.channelId}: ` +
+					`${signedAmount} cogs required, ${state.availableAmount} cogs available`
+			);
+		}
+
+		const signature = await generatePaymentSignature(
+			wallet,
+			group.mpeAddress,
+			channel.channelId,
+			state.nonce,
+			signedAmount
+		);
+
+		return {
+			payment: {
+				channelId: channel.channelId,
+				nonce: state.nonce,
+				price: group.priceInCogs,
+				signedAmount,
+				signature,
+				channelAction: managed.action,
+				channelTransactionHash: managed.transactionHash,
+			},
+			state: {
+				mpeAddress: group.mpeAddress,
+				channelId: channel.channelId,
+				nonce: state.nonce,
+				signedAmount,
+				callCount: state.callCount + 1,
+				sender: channel.sender,
+				recipient: channel.recipient,
+				groupId: channel.groupId,
+			},
+		};
+	}
+
+	/**
+	 * Prepare a free call for the configured wallet
+	 *
+	 * Returns null when the service offers no free calls or the wallet has
+	 * used them all. The signed token is registered with the marketplace,
+	 * which issues the auth token the daemon checks.
+	 */
+	private async prepareFreeCall(
+		organizationId: string,
+		serviceId: string,
+		group: ResolvedServiceGroup
+	): Promise<ServiceFreeCall | null> {
+		if (!group.freeCalls || !group.freeCallSignerAddress) {
+			return null;
+		}
+
+		const ethClient = this.getEthereumClient();
+		const wallet = ethClient.getWallet();
+		if (!wallet) {
+			throw new Error('A wallet is required for free calls');
+		}
+
+		const platformApi = this.getPlatformApi();
+		const userAddress = ethClient.getAddress();
+		const info = await platformApi.getFreeCallInfo(organizationId, serviceId, userAddress);
+		if (!info || info.free_calls_remaining <= 0) {
+			return null;
+		}
+
+		const currentBlock = await ethClient.getCurrentBlock();
+		const signature = await generateFreeCallToken(
+			wallet,
+			userAddress,
+			organizationId,
+			serviceId,
+			currentBlock
+		);
+		const { token } = await platformApi.registerFreeCall(
+			organizationId,
+			serviceId,
+			userAddress,
+			signature,
+			currentBlock
+		);
+
+		return {
+			metadata: createFreeCallMetadata(
+				userAddress,
+				organizationId,
+				serviceId,
+				token,
+				currentBlock,
+				signature
+			),
+			remaining: info.free_calls_remaining - 1,
+		};
+	}
+
+	/**
+	 * Resolve the endpoint, protos and payment for a service call
+	 *
+	 * Protos are loaded before signing so a failure does not consume a
+	 * payment. One payment covers the whole call, streamed or not. Escrow
+	 * payments are left to be signed when the call is sent. Free
+	 * calls are used first when the policy allows it. The group endpoints
+	 * are ranked so the fastest healthy one is used first.
+	 */
+	private async prepareCall(
+		organizationId: string,
+		serviceId: string,
+		options: ServiceCallOptions
+	): Promise<PreparedCall> {
+		const resolved = await this.resolveServiceGroup(
+			organizationId,
+			serviceId,
+			options.groupName,
+			options.method
+		);
+		const group = {
+			...resolved,
+			endpoints: await this.endpointSelector.rank(resolved.endpoints),
+		};
+		const endpoint = group.endpoints[0];
+		const grpcClient = this.getGrpcClient(endpoint);
+
+		// Binary transports need the service protos to encode the request
+		let proto = options.proto;
+		if (!proto && this.config.serviceCredentials?.protocol !== 'rest') {
+			proto = await this.getServiceProto(organizationId, serviceId);
+		}
+
+		const policy = options.freeCallPolicy ?? 'paidOnly';
+		if (policy !== 'paidOnly') {
+			let freeCall: ServiceFreeCall | null;
+			try {
+				freeCall = await this.prepareFreeCall(organizationId, serviceId, group);
+			} catch (error) {
+				if (policy === 'freeOnly') throw error;
+				freeCall = null;
+			}
+
+			if (freeCall) {
+				return {
+					group,
+					endpoint,
+					grpcClient,
+					proto,
+					metadata: freeCall.metadata,
+					freeCall: { remaining: freeCall.remaining },
+				};
+			}
+			if (policy === 'freeOnly') {
+				throw new Error(`No free calls remaining for ${organizationId}/${serviceId}`);
+			}
+		}
+
+		if (options.paymentMode === 'prepaid') {
+			const { token, ...payment } = await this.preparePrepaidCall(group, endpoint, options);
+			return {
+				group,
+				endpoint,
+				grpcClient,
+				proto,
+				payment,
+				metadata: createPrepaidCallMetadata(token),
+			};
+		}
+
+		return { group, endpoint, grpcClient, proto, metadata: {}, escrow: options };
+	}
+
+	/**
+	 * Estimate the cost of service calls
+	 *
+	 * Reports the escrow, channel and gas needed to pay for the calls
+	 * without sending any transaction or service call. Gas is estimated
+	 * from typical usage at the current gas price.
+	 */
+	async estimateCost(
+		organizationId: string,
+		serviceId: string,
+		options: Omit<ServiceCallOptions, 'input'> & { calls?: number }
+	): Promise<CostEstimate> {
+		const group = await this.resolveServiceGroup(
+			organizationId,
+			serviceId,
+			options.groupName,
+			options.method
+		);
+		const ethClient = this.getEthereumClient();
+		const calls = Math.max(0, options.calls ?? 1);
+
+		const freeCalls = await this.getFreeCallsAvailable(
+			organizationId,
+			serviceId,
+			group,
+			options,
+			calls
+		);
+		const paidCalls = options.freeCallPolicy === 'freeOnly' ? 0 : calls - freeCalls;
+		const totalCost = group.priceInCogs * BigInt(paidCalls);
+
+		const manager = this.createChannelManager(options);
+		const channel =
+			paidCalls > 0 ? await this.selectChannel(group, options, manager, totalCost) : null;
+		let channelRemaining: bigint | undefined;
+		if (channel) {
+			try {
+				// An estimate must leave the channel state store untouched
+				const { state } = await this.readChannelState(
+					group.endpoints[0],
+					channel,
+					group.mpeAddress
+				);
+				channelRemaining = state.availableAmount - state.signedAmount;
+			} catch {
+				// The daemon may be unreachable, estimate from the chain only
+				channelRemaining = channel.value;
+			}
+		}
+
+		const plan =
+			paidCalls > 0
+				? await manager.planChannel(channel, channelRemaining ?? BigInt(0), totalCost)
+				: { amount: BigInt(0), expiration: channel?.expiration ?? 0 };
+		const escrowBalance = await ethClient.getEscrowBalance();
+		const escrowShortfall =
+			plan.amount > escrowBalance ? plan.amount - escrowBalance : BigInt(0);
+
+		const gasByAction: Record<ChannelAction, bigint> = {
+			openChannel: GAS_ESTIMATES.OPEN_CHANNEL,
+			addFunds: GAS_ESTIMATES.ADD_FUNDS,
+			extend: GAS_ESTIMATES.EXTEND_CHANNEL,
+			extendAndAddFunds: GAS_ESTIMATES.ADD_FUNDS + GAS_ESTIMATES.EXTEND_CHANNEL,
+		};
+		let estimatedGas = plan.action ? gasByAction[plan.action] : BigInt(0);
+		if (escrowShortfall > BigInt(0)) {
+			estimatedGas += GAS_ESTIMATES.DEPOSIT;
+		}
+		const gasPrice = estimatedGas > BigInt(0) ? await ethClient.getGasPrice() : BigInt(0);
+
+		return {
+			groupName: group.groupName,
+			priceModel: group.priceModel,
+			pricePerCall: group.priceInCogs,
+			calls,
+			freeCalls,
+			paidCalls,
+			totalCost,
+			channelId: channel?.channelId,
+			channelRemaining,
+			channelExpiration: plan.expiration || undefined,
+			channelAction: plan.action,
+			channelFunding: plan.amount,
+			escrowBalance,
+			escrowShortfall,
+			gasPrice,
+			estimatedGas,
+			estimatedGasCost: estimatedGas * gasPrice,
+		};
+	}
+
+	/**
+	 * Get how many of a number of calls can be free
+	 *
+	 * Without free call info, all calls are counted as paid.
+	 */
+	private async getFreeCallsAvailable(
+		organizationId: string,
+		serviceId: string,
+		group: ResolvedServiceGroup,
+		options: Omit<ServiceCallOptions, 'input'>,
+		calls: number
+	): Promise<number> {
+		if ((options.freeCallPolicy ?? 'paidOnly') === 'paidOnly' || group.freeCalls <= 0) {
+			return 0;
+		}
+		try {
+			const info = await this.getPlatformApi().getFreeCallInfo(
+				organizationId,
+				serviceId,
+				this.getEthereumClient().getAddress()
+			);
+			return Math.min(calls, Math.max(0, info?.free_calls_remaining ?? 0));
+		} catch {
+			return 0;
+		}
+	}
+
+	/**
+	 * Make sure a channel can pay for a number of calls
+	 *
+	 * Finds, opens, tops up or extends the channel once for all the calls,
+	 * so calls made in parallel do not each send a channel transaction.
+	 * Calls expected to be free are not funded.
+	 */
+	async fundChannel(
+		organizationId: string,
+		serviceId: string,
+		options: Omit<ServiceCallOptions, 'input'> & { calls: number }
+	): Promise<{ channelId?: number; amount: bigint } & Omit<ManagedChannel, 'channel'>> {
+		const group = await this.resolveServiceGroup(
+			organizationId,
+			serviceId,
+			options.groupName,
+			options.method
+		);
+		const freeCalls = await this.getFreeCallsAvailable(
+			organizationId,
+			serviceId,
+			group,
+			options,
+			options.calls
+		);
+		const paidCalls = options.freeCallPolicy === 'freeOnly' ? 0 : options.calls - freeCalls;
+		const amount = group.priceInCogs * BigInt(paidCalls);
+		if (amount <= BigInt(0)) {
+			return { amount };
+		}
+
+		return this.channelStateStore.withLock(this.getGroupLockKey(group), async () => {
+			const manager = this.createChannelManager(options);
+			const existing = await this.selectChannel(group, options, manager, amount);
+			let managed: ManagedChannel;
+			if (existing) {
+				const state = await this.reconcileChannelState(
+					group.endpoints[0],
+					existing,
+					group.mpeAddress
+				);
+				managed = await manager.ensureChannel(
+					existing,
+					state.availableAmount - state.signedAmount,
+					amount
+				);
+			} else {
+				managed = await manager.openChannel(
+					group.paymentAddress,
+					groupIdToBytes32(group.groupId),
+					amount
+				);
+			}
+			return {
+				channelId: managed.channel.channelId,
+				amount,
+				action: managed.action,
+				transactionHash: managed.transactionHash,
+			};
+		});
+	}
+
+	/**
+	 * Check if a failed free call should be retried as a paid call
+	 *
+	 * Only rejections of the free call itself qualify, so a request that
+	 * fails for other reasons is not paid for.
+	 */
+	private isFreeCallRejection(error: unknown, options: ServiceCallOptions): boolean {
+		if (options.freeCallPolicy !== 'preferFree') return false;
+		if (error instanceof GrpcError && [7, 8, 16].includes(error.code)) return true;
+		return error instanceof Error && /free[ -]?call/i.test(error.message);
+	}
+
+	/**
+	 * Run a call against the endpoints of its group in turn
+	 *
+	 * The prepared endpoint is tried first. Calls failing to reach an
+	 * endpoint move on to the next one, skipping endpoints whose circuit
+	 * is open. The prepared call is updated to the endpoint last tried.
+	 */
+	private async withEndpointFailover<T>(
+		call: PreparedCall,
+		fn: (grpcClient: GrpcTransport) => Promise<T>,
+		canFailOver: (error: unknown) => boolean = () => true
+	): Promise<T> {
+		const policy = resolveRetryPolicy(this.config.retryPolicy);
+		const endpoints = [
+			call.endpoint,
+			...call.group.endpoints.filter((endpoint) => endpoint !== call.endpoint),
+		];
+
+		for (const [index, endpoint] of endpoints.entries()) {
+			const isLast = index === endpoints.length - 1;
+			const host = getHost(endpoint);
+			try {
+				checkCircuit(host);
+			} catch (error) {
+				if (isLast) throw error;
+				continue;
+			}
+
+			if (endpoint !== call.endpoint) {
+				call.endpoint = endpoint;
+				call.grpcClient = this.getGrpcClient(endpoint);
+			}
+			try {
+				const result = await fn(call.grpcClient);
+				recordSuccess(host);
+				return result;
+			} catch (error) {
+				if (isRetryableError(error, policy)) recordFailure(host, policy);
+				if (!isTransportError(error)) throw error;
+				this.endpointSelector.markFailed(endpoint);
+				if (isLast || !canFailOver(error)) throw error;
+			}
+		}
+		throw new Error(`Group '${call.group.groupName}' has no endpoints`);
+	}
+
+	/**
+	 * Send a prepared call, retrying transient failures
+	 *
+	 * Every attempt sends the metadata prepared once for the call, so a
+	 * paid call signs a single amount however often it is retried and the
+	 * channel is charged at most once.
+	 */
+	private sendWithRetry<T>(
+		call: PreparedCall,
+		fn: (grpcClient: GrpcTransport) => Promise<T>,
+		canRetry: (error: unknown) => boolean = () => true
+	): Promise<T> {
+		return withRetry(() => this.withEndpointFailover(call, fn, canRetry), {
+			policy: this.config.retryPolicy,
+			shouldRetry: canRetry,
+		});
+	}
+
+	/**
+	 * Send a prepared call, signing its escrow payment first
+	 *
+	 * The daemon takes an escrow payment only when it is the amount it was
+	 * last paid plus the price, and rejects payments on a channel that is
+	 * busy with another call. The group's lock is therefore held from
+	 * signing until the daemon answers, so calls on a channel reach it one
+	 * at a time and in the order they were signed.
+	 */
+	private sendCall<T>(
+		call: PreparedCall,
+		fn: (grpcClient: GrpcTransport) => Promise<T>,
+		canRetry?: (error: unknown) => boolean
+	): Promise<T> {
+		const options = call.escrow;
+		if (!options) {
+			return this.sendWithRetry(call, fn, canRetry);
+		}
+
+		return this.channelStateStore.withLock(this.getGroupLockKey(call.group), async () => {
+			const { payment, state } = await this.signPayment(
+				call.group,
+				options,
+				call.group.priceInCogs
+			);
+			call.payment = payment;
+			call.metadata = createPaymentMetadata(
+				payment.channelId,
+				payment.nonce,
+				payment.signedAmount,
+				payment.signature
+			);
+			const result = await this.sendWithRetry(call, fn, canRetry);
+
+			// The daemon does not keep payments of failed calls
+			await this.channelStateStore.set(state);
+			return result;
+		});
+	}
+
+	/**
+	 * Build the result cache key of a call
+	 *
+	 * The request is keyed by its encoded protobuf bytes, so inputs that
+	 * encode the same, such as ones differing only in default values,
+	 * share an entry. Returns the protos loaded for encoding as well.
+	 */
+	private async getCallCacheKey(
+		organizationId: string,
+		serviceId: string,
+		options: ServiceCallOptions
+	): Promise<{ key: string; proto?: ParsedProto }> {
+		let proto = options.proto;
+		if (!proto && this.config.serviceCredentials?.protocol !== 'rest') {
+			proto = await this.getServiceProto(organizationId, serviceId);
+		}
+
+		let request: Uint8Array | Record<string, unknown> = options.input;
+		if (proto) {
+			try {
+				const { method } = resolveGrpcMethod(proto, options.method);
+				request = encodeMessage(proto, method.inputType, options.input);
+			} catch {
+				// Key requests the protos cannot encode by their JSON
+			}
+		}
+
+		return { key: getResultCacheKey(organizationId, serviceId, options.method, request), proto };
+	}
+
 	/**
 	 * Call an AI service
+	 *
+	 * With a result cache and a cache TTL, a cached result of the same
+	 * request is returned without paying, and new results are cached.
 	 */
 	async callService(
 		organizationId: string,
@@ -218,38 +1430,171 @@ export class SnetSdk {
 		options: ServiceCallOptions
 	): Promise<ServiceCallResult> {
 		const startTime = Date.now();
+		const cache = options.cacheTtl ? this.config.resultCache : undefined;
 
 		try {
-			// Get service info
-			const serviceInfo = await this.getServiceMetadata(organizationId, serviceId);
-			const endpoint = serviceInfo.endpoint as string;
-
-			// Create gRPC client
-			const grpcClient = this.getGrpcClient(endpoint);
-
-			// Prepare payment (if not free call)
-			let paymentMetadata: Record<string, string> = {};
-			if (!options.useFreeCall) {
-				// Would need to get channel and create payment signature
-				// Simplified for now
+			let cacheKey: string | undefined;
+			if (cache) {
+				const { key, proto } = await this.getCallCacheKey(organizationId, serviceId, options);
+				cacheKey = key;
+				options = { ...options, proto };
+
+				const cached = options.bypassCache ? null : await cache.get(key);
+				if (cached) {
+					return {
+						success: true,
+						output: cached.output,
+						executionTime: Date.now() - startTime,
+						amountUsed: BigInt(0),
+						endpoint: cached.endpoint,
+						groupName: cached.groupName,
+						proto,
+						freeCall: false,
+						cached: true,
+						cachedAt: cached.cachedAt,
+					};
+				}
 			}
 
-			// Call service
-			const response = await grpcClient.call(options.method, options.input, {
-				metadata: paymentMetadata,
-				timeout: options.timeout,
-			});
+			let call = await this.prepareCall(organizationId, serviceId, options);
+			// A rejected free call falls back to a paid call instead of being retried
+			const invoke = (prepared: PreparedCall) =>
+				this.sendCall(
+					prepared,
+					(grpcClient) =>
+						grpcClient.call(options.method, options.input, {
+							metadata: prepared.metadata,
+							timeout: options.timeout,
+							proto: prepared.proto,
+						}),
+					(error) => !prepared.freeCall || !this.isFreeCallRejection(error, options)
+				);
+
+			let response: unknown;
+			try {
+				response = await invoke(call);
+			} catch (error) {
+				if (!call.freeCall || !this.isFreeCallRejection(error, options)) throw error;
+				call = await this.prepareCall(organizationId, serviceId, {
+					...options,
+					proto: call.proto,
+					freeCallPolicy: 'paidOnly',
+				});
+				response = await invoke(call);
+			}
+
+			if (cache && cacheKey) {
+				// The call is paid for already, a failing cache must not fail it
+				await cache
+					.set(
+						cacheKey,
+						{
+							output: response as Record<string, unknown>,
+							groupName: call.group.groupName,
+							endpoint: call.endpoint,
+						},
+						options.cacheTtl as number
+					)
+					.catch(() => undefined);
+			}
 
 			return {
 				success: true,
 				output: response as Record<string, unknown>,
 				executionTime: Date.now() - startTime,
+				channelId: call.payment?.channelId,
+				nonce: call.payment?.nonce,
+				amountUsed: call.payment?.price,
+				signedAmount: call.payment?.signedAmount,
+				channelAction: call.payment?.channelAction,
+				channelTransactionHash: call.payment?.channelTransactionHash,
+				endpoint: call.endpoint,
+				groupName: call.group.groupName,
+				proto: call.proto,
+				freeCall: !!call.freeCall,
+				freeCallsRemaining: call.freeCall?.remaining,
+				cached: false,
+			};
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : 'Unknown error',
+				executionTime: Date.now() - startTime,
+			};
+		}
+	}
+
+	/**
+	 * Call a streaming AI service method
+	 *
+	 * The request stream is taken from `inputs` when given, otherwise the
+	 * single `input` is sent. Response messages are passed to the callback
+	 * as they arrive and also collected in `messages`. Messages received
+	 * before a failure are kept, since the call has already been paid for.
+	 */
+	async streamService(
+		organizationId: string,
+		serviceId: string,
+		options: ServiceCallOptions & { inputs?: Record<string, unknown>[] },
+		callback?: StreamCallback
+	): Promise<ServiceCallResult & { messages: Record<string, unknown>[] }> {
+		const startTime = Date.now();
+		const messages: Record<string, unknown>[] = [];
+		let call: PreparedCall | undefined;
+
+		try {
+			const prepared = await this.prepareCall(organizationId, serviceId, options);
+			call = prepared;
+
+			// A stream is retried only until the first message arrives
+			await this.sendCall(
+				prepared,
+				(grpcClient) =>
+					grpcClient.stream(
+						options.method,
+						options.inputs ?? options.input,
+						(message) => {
+							messages.push(message as Record<string, unknown>);
+							callback?.(message);
+						},
+						{
+							metadata: prepared.metadata,
+							timeout: options.timeout,
+							proto: prepared.proto,
+						}
+					),
+				() => messages.length === 0
+			);
+
+			return {
+				success: true,
+				messages,
+				executionTime: Date.now() - startTime,
+				channelId: call.payment?.channelId,
+				nonce: call.payment?.nonce,
+				amountUsed: call.payment?.price,
+				signedAmount: call.payment?.signedAmount,
+				channelAction: call.payment?.channelAction,
+				channelTransactionHash: call.payment?.channelTransactionHash,
+				endpoint: call.endpoint,
+				groupName: call.group.groupName,
+				proto: call.proto,
+				freeCall: !!call.freeCall,
+				freeCallsRemaining: call.freeCall?.remaining,
 			};
 		} catch (error) {
 			return {
 				success: false,
+				messages,
 				error: error instanceof Error ? error.message : 'Unknown error',
 				executionTime: Date.now() - startTime,
+				channelId: call?.payment?.channelId,
+				nonce: call?.payment?.nonce,
+				amountUsed: call?.payment?.price,
+				signedAmount: call?.payment?.signedAmount,
+				channelAction: call?.payment?.channelAction,
+				channelTransactionHash: call?.payment?.channelTransactionHash,
+				endpoint: call?.endpoint,
 			};
 		}
 	}
@@ -287,11 +1632,19 @@ export class SnetSdk {
 export function createSnetSdk(
 	networkCredentials: Record<string, unknown>,
 	platformCredentials?: Record<string, unknown>,
-	serviceCredentials?: Record<string, unknown>
+	serviceCredentials?: Record<string, unknown>,
+	channelStateStore?: ChannelStateStore,
+	retryPolicy?: Partial<RetryPolicy>,
+	resultCache?: ResultCache,
+	transactionOptions?: TransactionOptions
 ): SnetSdk {
 	return new SnetSdk({
 		networkCredentials,
 		platformCredentials,
 		serviceCredentials,
+		channelStateStore,
+		retryPolicy,
+		resultCache,
+		transactionOptions,
 	});
 }
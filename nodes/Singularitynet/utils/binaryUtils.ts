@@ -0,0 +1,165 @@
+/**
+ * Binary Utilities
+ *
+ * Moves proto `bytes` fields between request/response messages and n8n
+ * binary data, detecting the MIME type of returned content.
+ */
+
+import * as protobuf from 'protobufjs';
+import type { ParsedProto } from './protobufUtils';
+
+/**
+ * Detected file type
+ */
+export interface DetectedFileType {
+	mimeType: string;
+	extension: string;
+}
+
+/**
+ * A bytes field value found in a message
+ */
+export interface BytesField {
+	path: string;
+	data: Buffer;
+}
+
+/**
+ * File signatures, checked in order
+ */
+const FILE_SIGNATURES: Array<{
+	mimeType: string;
+	extension: string;
+	match: (buffer: Buffer) => boolean;
+}> = [
+	{
+		mimeType: 'image/png',
+		extension: 'png',
+		match: (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+	},
+	{ mimeType: 'image/jpeg', extension: 'jpg', match: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+	{ mimeType: 'image/gif', extension: 'gif', match: (b) => b.toString('ascii', 0, 4) === 'GIF8' },
+	{
+		mimeType: 'image/webp',
+		extension: 'webp',
+		match: (b) => b.toString('ascii', 0, 4) === 'RIFF' && b.toString('ascii', 8, 12) === 'WEBP',
+	},
+	{
+		mimeType: 'audio/wav',
+		extension: 'wav',
+		match: (b) => b.toString('ascii', 0, 4) === 'RIFF' && b.toString('ascii', 8, 12) === 'WAVE',
+	},
+	{ mimeType: 'image/bmp', extension: 'bmp', match: (b) => b.toString('ascii', 0, 2) === 'BM' },
+	{
+		mimeType: 'image/tiff',
+		extension: 'tiff',
+		match: (b) => ['II*\0', 'MM\0*'].includes(b.toString('latin1', 0, 4)),
+	},
+	{ mimeType: 'application/pdf', extension: 'pdf', match: (b) => b.toString('ascii', 0, 5) === '%PDF-' },
+	{ mimeType: 'audio/mpeg', extension: 'mp3', match: (b) => b.toString('ascii', 0, 3) === 'ID3' },
+	{ mimeType: 'audio/mpeg', extension: 'mp3', match: (b) => b[0] === 0xff && (b[1] & 0xe0) === 0xe0 },
+	{ mimeType: 'audio/ogg', extension: 'ogg', match: (b) => b.toString('ascii', 0, 4) === 'OggS' },
+	{ mimeType: 'audio/flac', extension: 'flac', match: (b) => b.toString('ascii', 0, 4) === 'fLaC' },
+	{ mimeType: 'video/mp4', extension: 'mp4', match: (b) => b.toString('ascii', 4, 8) === 'ftyp' },
+	{
+		mimeType: 'video/webm',
+		extension: 'webm',
+		match: (b) => b.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3])),
+	},
+	{ mimeType: 'application/zip', extension: 'zip', match: (b) => b.toString('ascii', 0, 4) === 'PK\x03\x04' },
+	{ mimeType: 'application/gzip', extension: 'gz', match: (b) => b[0] === 0x1f && b[1] === 0x8b },
+];
+
+/**
+ * Detect the MIME type of binary content from its signature
+ *
+ * Falls back to JSON or plain text when the content is valid UTF-8
+ * text, and to application/octet-stream otherwise.
+ */
+export function detectMimeType(buffer: Buffer): DetectedFileType {
+	const signature = FILE_SIGNATURES.find((entry) => buffer.length >= 4 && entry.match(buffer));
+	if (signature) {
+		return { mimeType: signature.mimeType, extension: signature.extension };
+	}
+
+	const text = buffer.toString('utf8');
+	const hasControlBytes = buffer.some((byte) => byte < 0x09 || (byte > 0x0d && byte < 0x20));
+	if (buffer.length > 0 && !hasControlBytes && !text.includes('\uFFFD')) {
+		try {
+			JSON.parse(text);
+			return { mimeType: 'application/json', extension: 'json' };
+		} catch {
+			return { mimeType: 'text/plain', extension: 'txt' };
+		}
+	}
+
+	return { mimeType: 'application/octet-stream', extension: 'bin' };
+}
+
+/**
+ * Set a value at a dot-separated path, creating nested objects
+ *
+ * Numeric path parts index into repeated fields.
+ */
+export function setFieldValue(
+	message: Record<string, unknown>,
+	path: string,
+	value: unknown,
+): void {
+	const parts = path.split('.');
+	let target = message;
+
+	parts.slice(0, -1).forEach((part, index) => {
+		if (typeof target[part] !== 'object' || target[part] === null) {
+			target[part] = /^\d+$/.test(parts[index + 1]) ? [] : {};
+		}
+		target = target[part] as Record<string, unknown>;
+	});
+
+	target[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Collect the bytes fields of a decoded message
+ *
+ * Values are expected as base64 strings, as produced by decodeMessage.
+ * Paths use dots for nested messages and map keys and indexes for
+ * repeated fields, e.g. `images.0` or `result.audio`.
+ */
+export function collectBytesFields(
+	proto: ParsedProto,
+	typeName: string,
+	message: Record<string, unknown>,
+): BytesField[] {
+	const fields: BytesField[] = [];
+
+	const walk = (type: protobuf.Type, object: Record<string, unknown>, prefix: string): void => {
+		type.fieldsArray.forEach((field) => {
+			const value = object[field.name];
+			if (value === undefined || value === null) return;
+
+			const resolved = field.resolve().resolvedType;
+			const visit = (item: unknown, path: string): void => {
+				if (field.type === 'bytes' && typeof item === 'string' && item.length > 0) {
+					fields.push({ path, data: Buffer.from(item, 'base64') });
+				} else if (resolved instanceof protobuf.Type && typeof item === 'object' && item !== null) {
+					walk(resolved, item as Record<string, unknown>, `${path}.`);
+				}
+			};
+
+			const path = `${prefix}${field.name}`;
+			if (field.map && typeof value === 'object') {
+				Object.entries(value as Record<string, unknown>).forEach(([key, item]) =>
+					visit(item, `${path}.${key}`),
+				);
+			} else if (field.repeated && Array.isArray(value)) {
+				value.forEach((item, index) => visit(item, `${path}.${index}`));
+			} else {
+				visit(value, path);
+			}
+		});
+	};
+
+	walk(proto.root.lookupType(typeName), message, '');
+	return fields;
+}
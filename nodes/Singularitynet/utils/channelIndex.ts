@@ -0,0 +1,186 @@
+/**
+ * Channel Index
+ *
+ * Rebuilds the state of payment channels from the events of the MPE
+ * contract. Channels are found from their ChannelOpen event, and funds
+ * added, expiry extensions and claims made since are applied in block
+ * order to get their current value, nonce and expiration.
+ */
+
+import { isChannelExpired } from './paymentUtils';
+
+/**
+ * Channel opened
+ */
+export interface ChannelOpenEvent {
+	type: 'open';
+	channelId: number;
+	blockNumber: number;
+	logIndex: number;
+	transactionHash: string;
+	nonce: number;
+	sender: string;
+	signer: string;
+	recipient: string;
+	groupId: string;
+	amount: bigint;
+	expiration: number;
+}
+
+/**
+ * Funds added to a channel
+ */
+export interface ChannelAddFundsEvent {
+	type: 'addFunds';
+	channelId: number;
+	blockNumber: number;
+	logIndex: number;
+	transactionHash: string;
+	amount: bigint;
+}
+
+/**
+ * Channel expiration extended
+ */
+export interface ChannelExtendEvent {
+	type: 'extend';
+	channelId: number;
+	blockNumber: number;
+	logIndex: number;
+	transactionHash: string;
+	expiration: number;
+}
+
+/**
+ * Payments claimed from a channel by its recipient
+ */
+export interface ChannelClaimEvent {
+	type: 'claim';
+	channelId: number;
+	blockNumber: number;
+	logIndex: number;
+	transactionHash: string;
+	nonce: number;
+	claimAmount: bigint;
+	sendBackAmount: bigint;
+}
+
+/**
+ * Funds reclaimed by the sender of an expired channel
+ */
+export interface ChannelSenderClaimEvent {
+	type: 'senderClaim';
+	channelId: number;
+	blockNumber: number;
+	logIndex: number;
+	transactionHash: string;
+	nonce: number;
+	claimAmount: bigint;
+}
+
+/**
+ * Event of the MPE contract that changes a channel
+ */
+export type ChannelEvent =
+	| ChannelOpenEvent
+	| ChannelAddFundsEvent
+	| ChannelExtendEvent
+	| ChannelClaimEvent
+	| ChannelSenderClaimEvent;
+
+/**
+ * Filter of the channels to index
+ */
+export interface ChannelFilter {
+	sender?: string;
+	recipient?: string;
+	groupId?: string;
+	fromBlock?: number;
+}
+
+/**
+ * Channel state rebuilt from its events
+ */
+export interface IndexedChannel {
+	channelId: number;
+	nonce: number;
+	sender: string;
+	signer: string;
+	recipient: string;
+	groupId: string;
+	value: bigint;
+	expiration: number;
+	expired: boolean;
+	openedAtBlock: number;
+	lastActivityBlock: number;
+	totalFunded: bigint;
+	totalClaimed: bigint;
+	claimCount: number;
+}
+
+/**
+ * Rebuild the state of channels from their events
+ *
+ * Events of channels with no ChannelOpen event among them are ignored.
+ * Channels are returned by ascending ID.
+ */
+export function indexChannelEvents(events: ChannelEvent[], currentBlock: number): IndexedChannel[] {
+	const ordered = [...events].sort(
+		(a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+	);
+	const channels = new Map<number, IndexedChannel>();
+
+	for (const event of ordered) {
+		if (event.type === 'open') {
+			channels.set(event.channelId, {
+				channelId: event.channelId,
+				nonce: event.nonce,
+				sender: event.sender,
+				signer: event.signer,
+				recipient: event.recipient,
+				groupId: event.groupId,
+				value: event.amount,
+				expiration: event.expiration,
+				expired: false,
+				openedAtBlock: event.blockNumber,
+				lastActivityBlock: event.blockNumber,
+				totalFunded: event.amount,
+				totalClaimed: BigInt(0),
+				claimCount: 0,
+			});
+			continue;
+		}
+
+		const channel = channels.get(event.channelId);
+		if (!channel) {
+			continue;
+		}
+		channel.lastActivityBlock = event.blockNumber;
+
+		switch (event.type) {
+			case 'addFunds':
+				channel.value += event.amount;
+				channel.totalFunded += event.amount;
+				break;
+			case 'extend':
+				channel.expiration = event.expiration;
+				break;
+			case 'claim':
+				// A claim pays the recipient and either keeps the rest in the
+				// channel or sends it back to the sender; the nonce moves on
+				channel.value -= event.claimAmount + event.sendBackAmount;
+				channel.totalClaimed += event.claimAmount;
+				channel.claimCount += 1;
+				channel.nonce = event.nonce + 1;
+				break;
+			case 'senderClaim':
+				channel.value -= event.claimAmount;
+				channel.nonce = event.nonce + 1;
+				break;
+		}
+	}
+
+	return [...channels.values()]
+		.map((channel) => ({ ...channel, expired: isChannelExpired(channel.expiration, currentBlock) }))
+		.sort((a, b) => a.channelId - b.channelId);
+}
@@ -0,0 +1,387 @@
+/**
+ * Channel State Store
+ *
+ * Remembers the last amount signed for each payment channel, so paid
+ * calls keep signing increasing amounts across executions. State is
+ * keyed by MPE address, channel ID and nonce, since the signed amount
+ * starts over whenever the provider claims the channel.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { IDataObject } from 'n8n-workflow';
+
+/**
+ * Stored state of a payment channel nonce
+ */
+export interface StoredChannelState {
+	mpeAddress: string;
+	channelId: number;
+	nonce: number;
+	signedAmount: bigint;
+	callCount: number;
+	/** Parties of the channel, so it can be found again by service group */
+	sender?: string;
+	recipient?: string;
+	groupId?: string;
+	updatedAt?: string;
+}
+
+/**
+ * Where channel state is kept
+ */
+export type ChannelStateBackend = 'memory' | 'workflowStaticData' | 'file';
+
+/**
+ * Channel state store interface
+ *
+ * Payments are signed while holding the lock of the channel's group, so
+ * concurrent calls reserve distinct amounts.
+ */
+export interface ChannelStateStore {
+	get(mpeAddress: string, channelId: number, nonce: number): Promise<StoredChannelState | null>;
+	set(state: StoredChannelState): Promise<void>;
+	findChannelId(
+		mpeAddress: string,
+		sender: string,
+		recipient: string,
+		groupId: string
+	): Promise<number | null>;
+	withLock<T>(key: string, fn: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * Serialized form of a stored channel state
+ */
+interface SerializedChannelState {
+	mpeAddress: string;
+	channelId: number;
+	nonce: number;
+	signedAmount: string;
+	callCount: number;
+	sender?: string;
+	recipient?: string;
+	groupId?: string;
+	updatedAt?: string;
+}
+
+/**
+ * Default file used by the local file backend
+ */
+export const DEFAULT_CHANNEL_STATE_FILE = path.join(
+	os.homedir(),
+	'.n8n',
+	'singularitynet-channel-state.json'
+);
+
+/**
+ * How long a lock file is honored before it is considered abandoned.
+ * Locks are held across channel transactions, which can take minutes.
+ */
+const LOCK_STALE_MS = 5 * 60 * 1000;
+
+/**
+ * Interval between attempts to take a lock file
+ */
+const LOCK_RETRY_MS = 50;
+
+/**
+ * Locks held in this process, as the tail of each key's queue
+ */
+const processLocks: Map<string, Promise<void>> = new Map();
+
+/**
+ * Build the key of a channel state
+ */
+export function getChannelStateKey(mpeAddress: string, channelId: number, nonce: number): string {
+	return `${mpeAddress.toLowerCase()}:${channelId}:${nonce}`;
+}
+
+/**
+ * Build the lock key of the channels from a sender to a service group
+ */
+export function getChannelLockKey(
+	mpeAddress: string,
+	sender: string,
+	recipient: string,
+	groupId: string
+): string {
+	return [mpeAddress, sender, recipient, groupId].map((part) => part.toLowerCase()).join(':');
+}
+
+/**
+ * Find the channel a sender last paid a service group from
+ *
+ * Returns the channel of the most recently updated matching state, or
+ * null when the sender has not paid the group from a stored channel.
+ */
+function findLatestChannelId(
+	states: Array<StoredChannelState | SerializedChannelState>,
+	mpeAddress: string,
+	sender: string,
+	recipient: string,
+	groupId: string
+): number | null {
+	const matches = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+	const latest = states
+		.filter(
+			(state) =>
+				matches(state.mpeAddress, mpeAddress) &&
+				matches(state.sender, sender) &&
+				matches(state.recipient, recipient) &&
+				matches(state.groupId, groupId)
+		)
+		.sort((a, b) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''))[0];
+	return latest?.channelId ?? null;
+}
+
+/**
+ * Run a function while holding an in-process lock
+ *
+ * Callers of the same key run one at a time, in the order they called.
+ */
+export async function withProcessLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+	const previous = processLocks.get(key) ?? Promise.resolve();
+	let release!: () => void;
+	const current = new Promise<void>((resolve) => {
+		release = resolve;
+	});
+	const tail = previous.then(() => current);
+	processLocks.set(key, tail);
+
+	await previous;
+	try {
+		return await fn();
+	} finally {
+		release();
+		if (processLocks.get(key) === tail) {
+			processLocks.delete(key);
+		}
+	}
+}
+
+/**
+ * Serialize a channel state for JSON storage
+ */
+function serializeState(state: StoredChannelState): SerializedChannelState {
+	return {
+		mpeAddress: state.mpeAddress,
+		channelId: state.channelId,
+		nonce: state.nonce,
+		signedAmount: state.signedAmount.toString(),
+		callCount: state.callCount,
+		sender: state.sender,
+		recipient: state.recipient,
+		groupId: state.groupId,
+		updatedAt: new Date().toISOString(),
+	};
+}
+
+/**
+ * Deserialize a channel state from JSON storage
+ */
+function deserializeState(state: SerializedChannelState): StoredChannelState {
+	return { ...state, signedAmount: BigInt(state.signedAmount) };
+}
+
+/**
+ * In-memory store, kept for the lifetime of the SDK instance
+ */
+export class MemoryChannelStateStore implements ChannelStateStore {
+	private states: Map<string, StoredChannelState> = new Map();
+
+	async get(mpeAddress: string, channelId: number, nonce: number): Promise<StoredChannelState | null> {
+		return this.states.get(getChannelStateKey(mpeAddress, channelId, nonce)) ?? null;
+	}
+
+	async set(state: StoredChannelState): Promise<void> {
+		this.states.set(getChannelStateKey(state.mpeAddress, state.channelId, state.nonce), {
+			...state,
+			updatedAt: new Date().toISOString(),
+		});
+	}
+
+	async findChannelId(
+		mpeAddress: string,
+		sender: string,
+		recipient: string,
+		groupId: string
+	): Promise<number | null> {
+		return findLatestChannelId([...this.states.values()], mpeAddress, sender, recipient, groupId);
+	}
+
+	async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+		return withProcessLock(key, fn);
+	}
+}
+
+/**
+ * Store backed by workflow static data
+ *
+ * n8n saves static data after each production execution, so state is
+ * shared by all executions of the workflow. Manual executions do not
+ * save it.
+ */
+export class StaticDataChannelStateStore implements ChannelStateStore {
+	private staticData: IDataObject;
+
+	constructor(staticData: IDataObject) {
+		this.staticData = staticData;
+	}
+
+	private getStates(): Record<string, SerializedChannelState> {
+		if (typeof this.staticData.channelStates !== 'object' || this.staticData.channelStates === null) {
+			this.staticData.channelStates = {};
+		}
+		return this.staticData.channelStates as unknown as Record<string, SerializedChannelState>;
+	}
+
+	async get(mpeAddress: string, channelId: number, nonce: number): Promise<StoredChannelState | null> {
+		const state = this.getStates()[getChannelStateKey(mpeAddress, channelId, nonce)];
+		return state ? deserializeState(state) : null;
+	}
+
+	async set(state: StoredChannelState): Promise<void> {
+		this.getStates()[getChannelStateKey(state.mpeAddress, state.channelId, state.nonce)] =
+			serializeState(state);
+	}
+
+	async findChannelId(
+		mpeAddress: string,
+		sender: string,
+		recipient: string,
+		groupId: string
+	): Promise<number | null> {
+		return findLatestChannelId(
+			Object.values(this.getStates()),
+			mpeAddress,
+			sender,
+			recipient,
+			groupId
+		);
+	}
+
+	async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+		return withProcessLock(key, fn);
+	}
+}
+
+/**
+ * Store backed by a local JSON file
+ *
+ * Shares state with every workflow and process on the same machine that
+ * uses the same file. Other processes are kept out with a lock file next
+ * to the state file.
+ */
+export class FileChannelStateStore implements ChannelStateStore {
+	private filePath: string;
+
+	constructor(filePath: string = DEFAULT_CHANNEL_STATE_FILE) {
+		this.filePath = filePath;
+	}
+
+	private async readStates(): Promise<Record<string, SerializedChannelState>> {
+		try {
+			return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return {};
+			}
+			throw new Error(
+				`Failed to read channel state file ${this.filePath}: ${(error as Error).message}`
+			);
+		}
+	}
+
+	async get(mpeAddress: string, channelId: number, nonce: number): Promise<StoredChannelState | null> {
+		const states = await this.readStates();
+		const state = states[getChannelStateKey(mpeAddress, channelId, nonce)];
+		return state ? deserializeState(state) : null;
+	}
+
+	async set(state: StoredChannelState): Promise<void> {
+		const states = await this.readStates();
+		states[getChannelStateKey(state.mpeAddress, state.channelId, state.nonce)] =
+			serializeState(state);
+
+		// Write to a temporary file first so readers never see a partial file
+		const tempPath = `${this.filePath}.${process.pid}.tmp`;
+		await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+		await fs.writeFile(tempPath, JSON.stringify(states, null, 2));
+		await fs.rename(tempPath, this.filePath);
+	}
+
+	async findChannelId(
+		mpeAddress: string,
+		sender: string,
+		recipient: string,
+		groupId: string
+	): Promise<number | null> {
+		const states = await this.readStates();
+		return findLatestChannelId(Object.values(states), mpeAddress, sender, recipient, groupId);
+	}
+
+	async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+		return withProcessLock(key, async () => {
+			const lockPath = `${this.filePath}.lock`;
+			await this.acquireLockFile(lockPath);
+			try {
+				return await fn();
+			} finally {
+				await fs.rm(lockPath, { force: true });
+			}
+		});
+	}
+
+	/**
+	 * Create the lock file, waiting while another process holds it
+	 */
+	private async acquireLockFile(lockPath: string): Promise<void> {
+		await fs.mkdir(path.dirname(lockPath), { recursive: true });
+		const deadline = Date.now() + LOCK_STALE_MS;
+
+		for (;;) {
+			try {
+				const handle = await fs.open(lockPath, 'wx');
+				await handle.writeFile(String(process.pid));
+				await handle.close();
+				return;
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+					throw error;
+				}
+			}
+
+			const stat = await fs.stat(lockPath).catch(() => null);
+			if (stat && Date.now() - stat.mtimeMs > LOCK_STALE_MS) {
+				await fs.rm(lockPath, { force: true });
+				continue;
+			}
+			if (Date.now() > deadline) {
+				throw new Error(`Timed out waiting for channel state lock ${lockPath}`);
+			}
+			await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+		}
+	}
+}
+
+/**
+ * Create a channel state store for a backend
+ */
+export function createChannelStateStore(
+	backend: ChannelStateBackend,
+	options: { staticData?: IDataObject; filePath?: string } = {}
+): ChannelStateStore {
+	switch (backend) {
+		case 'workflowStaticData':
+			if (!options.staticData) {
+				throw new Error('Workflow static data is required for this channel state storage');
+			}
+			return new StaticDataChannelStateStore(options.staticData);
+		case 'file':
+			return new FileChannelStateStore(options.filePath || undefined);
+		default:
+			return new MemoryChannelStateStore();
+	}
+}
@@ -0,0 +1,185 @@
+/**
+ * gRPC-Web Utilities
+ *
+ * Handles the gRPC-Web wire format used by SingularityNET daemons.
+ * Every message is sent as a length-prefixed frame: one flag byte,
+ * a 4-byte big-endian length and the message bytes. The response ends
+ * with a trailer frame carrying the gRPC status as HTTP/1 style headers.
+ */
+
+/**
+ * Frame flag for data frames
+ */
+export const GRPC_WEB_DATA_FRAME = 0x00;
+
+/**
+ * Frame flag for trailer frames
+ */
+export const GRPC_WEB_TRAILER_FRAME = 0x80;
+
+/**
+ * Size of the frame header (flag byte + 4-byte length)
+ */
+const FRAME_HEADER_SIZE = 5;
+
+/**
+ * gRPC status codes
+ */
+export const GRPC_STATUS_CODES: Record<number, string> = {
+	0: 'OK',
+	1: 'CANCELLED',
+	2: 'UNKNOWN',
+	3: 'INVALID_ARGUMENT',
+	4: 'DEADLINE_EXCEEDED',
+	5: 'NOT_FOUND',
+	6: 'ALREADY_EXISTS',
+	7: 'PERMISSION_DENIED',
+	8: 'RESOURCE_EXHAUSTED',
+	9: 'FAILED_PRECONDITION',
+	10: 'ABORTED',
+	11: 'OUT_OF_RANGE',
+	12: 'UNIMPLEMENTED',
+	13: 'INTERNAL',
+	14: 'UNAVAILABLE',
+	15: 'DATA_LOSS',
+	16: 'UNAUTHENTICATED',
+};
+
+/**
+ * A single gRPC-Web frame
+ */
+export interface GrpcWebFrame {
+	flag: number;
+	data: Buffer;
+}
+
+/**
+ * Decoded gRPC-Web response body
+ */
+export interface GrpcWebResponse {
+	messages: Buffer[];
+	trailers: Record<string, string>;
+}
+
+/**
+ * Encode a message into a length-prefixed gRPC-Web frame
+ */
+export function encodeGrpcWebFrame(
+	message: Uint8Array,
+	flag: number = GRPC_WEB_DATA_FRAME
+): Buffer {
+	const frame = Buffer.alloc(FRAME_HEADER_SIZE + message.length);
+	frame.writeUInt8(flag, 0);
+	frame.writeUInt32BE(message.length, 1);
+	Buffer.from(message).copy(frame, FRAME_HEADER_SIZE);
+	return frame;
+}
+
+/**
+ * Parse all complete frames from a buffer
+ *
+ * Bytes belonging to an incomplete trailing frame are returned as the
+ * remainder so streamed chunks can be concatenated with the next chunk.
+ */
+export function parseGrpcWebFrames(buffer: Buffer): { frames: GrpcWebFrame[]; remainder: Buffer } {
+	const frames: GrpcWebFrame[] = [];
+	let offset = 0;
+
+	while (buffer.length - offset >= FRAME_HEADER_SIZE) {
+		const flag = buffer.readUInt8(offset);
+		const length = buffer.readUInt32BE(offset + 1);
+		const end = offset + FRAME_HEADER_SIZE + length;
+		if (end > buffer.length) {
+			break;
+		}
+		frames.push({ flag, data: buffer.subarray(offset + FRAME_HEADER_SIZE, end) });
+		offset = end;
+	}
+
+	return { frames, remainder: buffer.subarray(offset) };
+}
+
+/**
+ * Parse a trailer frame into a header map
+ */
+export function parseGrpcWebTrailers(data: Buffer): Record<string, string> {
+	const trailers: Record<string, string> = {};
+
+	data
+		.toString('utf8')
+		.split('\r\n')
+		.forEach((line) => {
+			const separator = line.indexOf(':');
+			if (separator > 0) {
+				const key = line.slice(0, separator).trim().toLowerCase();
+				trailers[key] = line.slice(separator + 1).trim();
+			}
+		});
+
+	return trailers;
+}
+
+/**
+ * Decode a complete gRPC-Web response body
+ */
+export function decodeGrpcWebResponse(body: Buffer): GrpcWebResponse {
+	const { frames, remainder } = parseGrpcWebFrames(body);
+	if (remainder.length > 0) {
+		throw new Error(`Truncated gRPC-Web response: ${remainder.length} trailing bytes`);
+	}
+
+	const messages: Buffer[] = [];
+	let trailers: Record<string, string> = {};
+
+	frames.forEach((frame) => {
+		if (frame.flag & GRPC_WEB_TRAILER_FRAME) {
+			trailers = { ...trailers, ...parseGrpcWebTrailers(frame.data) };
+		} else {
+			messages.push(frame.data);
+		}
+	});
+
+	return { messages, trailers };
+}
+
+/**
+ * Decode the percent-encoded grpc-message value
+ */
+export function decodeGrpcMessage(message: string | undefined): string {
+	if (!message) return '';
+	try {
+		return decodeURIComponent(message);
+	} catch {
+		return message;
+	}
+}
+
+/**
+ * Map an HTTP status to the closest gRPC status code
+ */
+export function httpStatusToGrpcCode(httpStatus: number): number {
+	switch (httpStatus) {
+		case 400:
+			return 13; // INTERNAL
+		case 401:
+			return 16; // UNAUTHENTICATED
+		case 403:
+			return 7; // PERMISSION_DENIED
+		case 404:
+			return 12; // UNIMPLEMENTED
+		case 429:
+		case 502:
+		case 503:
+		case 504:
+			return 14; // UNAVAILABLE
+		default:
+			return 2; // UNKNOWN
+	}
+}
+
+/**
+ * Get the gRPC status name for a code
+ */
+export function getGrpcStatusName(code: number): string {
+	return GRPC_STATUS_CODES[code] || 'UNKNOWN';
+}
@@ -0,0 +1,111 @@
+/**
+ * Method Input Mapper
+ *
+ * Converts proto message schemas into n8n resource mapper fields and
+ * turns mapped values back into a request message.
+ */
+
+import type { FieldType, IDataObject, ResourceMapperField, ResourceMapperValue } from 'n8n-workflow';
+
+/**
+ * Map a JSON schema type to a resource mapper field type
+ */
+function schemaTypeToFieldType(schema: Record<string, unknown>): FieldType {
+	if (schema.format === 'date-time') {
+		return 'dateTime';
+	}
+
+	// Nullable well-known wrapper types list several types
+	const type = Array.isArray(schema.type)
+		? schema.type.find((t) => t !== 'null')
+		: schema.type;
+
+	switch (type) {
+		case 'integer':
+		case 'number':
+			return 'number';
+		case 'boolean':
+			return 'boolean';
+		case 'array':
+			return 'array';
+		case 'object':
+			return 'object';
+		default:
+			return 'string';
+	}
+}
+
+/**
+ * Build resource mapper fields from a message schema
+ */
+export function schemaToMapperFields(schema: Record<string, unknown>): ResourceMapperField[] {
+	const properties = (schema.properties || {}) as Record<string, Record<string, unknown>>;
+	const required = (schema.required || []) as string[];
+
+	return Object.entries(properties).map(([name, property]) => {
+		const isRequired = required.includes(name);
+		const type = schemaTypeToFieldType(property);
+		const options = Array.isArray(property.enum)
+			? (property.enum as string[]).map((value) => ({ name: value, value }))
+			: undefined;
+
+		return {
+			id: name,
+			displayName: property.type === 'array' ? `${name} (Repeated)` : name,
+			required: isRequired,
+			defaultMatch: false,
+			canBeUsedToMatch: false,
+			display: true,
+			type: options ? 'options' : type,
+			options,
+		};
+	});
+}
+
+/**
+ * Parse a mapped value according to its field type
+ *
+ * Arrays and messages can only be entered as text in the UI, so JSON
+ * strings are parsed for those fields.
+ */
+function parseMappedValue(field: ResourceMapperField | undefined, value: unknown): unknown {
+	if (typeof value !== 'string' || (field?.type !== 'array' && field?.type !== 'object')) {
+		return value;
+	}
+	try {
+		return JSON.parse(value);
+	} catch {
+		throw new Error(`Field '${field.id}' must be valid JSON`);
+	}
+}
+
+/**
+ * Build the request message from a resource mapper value
+ */
+export function mapperValueToInput(
+	mapper: ResourceMapperValue,
+	item: IDataObject = {},
+): Record<string, unknown> {
+	const fields = (mapper.schema || []).filter((field) => !field.removed);
+	const source: Record<string, unknown> =
+		mapper.mappingMode === 'autoMapInputData' ? item : mapper.value || {};
+
+	// Without a loaded schema the mapped values are used as they are
+	if (fields.length === 0) {
+		return { ...source };
+	}
+
+	const input: Record<string, unknown> = {};
+	fields.forEach((field) => {
+		const value = source[field.id];
+		if (value === undefined || value === null || value === '') {
+			if (field.required) {
+				throw new Error(`Field '${field.id}' is required`);
+			}
+			return;
+		}
+		input[field.id] = parseMappedValue(field, value);
+	});
+
+	return input;
+}
@@ -52,6 +52,14 @@ export async function generatePaymentSignature(
 
 	// Sign the message
 	const signature = await signer.signMessage(ethers.getBytes(messageHash));
+	return splitPaymentSignature(signature);
+}
+
+/**
+ * Split a payment signature into the v, r and s values the MPE contract
+ * takes when a payment is claimed
+ */
+export function splitPaymentSignature(signature: string): PaymentSignature {
 	const sig = ethers.Signature.from(signature);
 
 	return {
@@ -62,6 +70,62 @@ export async function generatePaymentSignature(
 	};
 }
 
+/**
+ * Generate the signature of a daemon channel state request
+ *
+ * Proves to the daemon that the caller is the channel sender or signer.
+ */
+export async function generateChannelStateSignature(
+	signer: ethers.Wallet,
+	mpeAddress: string,
+	channelId: number,
+	currentBlock: number
+): Promise<string> {
+	const messageHash = ethers.solidityPackedKeccak256(
+		['string', 'address', 'uint256', 'uint256'],
+		['__get_channel_state', mpeAddress, channelId, currentBlock]
+	);
+
+	return signer.signMessage(ethers.getBytes(messageHash));
+}
+
+/**
+ * Generate the signature of a concurrency token request
+ *
+ * Signs the payment (claim) signature together with the current block.
+ */
+export async function generateTokenSignature(
+	signer: ethers.Wallet,
+	claimSignature: string,
+	currentBlock: number
+): Promise<string> {
+	const messageHash = ethers.solidityPackedKeccak256(
+		['bytes', 'uint256'],
+		[claimSignature, currentBlock]
+	);
+
+	return signer.signMessage(ethers.getBytes(messageHash));
+}
+
+/**
+ * Generate the signature of a training API request
+ *
+ * Signs the message together with the signer address, as a string, and
+ * the current block.
+ */
+export async function generateTrainingSignature(
+	signer: ethers.Wallet,
+	message: string,
+	currentBlock: number
+): Promise<string> {
+	const messageHash = ethers.solidityPackedKeccak256(
+		['string', 'string', 'uint256'],
+		[message, signer.address, currentBlock]
+	);
+
+	return signer.signMessage(ethers.getBytes(messageHash));
+}
+
 /**
  * Verify a payment signature
  */
@@ -93,6 +157,19 @@ export function generateGroupId(groupName: string): string {
 	return ethers.id(groupName);
 }
 
+/**
+ * Convert a group ID to bytes32 hex
+ *
+ * Marketplace APIs return group IDs base64 encoded, while the MPE
+ * contract expects a 0x-prefixed bytes32 value.
+ */
+export function groupIdToBytes32(groupId: string): string {
+	if (groupId.startsWith('0x')) {
+		return ethers.zeroPadValue(groupId, 32);
+	}
+	return ethers.zeroPadValue(ethers.hexlify(Buffer.from(groupId, 'base64')), 32);
+}
+
 /**
  * Calculate channel expiration block number
  */
@@ -167,20 +244,34 @@ export function createPaymentMetadata(
 
 /**
  * Create free call metadata for gRPC call
+ *
+ * The signature is the user's signed free call token, sent so the daemon
+ * can verify the caller. It is left empty when not available.
  */
 export function createFreeCallMetadata(
 	userAddress: string,
 	organizationId: string,
 	serviceId: string,
 	authToken: string,
-	currentBlock: number
+	currentBlock: number,
+	signature: string = ''
 ): Record<string, string> {
 	return {
 		'snet-payment-type': 'free-call',
 		'snet-free-call-user-id': userAddress,
 		'snet-current-block-number': currentBlock.toString(),
 		'snet-free-call-auth-token-bin': authToken,
-		'snet-payment-channel-signature-bin': '', // Empty for free calls
+		'snet-payment-channel-signature-bin': signature,
+	};
+}
+
+/**
+ * Create prepaid call metadata for gRPC call
+ */
+export function createPrepaidCallMetadata(token: string): Record<string, string> {
+	return {
+		'snet-payment-type': 'prepaid-call',
+		'snet-prepaid-auth-token-bin': Buffer.from(token).toString('base64'),
 	};
 }
 
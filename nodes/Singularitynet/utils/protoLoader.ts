@@ -0,0 +1,86 @@
+/**
+ * Service Proto Loader
+ *
+ * Fetches a service's .proto definitions from the model archive
+ * referenced by its IPFS metadata and caches the parsed result.
+ */
+
+import type { IpfsClient } from '../transport/ipfsClient';
+import { extractTar } from './tarUtils';
+import { parseProtoFiles, ParsedProto } from './protobufUtils';
+
+/**
+ * Parsed protos keyed by organization, service and metadata hash.
+ * A new metadata hash means the service was republished, so stale
+ * entries are never served.
+ */
+const protoCache: Map<string, ParsedProto> = new Map();
+
+/**
+ * Get the model archive hash from service metadata
+ *
+ * Older metadata uses model_ipfs_hash, newer metadata uses
+ * service_api_source with an ipfs:// URI.
+ */
+export function getModelIpfsHash(metadata: Record<string, unknown>): string | null {
+	const hash =
+		(metadata.model_ipfs_hash as string | undefined) ||
+		(metadata.modelIpfsHash as string | undefined) ||
+		(metadata.service_api_source as string | undefined);
+
+	if (!hash) return null;
+	if (/^[a-z]+:\/\//.test(hash) && !hash.startsWith('ipfs://')) {
+		throw new Error(`Unsupported service API source: ${hash}`);
+	}
+	return hash.replace(/^ipfs:\/\//, '');
+}
+
+/**
+ * Parse a proto archive (tar or tar.gz)
+ */
+export function parseProtoArchive(archive: Buffer): ParsedProto {
+	const files: Record<string, string> = {};
+
+	extractTar(archive)
+		.filter((entry) => entry.type === 'file' && entry.name.endsWith('.proto'))
+		.forEach((entry) => {
+			files[entry.name] = entry.data.toString('utf8');
+		});
+
+	return parseProtoFiles(files);
+}
+
+/**
+ * Load the parsed proto definitions of a service
+ */
+export async function loadServiceProto(
+	ipfsClient: IpfsClient,
+	organizationId: string,
+	serviceId: string,
+	metadataHash: string
+): Promise<ParsedProto> {
+	const cacheKey = `${organizationId}/${serviceId}/${metadataHash}`;
+	const cached = protoCache.get(cacheKey);
+	if (cached) {
+		return cached;
+	}
+
+	const metadata = await ipfsClient.getServiceMetadata(metadataHash);
+	const modelHash = getModelIpfsHash(metadata);
+	if (!modelHash) {
+		throw new Error(`Service ${organizationId}/${serviceId} metadata has no model IPFS hash`);
+	}
+
+	const archive = await ipfsClient.getBytes(modelHash);
+	const proto = parseProtoArchive(archive);
+
+	protoCache.set(cacheKey, proto);
+	return proto;
+}
+
+/**
+ * Clear cached proto definitions
+ */
+export function clearProtoCache(): void {
+	protoCache.clear();
+}
@@ -6,6 +6,12 @@
  */
 
 import * as protobuf from 'protobufjs';
+import {
+	getWellKnownTypeSchema,
+	isWellKnownType,
+	wellKnownTypeFromJson,
+	wellKnownTypeToJson,
+} from './wellKnownTypes';
 
 /**
  * Service method definition
@@ -40,38 +46,180 @@ export interface ParsedProto {
  * Parse a proto file content
  */
 export function parseProtoContent(protoContent: string): ParsedProto {
-	const root = protobuf.parse(protoContent).root;
+	const parsed = protobuf.parse(protoContent, { keepCase: true });
+
+	// Make well-known types such as google.protobuf.Timestamp resolvable
+	(parsed.imports || []).forEach((importPath) => {
+		const common = protobuf.common.get(importPath);
+		if (common?.nested) {
+			parsed.root.addJSON(common.nested);
+		}
+	});
+
+	return buildParsedProto(parsed.root);
+}
+
+/**
+ * Parse a set of proto files that may import each other
+ *
+ * Files are keyed by their path inside the archive. Imports are matched
+ * by full path first and by file name second, since services publish
+ * archives with inconsistent directory layouts.
+ */
+export function parseProtoFiles(files: Record<string, string>): ParsedProto {
+	const paths = Object.keys(files);
+	if (paths.length === 0) {
+		throw new Error('No .proto files found');
+	}
+
+	const findFile = (importPath: string): string | undefined =>
+		paths.find((path) => path === importPath || path.endsWith(`/${importPath}`)) ||
+		paths.find((path) => path.split('/').pop() === importPath.split('/').pop());
+
+	const root = new protobuf.Root();
+	const parsed = new Set<string>();
+	const inProgress = new Set<string>();
+	// Well-known types are added once, however many files import them
+	const commonImports = new Set<string>();
+
+	// Parse imported files before the files that depend on them
+	const parseFile = (path: string): void => {
+		if (parsed.has(path) || inProgress.has(path)) return;
+		inProgress.add(path);
+
+		const imports = protobuf.parse(files[path], new protobuf.Root(), { keepCase: true }).imports || [];
+		imports.forEach((importPath) => {
+			const common = protobuf.common.get(importPath);
+			if (common?.nested) {
+				if (!commonImports.has(importPath)) {
+					root.addJSON(common.nested);
+					commonImports.add(importPath);
+				}
+				return;
+			}
+
+			const dependency = findFile(importPath);
+			if (!dependency) {
+				throw new Error(`Import '${importPath}' of '${path}' not found`);
+			}
+			parseFile(dependency);
+		});
+
+		protobuf.parse(files[path], root, { keepCase: true });
+		inProgress.delete(path);
+		parsed.add(path);
+	};
+
+	paths.forEach(parseFile);
+
+	return buildParsedProto(root);
+}
+
+/**
+ * Collect services and messages from a protobuf root
+ */
+function buildParsedProto(root: protobuf.Root): ParsedProto {
+	// Resolve type references and field features (e.g. required) up front
+	root.resolveAll();
+
 	const services: ServiceDefinition[] = [];
 	const messages: string[] = [];
 
-	// Extract services
-	root.nestedArray.forEach((nested) => {
-		if (nested instanceof protobuf.Service) {
-			const service: ServiceDefinition = {
-				name: nested.name,
-				package: nested.parent?.fullName?.replace(/^\./, '') || '',
-				methods: [],
-			};
-
-			nested.methodsArray.forEach((method) => {
-				service.methods.push({
-					name: method.name,
-					inputType: method.requestType,
-					outputType: method.responseType,
-					clientStreaming: method.requestStream || false,
-					serverStreaming: method.responseStream || false,
+	const collect = (namespace: protobuf.NamespaceBase): void => {
+		namespace.nestedArray.forEach((nested) => {
+			if (nested instanceof protobuf.Service) {
+				const service: ServiceDefinition = {
+					name: nested.name,
+					package: nested.parent?.fullName?.replace(/^\./, '') || '',
+					methods: [],
+				};
+
+				nested.methodsArray.forEach((method) => {
+					service.methods.push({
+						name: method.name,
+						inputType: resolveTypeName(method, method.requestType, 'request'),
+						outputType: resolveTypeName(method, method.responseType, 'response'),
+						clientStreaming: method.requestStream || false,
+						serverStreaming: method.responseStream || false,
+					});
 				});
-			});
 
-			services.push(service);
-		} else if (nested instanceof protobuf.Type) {
-			messages.push(nested.fullName);
-		}
-	});
+				services.push(service);
+			} else if (nested instanceof protobuf.Type) {
+				messages.push(nested.fullName.replace(/^\./, ''));
+				collect(nested);
+			} else if (nested instanceof protobuf.Namespace) {
+				collect(nested);
+			}
+		});
+	};
+
+	collect(root);
 
 	return { root, services, messages };
 }
 
+/**
+ * Resolve a method's request or response type to its fully-qualified name
+ */
+function resolveTypeName(
+	method: protobuf.Method,
+	typeName: string,
+	kind: 'request' | 'response'
+): string {
+	try {
+		method.resolve();
+		const resolved = kind === 'request' ? method.resolvedRequestType : method.resolvedResponseType;
+		return resolved ? resolved.fullName.replace(/^\./, '') : typeName;
+	} catch {
+		return typeName;
+	}
+}
+
+/**
+ * Find a method by its gRPC path
+ *
+ * Accepts "/package.Service/Method", "package.Service/Method" or
+ * "Service/Method" when the service name is unique.
+ */
+export function findServiceMethod(
+	proto: ParsedProto,
+	methodPath: string
+): { service: ServiceDefinition; method: ServiceMethod } | null {
+	const [servicePath, methodName] = methodPath.replace(/^\//, '').split('/');
+	if (!servicePath || !methodName) return null;
+
+	const service = proto.services.find(
+		(s) => (s.package ? `${s.package}.${s.name}` : s.name) === servicePath
+	) || proto.services.find((s) => s.name === servicePath);
+	if (!service) return null;
+
+	const method = service.methods.find((m) => m.name === methodName);
+	return method ? { service, method } : null;
+}
+
+/**
+ * Build the gRPC request path for a service method
+ */
+export function getMethodPath(service: ServiceDefinition, method: ServiceMethod): string {
+	const serviceName = service.package ? `${service.package}.${service.name}` : service.name;
+	return `/${serviceName}/${method.name}`;
+}
+
+/**
+ * Resolve a method for invocation, failing if it is not defined
+ */
+export function resolveGrpcMethod(
+	proto: ParsedProto,
+	methodPath: string
+): { path: string; method: ServiceMethod } {
+	const resolved = findServiceMethod(proto, methodPath);
+	if (!resolved) {
+		throw new Error(`Method '${methodPath}' not found in the service proto definitions`);
+	}
+	return { path: getMethodPath(resolved.service, resolved.method), method: resolved.method };
+}
+
 /**
  * Load proto from URL (IPFS or HTTP)
  */
@@ -122,25 +270,37 @@ export function getMethodOutputSchema(
 
 /**
  * Extract schema from protobuf message type
+ *
+ * Nested messages are inlined. A message that contains itself is cut off
+ * at the first repetition so recursive types still produce a finite schema.
  */
-function extractMessageSchema(messageType: protobuf.Type): Record<string, unknown> {
-	const schema: Record<string, unknown> = {
-		type: 'object',
-		properties: {} as Record<string, unknown>,
-		required: [] as string[],
-	};
+function extractMessageSchema(
+	messageType: protobuf.Type,
+	seen: Set<string> = new Set()
+): Record<string, unknown> {
+	const wellKnown = getWellKnownTypeSchema(messageType.fullName);
+	if (wellKnown) return wellKnown;
+
+	const typeName = messageType.fullName.replace(/^\./, '');
+	if (seen.has(typeName)) {
+		return { type: 'object', description: `Recursive ${typeName} message` };
+	}
+	const path = new Set(seen).add(typeName);
 
-	const properties = schema.properties as Record<string, unknown>;
-	const required = schema.required as string[];
+	const properties: Record<string, unknown> = {};
+	const required: string[] = [];
 
 	messageType.fieldsArray.forEach((field) => {
-		const fieldSchema: Record<string, unknown> = {
-			type: protoTypeToJsonType(field.type),
-		};
+		let fieldSchema = extractFieldTypeSchema(field, path);
 
-		if (field.repeated) {
-			fieldSchema.type = 'array';
-			fieldSchema.items = { type: protoTypeToJsonType(field.type) };
+		if (field instanceof protobuf.MapField) {
+			fieldSchema = {
+				type: 'object',
+				propertyNames: mapKeySchema(field.keyType),
+				additionalProperties: fieldSchema,
+			};
+		} else if (field.repeated) {
+			fieldSchema = { type: 'array', items: fieldSchema };
 		}
 
 		if (field.comment) {
@@ -154,32 +314,97 @@ function extractMessageSchema(messageType: protobuf.Type): Record<string, unknow
 		}
 	});
 
+	const schema: Record<string, unknown> = {
+		type: 'object',
+		properties,
+		required,
+	};
+
+	// At most one field of each oneof may be set. Proto3 optional fields are
+	// modelled as single-field oneofs and are skipped.
+	const oneofs = messageType.oneofsArray
+		.filter((oneof) => !oneof.fieldsArray.every((field) => field.options?.proto3_optional))
+		.map((oneof) => ({
+			oneOf: [
+				...oneof.oneof.map((name) => ({ required: [name] })),
+				{ not: { anyOf: oneof.oneof.map((name) => ({ required: [name] })) } },
+			],
+		}));
+	if (oneofs.length === 1) {
+		schema.oneOf = oneofs[0].oneOf;
+	} else if (oneofs.length > 1) {
+		schema.allOf = oneofs;
+	}
+
 	return schema;
 }
 
 /**
- * Convert proto type to JSON Schema type
+ * Get the schema of a single value of a field
  */
-function protoTypeToJsonType(protoType: string): string {
-	const typeMap: Record<string, string> = {
-		double: 'number',
-		float: 'number',
-		int32: 'integer',
-		int64: 'integer',
-		uint32: 'integer',
-		uint64: 'integer',
-		sint32: 'integer',
-		sint64: 'integer',
-		fixed32: 'integer',
-		fixed64: 'integer',
-		sfixed32: 'integer',
-		sfixed64: 'integer',
-		bool: 'boolean',
-		string: 'string',
-		bytes: 'string', // Base64 encoded
-	};
+function extractFieldTypeSchema(field: protobuf.Field, seen: Set<string>): Record<string, unknown> {
+	const resolved = field.resolve().resolvedType;
+
+	if (resolved) {
+		const wellKnown = getWellKnownTypeSchema(resolved.fullName);
+		if (wellKnown) return wellKnown;
+	}
+	if (resolved instanceof protobuf.Enum) {
+		return { type: 'string', enum: Object.keys(resolved.values) };
+	}
+	if (resolved instanceof protobuf.Type) {
+		return extractMessageSchema(resolved, seen);
+	}
+	return scalarTypeSchema(field.type);
+}
+
+/**
+ * Get the schema of map keys, which are always strings in JSON
+ */
+function mapKeySchema(keyType: string): Record<string, unknown> {
+	if (keyType === 'bool') {
+		return { enum: ['true', 'false'] };
+	}
+	if (keyType !== 'string') {
+		return { pattern: '^-?\\d+$' };
+	}
+	return {};
+}
 
-	return typeMap[protoType] || 'object';
+/**
+ * Convert a proto scalar type to a JSON Schema
+ *
+ * 64-bit integers are strings in the proto3 JSON mapping, since they do
+ * not fit in a JavaScript number.
+ */
+function scalarTypeSchema(protoType: string): Record<string, unknown> {
+	switch (protoType) {
+		case 'double':
+		case 'float':
+			return { type: 'number', format: protoType };
+		case 'int32':
+		case 'sint32':
+		case 'sfixed32':
+			return { type: 'integer', format: 'int32' };
+		case 'uint32':
+		case 'fixed32':
+			return { type: 'integer', format: 'uint32', minimum: 0 };
+		case 'int64':
+		case 'sint64':
+		case 'sfixed64':
+			return { type: 'string', format: 'int64', pattern: '^-?\\d+$' };
+		case 'uint64':
+		case 'fixed64':
+			return { type: 'string', format: 'uint64', pattern: '^\\d+$' };
+		case 'bool':
+			return { type: 'boolean' };
+		case 'string':
+			return { type: 'string' };
+		case 'bytes':
+			return { type: 'string', contentEncoding: 'base64' };
+		default:
+			return { type: 'object' };
+	}
 }
 
 /**
@@ -191,12 +416,92 @@ export function encodeMessage(
 	data: Record<string, unknown>
 ): Uint8Array {
 	const messageType = proto.root.lookupType(messageTypeName);
-	const errMsg = messageType.verify(data);
-	if (errMsg) {
-		throw new Error(`Invalid message: ${errMsg}`);
+	const { input, error } = verifyMessageInput(messageType, data);
+	if (error) {
+		throw new Error(`Invalid message: ${error}`);
 	}
-	const message = messageType.create(data);
-	return messageType.encode(message).finish();
+	return messageType.encode(messageType.fromObject(input)).finish();
+}
+
+/**
+ * Verify the JSON input of a message
+ *
+ * fromObject coerces any value to the field type and drops unknown fields,
+ * so the input is verified before it is converted. The JSON forms that the
+ * schemas describe (enum names, integer strings, NaN and Infinity strings)
+ * and the well-known types are converted to their object forms first.
+ */
+function verifyMessageInput(
+	messageType: protobuf.Type,
+	data: Record<string, unknown>
+): { input: Record<string, unknown>; error: string | null } {
+	const errors: string[] = [];
+	const input = convertJsonValues(
+		messageType,
+		convertWellKnownTypes(messageType, data, wellKnownTypeFromJson),
+		errors
+	);
+	return { input, error: errors[0] ?? messageType.verify(input) };
+}
+
+const INT32_TYPES = ['int32', 'uint32', 'sint32', 'fixed32', 'sfixed32'];
+
+/**
+ * Convert the JSON forms of scalar and enum values of a message tree and
+ * report unknown fields
+ */
+function convertJsonValues(
+	messageType: protobuf.Type,
+	data: Record<string, unknown>,
+	errors: string[],
+	path = ''
+): Record<string, unknown> {
+	const result: Record<string, unknown> = { ...data };
+
+	Object.keys(data).forEach((key) => {
+		if (!Object.prototype.hasOwnProperty.call(messageType.fields, key)) {
+			errors.push(`${path}${key}: unknown field`);
+		}
+	});
+
+	messageType.fieldsArray.forEach((field) => {
+		const resolved = field.resolve().resolvedType;
+		const value = result[field.name];
+		if (value === undefined || value === null) return;
+
+		const convertValue = (item: unknown): unknown => {
+			if (resolved instanceof protobuf.Type) {
+				return typeof item === 'object' && item !== null && !Array.isArray(item)
+					? convertJsonValues(resolved, item as Record<string, unknown>, errors, `${path}${field.name}.`)
+					: item;
+			}
+			if (typeof item !== 'string') return item;
+			if (resolved instanceof protobuf.Enum) {
+				return Object.prototype.hasOwnProperty.call(resolved.values, item) ? resolved.values[item] : item;
+			}
+			if (/^-?\d+$/.test(item)) {
+				if (field.type in protobuf.types.long) {
+					return protobuf.util.LongBits.from(item).toLong(field.type.startsWith('u') || field.type === 'fixed64');
+				}
+				if (INT32_TYPES.includes(field.type)) return Number(item);
+			}
+			if ((field.type === 'double' || field.type === 'float') && /^-?Infinity$|^NaN$/.test(item)) {
+				return Number(item);
+			}
+			return item;
+		};
+
+		if (field.map && typeof value === 'object') {
+			const entries = Object.entries(value as Record<string, unknown>);
+			result[field.name] = Object.fromEntries(entries.map(([k, v]) => [k, convertValue(v)]));
+		} else if (field.repeated && Array.isArray(value)) {
+			result[field.name] = value.map(convertValue);
+		} else {
+			result[field.name] = convertValue(value);
+		}
+	});
+
+	return result;
 }
 
 /**
@@ -209,12 +514,61 @@ export function decodeMessage(
 ): Record<string, unknown> {
 	const messageType = proto.root.lookupType(messageTypeName);
 	const message = messageType.decode(buffer);
-	return messageType.toObject(message, {
+	const object = messageType.toObject(message, {
 		longs: String,
 		enums: String,
 		bytes: String, // Base64
 		defaults: true,
+		json: true,
 	});
+	return convertWellKnownTypes(messageType, object, wellKnownTypeToJson);
+}
+
+/**
+ * Convert the well-known type fields of a message tree
+ *
+ * Walks nested messages, repeated fields and map values and applies the
+ * conversion to every well-known type value. A null well-known type is
+ * left unset, except for google.protobuf.Value where null is a value.
+ */
+function convertWellKnownTypes(
+	messageType: protobuf.Type,
+	data: Record<string, unknown>,
+	convert: (fullName: string, value: unknown) => unknown
+): Record<string, unknown> {
+	const result: Record<string, unknown> = { ...data };
+
+	messageType.fieldsArray.forEach((field) => {
+		const resolved = field.resolve().resolvedType;
+		const value = result[field.name];
+		if (!(resolved instanceof protobuf.Type) || value === undefined) return;
+
+		const wellKnown = isWellKnownType(resolved.fullName);
+		if (value === null) {
+			if (wellKnown && resolved.fullName === '.google.protobuf.Value') {
+				result[field.name] = convert(resolved.fullName, value);
+			}
+			return;
+		}
+
+		const convertValue = (item: unknown): unknown => {
+			if (wellKnown) return convert(resolved.fullName, item);
+			return typeof item === 'object' && item !== null
+				? convertWellKnownTypes(resolved, item as Record<string, unknown>, convert)
+				: item;
+		};
+
+		if (field.map && typeof value === 'object') {
+			const entries = Object.entries(value as Record<string, unknown>);
+			result[field.name] = Object.fromEntries(entries.map(([k, v]) => [k, convertValue(v)]));
+		} else if (field.repeated && Array.isArray(value)) {
+			result[field.name] = value.map(convertValue);
+		} else {
+			result[field.name] = convertValue(value);
+		}
+	});
+
+	return result;
 }
 
 /**
@@ -294,9 +648,9 @@ export function validateMethodInput(
 
 	try {
 		const messageType = proto.root.lookupType(method.inputType);
-		const errMsg = messageType.verify(input);
-		if (errMsg) {
-			errors.push(errMsg);
+		const { error } = verifyMessageInput(messageType, input);
+		if (error) {
+			errors.push(error);
 		}
 	} catch (err) {
 		errors.push(`Failed to validate input: ${err}`);
@@ -0,0 +1,201 @@
+/**
+ * Result Cache
+ *
+ * Keeps the outputs of service calls so repeated calls with the same
+ * input are answered without paying again. Entries are keyed by
+ * organization, service, method and a hash of the encoded request, and
+ * expire after a TTL.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { withProcessLock } from './channelStateStore';
+
+/**
+ * Cached result of a service call
+ */
+export interface CachedResult {
+	output: Record<string, unknown>;
+	groupName?: string;
+	endpoint?: string;
+	cachedAt: string;
+	expiresAt: number;
+}
+
+/**
+ * Result of a service call to cache
+ */
+export type ResultToCache = Omit<CachedResult, 'cachedAt' | 'expiresAt'>;
+
+/**
+ * Where results are cached
+ */
+export type ResultCacheBackend = 'memory' | 'file';
+
+/**
+ * Result cache interface
+ */
+export interface ResultCache {
+	get(key: string): Promise<CachedResult | null>;
+	set(key: string, result: ResultToCache, ttl: number): Promise<void>;
+}
+
+/**
+ * Default file used by the local file backend
+ */
+export const DEFAULT_RESULT_CACHE_FILE = path.join(
+	os.homedir(),
+	'.n8n',
+	'singularitynet-result-cache.json'
+);
+
+/**
+ * Most entries kept by the in-memory backend
+ */
+const MAX_MEMORY_ENTRIES = 1000;
+
+/**
+ * Results cached in memory, shared by all executions of the process
+ */
+const memoryResults: Map<string, CachedResult> = new Map();
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal values
+ * always give the same string
+ */
+export function canonicalJson(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map((item) => canonicalJson(item)).join(',')}]`;
+	}
+	if (value && typeof value === 'object') {
+		const record = value as Record<string, unknown>;
+		const entries = Object.keys(record)
+			.filter((key) => record[key] !== undefined)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+		return `{${entries.join(',')}}`;
+	}
+	return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Build the cache key of a service call
+ *
+ * The request is hashed as its encoded protobuf bytes when available,
+ * otherwise as canonical JSON.
+ */
+export function getResultCacheKey(
+	organizationId: string,
+	serviceId: string,
+	method: string,
+	request: Uint8Array | Record<string, unknown>
+): string {
+	const hash = createHash('sha256');
+	hash.update(JSON.stringify([organizationId, serviceId, method.replace(/^\//, '')]));
+	hash.update(request instanceof Uint8Array ? request : canonicalJson(request));
+	return hash.digest('hex');
+}
+
+/**
+ * Build a cache entry from a result and TTL in seconds
+ */
+function toEntry(result: ResultToCache, ttl: number): CachedResult {
+	return { ...result, cachedAt: new Date().toISOString(), expiresAt: Date.now() + ttl * 1000 };
+}
+
+/**
+ * Check if a cache entry has expired
+ */
+function isExpired(entry: CachedResult): boolean {
+	return entry.expiresAt <= Date.now();
+}
+
+/**
+ * In-memory cache, shared by all executions of the process
+ *
+ * The oldest entries are dropped once the cache is full.
+ */
+export class MemoryResultCache implements ResultCache {
+	async get(key: string): Promise<CachedResult | null> {
+		const entry = memoryResults.get(key);
+		if (!entry) return null;
+		if (isExpired(entry)) {
+			memoryResults.delete(key);
+			return null;
+		}
+		return entry;
+	}
+
+	async set(key: string, result: ResultToCache, ttl: number): Promise<void> {
+		memoryResults.delete(key);
+		memoryResults.set(key, toEntry(result, ttl));
+		while (memoryResults.size > MAX_MEMORY_ENTRIES) {
+			memoryResults.delete(memoryResults.keys().next().value as string);
+		}
+	}
+}
+
+/**
+ * Cache backed by a local JSON file
+ *
+ * Shares results with every workflow and process on the same machine
+ * that uses the same file. Expired entries are dropped on each write.
+ */
+export class FileResultCache implements ResultCache {
+	private filePath: string;
+
+	constructor(filePath: string = DEFAULT_RESULT_CACHE_FILE) {
+		this.filePath = filePath;
+	}
+
+	private async readEntries(): Promise<Record<string, CachedResult>> {
+		try {
+			return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return {};
+			}
+			throw new Error(
+				`Failed to read result cache file ${this.filePath}: ${(error as Error).message}`
+			);
+		}
+	}
+
+	async get(key: string): Promise<CachedResult | null> {
+		const entry = (await this.readEntries())[key];
+		return entry && !isExpired(entry) ? entry : null;
+	}
+
+	async set(key: string, result: ResultToCache, ttl: number): Promise<void> {
+		await withProcessLock(this.filePath, async () => {
+			const entries = await this.readEntries();
+			Object.keys(entries).forEach((entryKey) => {
+				if (isExpired(entries[entryKey])) delete entries[entryKey];
+			});
+			entries[key] = toEntry(result, ttl);
+
+			// Write to a temporary file first so readers never see a partial file
+			const tempPath = `${this.filePath}.${process.pid}.tmp`;
+			await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+			await fs.writeFile(tempPath, JSON.stringify(entries));
+			await fs.rename(tempPath, this.filePath);
+		});
+	}
+}
+
+/**
+ * Create a result cache for a backend
+ */
+export function createResultCache(
+	backend: ResultCacheBackend,
+	options: { filePath?: string } = {}
+): ResultCache {
+	switch (backend) {
+		case 'file':
+			return new FileResultCache(options.filePath || undefined);
+		default:
+			return new MemoryResultCache();
+	}
+}
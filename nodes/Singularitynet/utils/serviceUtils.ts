@@ -139,23 +139,56 @@ export function getDefaultPricing(group: ServiceGroup): PricingInfo | null {
 
 /**
  * Get price for a specific method
+ *
+ * The service name may be package-qualified, as in gRPC method paths.
  */
 export function getMethodPrice(
-	group: ServiceGroup,
+	group: Pick<ServiceGroup, 'pricing'>,
 	serviceName: string,
 	methodName: string
 ): string {
-	const pricing = getDefaultPricing(group);
+	const pricing = getDefaultPricing(group as ServiceGroup);
 	if (!pricing) return '0';
 
 	if (pricing.priceModel === 'method_price' && pricing.details) {
 		const methodPricing = pricing.details.find(
-			(d) => d.serviceName === serviceName && d.methodName === methodName
+			(d) =>
+				(d.serviceName === serviceName || serviceName.endsWith(`.${d.serviceName}`)) &&
+				d.methodName === methodName
 		);
 		if (methodPricing) return methodPricing.priceInCogs;
 	}
 
-	return pricing.priceInCogs;
+	return pricing.priceInCogs || '0';
+}
+
+/**
+ * Parse pricing in the snake_case form of service metadata and the
+ * marketplace API
+ *
+ * Method prices are listed per service there and are flattened here.
+ */
+export function parsePricing(pricing: Array<Record<string, any>> = []): PricingInfo[] {
+	return pricing.map((entry) => ({
+		default: !!entry.default,
+		priceModel: entry.price_model === 'method_price' ? 'method_price' : 'fixed_price',
+		priceInCogs: String(entry.price_in_cogs ?? '0'),
+		details: ((entry.details || []) as Array<Record<string, any>>).flatMap((service) =>
+			((service.method_pricing || []) as Array<Record<string, any>>).map((method) => ({
+				serviceName: String(service.service_name),
+				methodName: String(method.method_name),
+				priceInCogs: String(method.price_in_cogs ?? '0'),
+			}))
+		),
+	}));
+}
+
+/**
+ * Split a gRPC method path such as /pkg.Service/Method
+ */
+export function parseMethodPath(methodPath: string): { serviceName: string; methodName: string } {
+	const [serviceName = '', methodName = ''] = methodPath.replace(/^\//, '').split('/');
+	return { serviceName, methodName };
 }
 
 /**
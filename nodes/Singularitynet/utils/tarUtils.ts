@@ -0,0 +1,110 @@
+/**
+ * Tar Utilities
+ *
+ * Minimal reader for the (optionally gzipped) tar archives that
+ * SingularityNET services publish their .proto files in.
+ */
+
+import { gunzipSync } from 'zlib';
+
+/**
+ * Tar block size
+ */
+const BLOCK_SIZE = 512;
+
+/**
+ * Archive entry
+ */
+export interface TarEntry {
+	name: string;
+	type: 'file' | 'directory' | 'other';
+	data: Buffer;
+}
+
+/**
+ * Check if a buffer is gzip compressed
+ */
+export function isGzip(buffer: Buffer): boolean {
+	return buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+}
+
+/**
+ * Read a NUL-terminated string field from a header
+ */
+function readString(header: Buffer, offset: number, length: number): string {
+	const field = header.subarray(offset, offset + length);
+	const end = field.indexOf(0);
+	return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+/**
+ * Read an octal number field from a header
+ */
+function readOctal(header: Buffer, offset: number, length: number): number {
+	const value = readString(header, offset, length).trim();
+	return value ? parseInt(value, 8) : 0;
+}
+
+/**
+ * Parse the path from a PAX extended header
+ */
+function readPaxPath(data: Buffer): string | null {
+	const match = data.toString('utf8').match(/^\d+ path=(.*)$/m);
+	return match ? match[1] : null;
+}
+
+/**
+ * Extract all entries from a tar or tar.gz archive
+ */
+export function extractTar(archive: Buffer): TarEntry[] {
+	const buffer = isGzip(archive) ? gunzipSync(archive) : archive;
+	const entries: TarEntry[] = [];
+	let offset = 0;
+	let longName: string | null = null;
+
+	while (offset + BLOCK_SIZE <= buffer.length) {
+		const header = buffer.subarray(offset, offset + BLOCK_SIZE);
+
+		// Two zero blocks mark the end of the archive
+		if (header.every((byte) => byte === 0)) {
+			break;
+		}
+
+		const size = readOctal(header, 124, 12);
+		const typeFlag = String.fromCharCode(header[156] || 0x30);
+		const dataStart = offset + BLOCK_SIZE;
+		const data = buffer.subarray(dataStart, dataStart + size);
+		offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+		// GNU long names and PAX headers describe the following entry
+		if (typeFlag === 'L') {
+			longName = readString(data, 0, data.length);
+			continue;
+		}
+		if (typeFlag === 'x') {
+			longName = readPaxPath(data) ?? longName;
+			continue;
+		}
+		if (typeFlag === 'g') {
+			continue;
+		}
+
+		let name = readString(header, 0, 100);
+		const prefix = readString(header, 345, 155);
+		if (prefix && readString(header, 257, 6).startsWith('ustar')) {
+			name = `${prefix}/${name}`;
+		}
+		if (longName) {
+			name = longName;
+			longName = null;
+		}
+
+		entries.push({
+			name: name.replace(/^\.\//, ''),
+			type: typeFlag === '0' ? 'file' : typeFlag === '5' ? 'directory' : 'other',
+			data,
+		});
+	}
+
+	return entries;
+}
@@ -0,0 +1,111 @@
+/**
+ * Transaction Options
+ *
+ * Turns the node's transaction options into the fee, gas and nonce
+ * settings of the Ethereum client, and formats the fees transactions
+ * paid for output.
+ */
+
+import { ethers } from 'ethers';
+import { NodeOperationError } from 'n8n-workflow';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import type { TransactionOptions, TransactionResult } from '../transport/ethereumClient';
+import { weiToEth } from './unitConverter';
+
+/**
+ * Transaction options as entered on the node, fees in gwei
+ */
+export interface TransactionOptionsParameter {
+	maxFeePerGas?: number;
+	maxPriorityFeePerGas?: number;
+	gasLimitMultiplier?: number;
+	nonce?: number;
+	waitForConfirmation?: 'none' | 'one' | 'multiple';
+	confirmations?: number;
+}
+
+/**
+ * Convert transaction options entered on the node to client settings
+ */
+export function parseTransactionOptions(parameter: TransactionOptionsParameter): TransactionOptions {
+	const options: TransactionOptions = {};
+
+	if (parameter.maxFeePerGas) {
+		options.maxFeePerGas = ethers.parseUnits(String(parameter.maxFeePerGas), 'gwei');
+	}
+	if (parameter.maxPriorityFeePerGas) {
+		options.maxPriorityFeePerGas = ethers.parseUnits(String(parameter.maxPriorityFeePerGas), 'gwei');
+	}
+	if (options.maxFeePerGas !== undefined && options.maxPriorityFeePerGas !== undefined) {
+		if (options.maxPriorityFeePerGas > options.maxFeePerGas) {
+			throw new Error('Max priority fee per gas cannot be higher than max fee per gas');
+		}
+	}
+	if (parameter.gasLimitMultiplier) {
+		if (parameter.gasLimitMultiplier < 1) {
+			throw new Error('Gas limit multiplier must be at least 1');
+		}
+		options.gasLimitMultiplier = parameter.gasLimitMultiplier;
+	}
+	if (parameter.nonce !== undefined && parameter.nonce !== null && parameter.nonce >= 0) {
+		options.nonce = Math.floor(parameter.nonce);
+	}
+	if (parameter.waitForConfirmation === 'none') {
+		options.confirmations = 0;
+	} else if (parameter.waitForConfirmation === 'multiple') {
+		options.confirmations = Math.max(1, Math.floor(parameter.confirmations ?? 1));
+	}
+
+	return options;
+}
+
+/**
+ * Get the transaction options of an item
+ *
+ * A nonce can only be set for a single input item, as every item would
+ * otherwise send its first transaction with the same nonce.
+ */
+export function getTransactionOptions(this: IExecuteFunctions, itemIndex: number): TransactionOptions {
+	const parameter = this.getNodeParameter('transactionOptions', itemIndex, {}) as TransactionOptionsParameter;
+	const options = parseTransactionOptions(parameter);
+	if (options.nonce !== undefined && this.getInputData().length > 1) {
+		throw new NodeOperationError(this.getNode(), 'A nonce can only be set for a single input item', {
+			itemIndex,
+		});
+	}
+	return options;
+}
+
+/**
+ * Format the status and fees paid of the transactions of an operation
+ *
+ * Gas and fees are summed over all transactions, such as an approval
+ * sent before a deposit. The status, nonce and gas price are those of
+ * the last. Fees are left out while it is pending.
+ */
+export function formatTransactionFees(
+	...results: Array<TransactionResult | null | undefined>
+): IDataObject {
+	const sent = results.filter((result): result is TransactionResult => !!result);
+	if (sent.length === 0) {
+		return {};
+	}
+
+	const last = sent[sent.length - 1];
+	if (last.status === 'pending') {
+		return { transactionStatus: last.status, nonce: last.nonce };
+	}
+
+	const gasUsed = sent.reduce((total, result) => total + (result.gasUsed ?? BigInt(0)), BigInt(0));
+	const fee = sent.reduce((total, result) => total + (result.fee ?? BigInt(0)), BigInt(0));
+
+	return {
+		transactionStatus: last.status,
+		nonce: last.nonce,
+		gasUsed: gasUsed.toString(),
+		effectiveGasPriceGwei:
+			last.effectiveGasPrice !== undefined ? ethers.formatUnits(last.effectiveGasPrice, 'gwei') : undefined,
+		feeWei: fee.toString(),
+		feeEth: weiToEth(fee),
+	};
+}
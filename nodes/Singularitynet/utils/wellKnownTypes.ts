@@ -0,0 +1,251 @@
+/**
+ * Protobuf Well-Known Types
+ *
+ * JSON Schemas and JSON conversions for the google.protobuf.* types,
+ * following the canonical proto3 JSON mapping: timestamps and durations
+ * are strings, wrapper types are their plain value and Struct/Value are
+ * arbitrary JSON. Conversions go between that JSON form and the plain
+ * object form protobufjs uses in fromObject/toObject.
+ */
+
+type PlainObject = { [key: string]: unknown };
+
+/**
+ * JSON Schemas of well-known types, keyed by fully-qualified name
+ */
+const WELL_KNOWN_TYPE_SCHEMAS: Record<string, Record<string, unknown>> = {
+	'google.protobuf.Timestamp': {
+		type: 'string',
+		format: 'date-time',
+		description: 'RFC 3339 timestamp, e.g. 2024-01-01T00:00:00Z',
+	},
+	'google.protobuf.Duration': {
+		type: 'string',
+		pattern: '^-?\\d+(\\.\\d{1,9})?s$',
+		description: 'Duration in seconds with an "s" suffix, e.g. 1.5s',
+	},
+	'google.protobuf.Struct': { type: 'object', additionalProperties: true },
+	'google.protobuf.Value': {},
+	'google.protobuf.ListValue': { type: 'array', items: {} },
+	'google.protobuf.NullValue': { type: 'null' },
+	'google.protobuf.Empty': { type: 'object', properties: {}, additionalProperties: false },
+	'google.protobuf.FieldMask': {
+		type: 'string',
+		description: 'Comma-separated field paths, e.g. user.name,user.email',
+	},
+	'google.protobuf.Any': {
+		type: 'object',
+		properties: { '@type': { type: 'string' } },
+		required: ['@type'],
+		additionalProperties: true,
+	},
+	'google.protobuf.DoubleValue': { type: ['number', 'null'], format: 'double' },
+	'google.protobuf.FloatValue': { type: ['number', 'null'], format: 'float' },
+	'google.protobuf.Int64Value': { type: ['integer', 'string', 'null'], format: 'int64' },
+	'google.protobuf.UInt64Value': { type: ['integer', 'string', 'null'], format: 'uint64' },
+	'google.protobuf.Int32Value': { type: ['integer', 'null'], format: 'int32' },
+	'google.protobuf.UInt32Value': { type: ['integer', 'null'], format: 'uint32' },
+	'google.protobuf.BoolValue': { type: ['boolean', 'null'] },
+	'google.protobuf.StringValue': { type: ['string', 'null'] },
+	'google.protobuf.BytesValue': { type: ['string', 'null'], contentEncoding: 'base64' },
+};
+
+/**
+ * Wrapper types, which map to their plain value
+ */
+const WRAPPER_TYPES = [
+	'DoubleValue',
+	'FloatValue',
+	'Int64Value',
+	'UInt64Value',
+	'Int32Value',
+	'UInt32Value',
+	'BoolValue',
+	'StringValue',
+	'BytesValue',
+];
+
+/**
+ * Get the JSON Schema of a well-known type, if the name is one
+ */
+export function getWellKnownTypeSchema(fullName: string): Record<string, unknown> | null {
+	const schema = WELL_KNOWN_TYPE_SCHEMAS[fullName.replace(/^\./, '')];
+	return schema ? JSON.parse(JSON.stringify(schema)) : null;
+}
+
+/**
+ * Check if a value is a plain object rather than a JSON-mapped scalar
+ */
+function isPlainObject(value: unknown): value is PlainObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse an RFC 3339 timestamp into seconds and nanos
+ */
+function parseTimestamp(value: string): PlainObject {
+	// A missing offset is read as UTC
+	const match = value.match(/^(.+?)(?:\.(\d{1,9}))?(Z|[+-]\d{2}:\d{2})?$/i);
+	const ms = match ? Date.parse(`${match[1]}${match[3] || 'Z'}`) : NaN;
+	if (!match || isNaN(ms)) {
+		throw new Error(`Invalid timestamp: ${value}`);
+	}
+	return {
+		seconds: Math.floor(ms / 1000),
+		nanos: Number((match[2] || '').padEnd(9, '0')),
+	};
+}
+
+/**
+ * Parse a duration such as "1.5s" into seconds and nanos
+ */
+function parseDuration(value: string): PlainObject {
+	const match = value.match(/^(-?)(\d+)(?:\.(\d{1,9}))?s$/);
+	if (!match) {
+		throw new Error(`Invalid duration: ${value}`);
+	}
+	const sign = match[1] ? -1 : 1;
+	return {
+		seconds: sign * Number(match[2]),
+		nanos: sign * Number((match[3] || '').padEnd(9, '0')),
+	};
+}
+
+/**
+ * Convert a number, string or Long to a number
+ */
+function toNumber(value: unknown): number {
+	return typeof value === 'number' ? value : Number(String(value ?? 0));
+}
+
+/**
+ * Format nanos as a fractional seconds suffix
+ */
+function formatNanos(nanos: number): string {
+	return nanos ? `.${String(Math.abs(nanos)).padStart(9, '0').replace(/0+$/, '')}` : '';
+}
+
+/**
+ * Convert arbitrary JSON to the google.protobuf.Value object form
+ */
+function jsonToValue(value: unknown): PlainObject {
+	if (value === null || value === undefined) return { nullValue: 'NULL_VALUE' };
+	switch (typeof value) {
+		case 'number':
+			return { numberValue: value };
+		case 'string':
+			return { stringValue: value };
+		case 'boolean':
+			return { boolValue: value };
+	}
+	if (Array.isArray(value)) {
+		return { listValue: { values: value.map(jsonToValue) } };
+	}
+	return { structValue: jsonToStruct(value as PlainObject) };
+}
+
+/**
+ * Convert a JSON object to the google.protobuf.Struct object form
+ */
+function jsonToStruct(value: PlainObject): PlainObject {
+	const fields: PlainObject = {};
+	Object.entries(value).forEach(([key, field]) => {
+		fields[key] = jsonToValue(field);
+	});
+	return { fields };
+}
+
+/**
+ * Convert the google.protobuf.Value object form to JSON
+ */
+function valueToJson(value: PlainObject): unknown {
+	if (value.numberValue !== undefined) return value.numberValue;
+	if (value.stringValue !== undefined) return value.stringValue;
+	if (value.boolValue !== undefined) return value.boolValue;
+	if (value.structValue !== undefined) return structToJson(value.structValue as PlainObject);
+	if (value.listValue !== undefined) {
+		return (((value.listValue as PlainObject).values || []) as PlainObject[]).map(valueToJson);
+	}
+	return null;
+}
+
+/**
+ * Convert the google.protobuf.Struct object form to JSON
+ */
+function structToJson(struct: PlainObject): PlainObject {
+	const json: PlainObject = {};
+	Object.entries((struct.fields || {}) as Record<string, PlainObject>).forEach(([key, value]) => {
+		json[key] = valueToJson(value);
+	});
+	return json;
+}
+
+/**
+ * Check if a type name is a well-known type with a special JSON form
+ */
+export function isWellKnownType(fullName: string): boolean {
+	const name = fullName.replace(/^\./, '');
+	return name in WELL_KNOWN_TYPE_SCHEMAS && name !== 'google.protobuf.Any' && name !== 'google.protobuf.Empty';
+}
+
+/**
+ * Convert the JSON form of a well-known type to the object form
+ *
+ * Values that are already in object form are returned unchanged, except
+ * for Struct, Value and ListValue whose JSON form is arbitrary.
+ */
+export function wellKnownTypeFromJson(fullName: string, value: unknown): unknown {
+	const name = fullName.replace(/^\./, '').replace('google.protobuf.', '');
+
+	switch (name) {
+		case 'Timestamp':
+			return typeof value === 'string' ? parseTimestamp(value) : value;
+		case 'Duration':
+			return typeof value === 'string' ? parseDuration(value) : value;
+		case 'FieldMask':
+			return typeof value === 'string' ? { paths: value ? value.split(',') : [] } : value;
+		case 'Struct':
+			return isPlainObject(value) ? jsonToStruct(value) : value;
+		case 'Value':
+			return jsonToValue(value);
+		case 'ListValue':
+			return Array.isArray(value) ? { values: value.map(jsonToValue) } : value;
+	}
+	if (WRAPPER_TYPES.includes(name)) {
+		return isPlainObject(value) ? value : { value };
+	}
+	return value;
+}
+
+/**
+ * Convert the object form of a well-known type to its JSON form
+ */
+export function wellKnownTypeToJson(fullName: string, object: unknown): unknown {
+	if (!isPlainObject(object)) return object;
+	const name = fullName.replace(/^\./, '').replace('google.protobuf.', '');
+
+	switch (name) {
+		case 'Timestamp': {
+			const iso = new Date(toNumber(object.seconds) * 1000).toISOString();
+			return iso.replace(/\.\d{3}Z$/, `${formatNanos(toNumber(object.nanos))}Z`);
+		}
+		case 'Duration': {
+			const seconds = toNumber(object.seconds);
+			const nanos = toNumber(object.nanos);
+			const sign = seconds < 0 || nanos < 0 ? '-' : '';
+			return `${sign}${Math.abs(seconds)}${formatNanos(nanos)}s`;
+		}
+		case 'FieldMask':
+			return ((object.paths || []) as string[]).join(',');
+		case 'Struct':
+			return structToJson(object);
+		case 'Value':
+			return valueToJson(object);
+		case 'ListValue':
+			return ((object.values || []) as PlainObject[]).map(valueToJson);
+	}
+	if (WRAPPER_TYPES.includes(name)) {
+		return object.value ?? null;
+	}
+	return object;
+}
@@ -0,0 +1,62 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	collectBytesFields,
+	detectMimeType,
+	setFieldValue,
+} from '../../nodes/Singularitynet/utils/binaryUtils';
+import { parseProtoContent } from '../../nodes/Singularitynet/utils/protobufUtils';
+
+describe('Binary Utils', () => {
+	describe('MIME type detection', () => {
+		test('detects common file signatures', () => {
+			const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]);
+			expect(detectMimeType(png)).toEqual({ mimeType: 'image/png', extension: 'png' });
+			expect(detectMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0])).mimeType).toBe('image/jpeg');
+			expect(detectMimeType(Buffer.from('RIFF\0\0\0\0WAVEfmt ', 'latin1')).mimeType).toBe(
+				'audio/wav',
+			);
+		});
+
+		test('falls back to text, JSON or octet-stream', () => {
+			expect(detectMimeType(Buffer.from('{"a":1}')).mimeType).toBe('application/json');
+			expect(detectMimeType(Buffer.from('hello world')).mimeType).toBe('text/plain');
+			expect(detectMimeType(Buffer.from([0x00, 0x01, 0x02, 0x03])).mimeType).toBe(
+				'application/octet-stream',
+			);
+		});
+	});
+
+	describe('Bytes fields', () => {
+		const proto = parseProtoContent(`
+			syntax = "proto3";
+			message Frame { bytes data = 1; }
+			message Output { bytes image = 1; repeated Frame frames = 2; string caption = 3; }
+		`);
+
+		test('collects nested and repeated bytes fields', () => {
+			const fields = collectBytesFields(proto, 'Output', {
+				image: Buffer.from('img').toString('base64'),
+				frames: [{ data: Buffer.from('f0').toString('base64') }, { data: '' }],
+				caption: 'text',
+			});
+
+			expect(fields.map((f) => [f.path, f.data.toString()])).toEqual([
+				['image', 'img'],
+				['frames.0.data', 'f0'],
+			]);
+		});
+
+		test('sets values at nested paths', () => {
+			const message: Record<string, unknown> = {};
+			setFieldValue(message, 'request.image', 'abc');
+			setFieldValue(message, 'frames.0.data', 'def');
+			expect(message).toEqual({ request: { image: 'abc' }, frames: [{ data: 'def' }] });
+		});
+	});
+});
@@ -0,0 +1,124 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ChannelOpenEvent, indexChannelEvents } from '../../nodes/Singularitynet/utils/channelIndex';
+
+const SENDER = '0x1111111111111111111111111111111111111111';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+const GROUP_ID = `0x${'ab'.repeat(32)}`;
+
+function openEvent(overrides: Partial<ChannelOpenEvent> = {}): ChannelOpenEvent {
+	return {
+		type: 'open',
+		channelId: 1,
+		blockNumber: 100,
+		logIndex: 0,
+		transactionHash: '0xopen',
+		nonce: 0,
+		sender: SENDER,
+		signer: SENDER,
+		recipient: RECIPIENT,
+		groupId: GROUP_ID,
+		amount: BigInt(1000),
+		expiration: 5000,
+		...overrides,
+	};
+}
+
+describe('Channel Index', () => {
+	test('rebuilds a channel from its open event', () => {
+		const [channel] = indexChannelEvents([openEvent()], 200);
+
+		expect(channel).toMatchObject({
+			channelId: 1,
+			nonce: 0,
+			value: BigInt(1000),
+			expiration: 5000,
+			expired: false,
+			openedAtBlock: 100,
+			totalFunded: BigInt(1000),
+			totalClaimed: BigInt(0),
+		});
+	});
+
+	test('applies funds, extensions and claims in block order', () => {
+		const channels = indexChannelEvents(
+			[
+				{ type: 'extend', channelId: 1, blockNumber: 300, logIndex: 0, transactionHash: '0x3', expiration: 9000 },
+				{
+					type: 'claim',
+					channelId: 1,
+					blockNumber: 250,
+					logIndex: 1,
+					transactionHash: '0x2',
+					nonce: 0,
+					claimAmount: BigInt(300),
+					sendBackAmount: BigInt(0),
+				},
+				{ type: 'addFunds', channelId: 1, blockNumber: 250, logIndex: 0, transactionHash: '0x1', amount: BigInt(500) },
+				openEvent(),
+			],
+			6000
+		);
+
+		expect(channels).toHaveLength(1);
+		expect(channels[0]).toMatchObject({
+			nonce: 1,
+			value: BigInt(1200),
+			expiration: 9000,
+			expired: false,
+			lastActivityBlock: 300,
+			totalFunded: BigInt(1500),
+			totalClaimed: BigInt(300),
+			claimCount: 1,
+		});
+	});
+
+	test('empties a channel when the rest is sent back or reclaimed', () => {
+		const channels = indexChannelEvents(
+			[
+				openEvent(),
+				openEvent({ channelId: 2, blockNumber: 110 }),
+				{
+					type: 'claim',
+					channelId: 1,
+					blockNumber: 200,
+					logIndex: 0,
+					transactionHash: '0x1',
+					nonce: 0,
+					claimAmount: BigInt(400),
+					sendBackAmount: BigInt(600),
+				},
+				{
+					type: 'senderClaim',
+					channelId: 2,
+					blockNumber: 6000,
+					logIndex: 0,
+					transactionHash: '0x2',
+					nonce: 0,
+					claimAmount: BigInt(1000),
+				},
+			],
+			7000
+		);
+
+		expect(channels.map((channel) => [channel.channelId, channel.value, channel.nonce])).toEqual([
+			[1, BigInt(0), 1],
+			[2, BigInt(0), 1],
+		]);
+		expect(channels.every((channel) => channel.expired)).toBe(true);
+	});
+
+	test('ignores events of channels that were not found', () => {
+		const channels = indexChannelEvents(
+			[{ type: 'addFunds', channelId: 7, blockNumber: 100, logIndex: 0, transactionHash: '0x1', amount: BigInt(5) }],
+			200
+		);
+
+		expect(channels).toEqual([]);
+	});
+});
@@ -0,0 +1,139 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ChannelManager } from '../../nodes/Singularitynet/transport/channelManager';
+import { ChannelInfo, EthereumClient } from '../../nodes/Singularitynet/transport/ethereumClient';
+
+const WALLET = '0x1111111111111111111111111111111111111111';
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+const GROUP_ID = `0x${'ab'.repeat(32)}`;
+
+function createChannel(overrides: Partial<ChannelInfo> = {}): ChannelInfo {
+	return {
+		channelId: 1,
+		nonce: 0,
+		sender: WALLET,
+		signer: WALLET,
+		recipient: RECIPIENT,
+		groupId: GROUP_ID,
+		value: BigInt(1000),
+		expiration: 20000,
+		...overrides,
+	};
+}
+
+function createEthClient(channels: ChannelInfo[] = []) {
+	const transaction = { hash: '0xhash', status: 'success' };
+	const client = {
+		getAddress: jest.fn().mockReturnValue(WALLET),
+		getCurrentBlock: jest.fn().mockResolvedValue(10000),
+		getEscrowBalance: jest.fn().mockResolvedValue(BigInt(1000000)),
+		findChannels: jest.fn().mockResolvedValue(channels),
+		openChannel: jest.fn().mockResolvedValue({ channelId: 9, tx: transaction }),
+		addFundsToChannel: jest.fn().mockResolvedValue(transaction),
+		extendChannel: jest.fn().mockResolvedValue(transaction),
+		extendAndAddFundsToChannel: jest.fn().mockResolvedValue(transaction),
+	};
+	return client;
+}
+
+describe('Channel Manager', () => {
+	test('finds the latest channel the wallet can sign for', async () => {
+		const client = createEthClient([
+			createChannel({ channelId: 1 }),
+			createChannel({ channelId: 3, signer: RECIPIENT }),
+			createChannel({ channelId: 2 }),
+		]);
+		const manager = new ChannelManager(client as unknown as EthereumClient);
+
+		const channel = await manager.findChannel(RECIPIENT, GROUP_ID);
+		expect(channel?.channelId).toBe(2);
+		expect(client.findChannels).toHaveBeenCalledWith(WALLET, RECIPIENT, GROUP_ID);
+	});
+
+	test('leaves a funded channel far from expiry unchanged', async () => {
+		const client = createEthClient();
+		const manager = new ChannelManager(client as unknown as EthereumClient);
+
+		const managed = await manager.ensureChannel(createChannel(), BigInt(500), BigInt(100));
+		expect(managed.action).toBeUndefined();
+		expect(client.addFundsToChannel).not.toHaveBeenCalled();
+	});
+
+	test('can pay only from a funded channel far from expiry', async () => {
+		const manager = new ChannelManager(createEthClient() as unknown as EthereumClient);
+
+		expect(await manager.canPay(createChannel(), BigInt(100), BigInt(100))).toBe(true);
+		expect(await manager.canPay(createChannel(), BigInt(50), BigInt(100))).toBe(false);
+		expect(await manager.canPay(createChannel({ expiration: 10000 }), BigInt(500), BigInt(100))).toBe(false);
+	});
+
+	test('tops up a channel below the minimum balance', async () => {
+		const client = createEthClient();
+		const manager = new ChannelManager(client as unknown as EthereumClient, {
+			minBalance: BigInt(200),
+		});
+
+		const managed = await manager.ensureChannel(createChannel(), BigInt(250), BigInt(100));
+		expect(managed.action).toBe('addFunds');
+		expect(client.addFundsToChannel).toHaveBeenCalledWith(1, BigInt(50));
+		expect(managed.channel.value).toBe(BigInt(1050));
+	});
+
+	test('extends and tops up in one transaction', async () => {
+		const client = createEthClient();
+		const manager = new ChannelManager(client as unknown as EthereumClient, {
+			fundingAmount: BigInt(5000),
+			minExpirationBlocks: 5760,
+			expirationBlocks: 11520,
+		});
+
+		const channel = createChannel({ expiration: 12000 });
+		const managed = await manager.ensureChannel(channel, BigInt(0), BigInt(100));
+		expect(managed.action).toBe('extendAndAddFunds');
+		expect(client.extendAndAddFundsToChannel).toHaveBeenCalledWith(1, 21520, BigInt(5000));
+		expect(managed.channel.expiration).toBe(21520);
+	});
+
+	test('plans channel changes without sending transactions', async () => {
+		const client = createEthClient();
+		const manager = new ChannelManager(client as unknown as EthereumClient);
+
+		await expect(manager.planChannel(null, BigInt(0), BigInt(100))).resolves.toEqual({
+			action: 'openChannel',
+			amount: BigInt(100),
+			expiration: 21520,
+		});
+		await expect(
+			manager.planChannel(createChannel({ expiration: 12000 }), BigInt(500), BigInt(100)),
+		).resolves.toEqual({ action: 'extend', amount: BigInt(0), expiration: 21520 });
+		expect(client.openChannel).not.toHaveBeenCalled();
+		expect(client.extendChannel).not.toHaveBeenCalled();
+	});
+
+	test('opens a channel funded for the call', async () => {
+		const client = createEthClient();
+		const manager = new ChannelManager(client as unknown as EthereumClient, {
+			minBalance: undefined,
+		});
+
+		const managed = await manager.openChannel(RECIPIENT, GROUP_ID, BigInt(100));
+		expect(client.openChannel).toHaveBeenCalledWith(RECIPIENT, GROUP_ID, BigInt(100), 21520);
+		expect(managed).toMatchObject({ action: 'openChannel', channel: { channelId: 9 } });
+	});
+
+	test('fails when the escrow cannot fund the channel', async () => {
+		const client = createEthClient();
+		client.getEscrowBalance.mockResolvedValue(BigInt(10));
+		const manager = new ChannelManager(client as unknown as EthereumClient);
+
+		await expect(manager.openChannel(RECIPIENT, GROUP_ID, BigInt(100))).rejects.toThrow(
+			'Insufficient escrow balance',
+		);
+		expect(client.openChannel).not.toHaveBeenCalled();
+	});
+});
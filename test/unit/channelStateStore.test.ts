@@ -0,0 +1,175 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { IDataObject } from 'n8n-workflow';
+import {
+	createChannelStateStore,
+	FileChannelStateStore,
+	getChannelStateKey,
+	MemoryChannelStateStore,
+	StaticDataChannelStateStore,
+	withProcessLock,
+} from '../../nodes/Singularitynet/utils/channelStateStore';
+
+const MPE_ADDRESS = '0x5e592F9b1d303183d963635f895f0f0C48284f4e';
+
+const state = {
+	mpeAddress: MPE_ADDRESS,
+	channelId: 7,
+	nonce: 1,
+	signedAmount: BigInt('123456789012345678901'),
+	callCount: 3,
+};
+
+describe('Channel State Store', () => {
+	test('keys state by lowercased MPE address, channel and nonce', () => {
+		expect(getChannelStateKey(MPE_ADDRESS, 7, 1)).toBe(`${MPE_ADDRESS.toLowerCase()}:7:1`);
+	});
+
+	test('memory store keeps state per nonce', async () => {
+		const store = new MemoryChannelStateStore();
+		await store.set(state);
+
+		expect(await store.get(MPE_ADDRESS, 7, 1)).toMatchObject(state);
+		expect(await store.get(MPE_ADDRESS, 7, 2)).toBeNull();
+	});
+
+	test('static data store serializes amounts as strings', async () => {
+		const staticData: IDataObject = {};
+		const store = new StaticDataChannelStateStore(staticData);
+		await store.set(state);
+
+		const saved = (staticData.channelStates as IDataObject)[getChannelStateKey(MPE_ADDRESS, 7, 1)];
+		expect((saved as IDataObject).signedAmount).toBe('123456789012345678901');
+		expect(await new StaticDataChannelStateStore(staticData).get(MPE_ADDRESS, 7, 1)).toMatchObject(
+			state,
+		);
+	});
+
+	test('finds the channel a sender last paid a group from', async () => {
+		const sender = '0x1111111111111111111111111111111111111111';
+		const recipient = '0x2222222222222222222222222222222222222222';
+		const groupId = `0x${'ab'.repeat(32)}`;
+		const store = new StaticDataChannelStateStore({});
+
+		jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+		try {
+			await store.set({ ...state, channelId: 9, sender, recipient, groupId });
+			jest.setSystemTime(new Date('2026-01-02T00:00:00Z'));
+			await store.set({ ...state, channelId: 4, sender, recipient, groupId });
+			await store.set({ ...state, channelId: 5, sender: recipient, recipient, groupId });
+		} finally {
+			jest.useRealTimers();
+		}
+
+		expect(await store.findChannelId(MPE_ADDRESS, sender.toUpperCase(), recipient, groupId)).toBe(4);
+		expect(await store.findChannelId(MPE_ADDRESS, sender, recipient, `0x${'cd'.repeat(32)}`)).toBeNull();
+		expect(await new MemoryChannelStateStore().findChannelId(MPE_ADDRESS, sender, recipient, groupId)).toBeNull();
+	});
+
+	describe('file store', () => {
+		let dir: string;
+
+		beforeEach(async () => {
+			dir = await fs.mkdtemp(path.join(os.tmpdir(), 'channel-state-'));
+		});
+
+		afterEach(async () => {
+			await fs.rm(dir, { recursive: true, force: true });
+		});
+
+		test('returns null when the file does not exist', async () => {
+			const store = new FileChannelStateStore(path.join(dir, 'missing.json'));
+			expect(await store.get(MPE_ADDRESS, 7, 1)).toBeNull();
+		});
+
+		test('persists state across store instances', async () => {
+			const filePath = path.join(dir, 'nested', 'state.json');
+			await new FileChannelStateStore(filePath).set(state);
+			await new FileChannelStateStore(filePath).set({ ...state, channelId: 8 });
+
+			const store = new FileChannelStateStore(filePath);
+			expect(await store.get(MPE_ADDRESS, 7, 1)).toMatchObject(state);
+			expect(await store.get(MPE_ADDRESS, 8, 1)).toMatchObject({ ...state, channelId: 8 });
+		});
+	});
+
+	describe('locking', () => {
+		const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+		test('runs callers of the same key one at a time, in order', async () => {
+			const events: string[] = [];
+			const task = (name: string, ms: number) => async () => {
+				events.push(`${name}:start`);
+				await delay(ms);
+				events.push(`${name}:end`);
+				return name;
+			};
+
+			const results = await Promise.all([
+				withProcessLock('group', task('a', 20)),
+				withProcessLock('group', task('b', 0)),
+				withProcessLock('other', task('c', 0)),
+			]);
+
+			expect(results).toEqual(['a', 'b', 'c']);
+			expect(events.indexOf('b:start')).toBeGreaterThan(events.indexOf('a:end'));
+			expect(events.indexOf('c:end')).toBeLessThan(events.indexOf('a:end'));
+		});
+
+		test('releases the lock when the function fails', async () => {
+			await expect(
+				withProcessLock('failing', async () => {
+					throw new Error('boom');
+				}),
+			).rejects.toThrow('boom');
+			await expect(withProcessLock('failing', async () => 'next')).resolves.toBe('next');
+		});
+
+		test('reserves distinct amounts for concurrent read-modify-write', async () => {
+			const store = new MemoryChannelStateStore();
+			await store.set({ ...state, signedAmount: BigInt(0), callCount: 0 });
+
+			const reserve = () =>
+				store.withLock('group', async () => {
+					const current = await store.get(MPE_ADDRESS, 7, 1);
+					await delay(1);
+					const signedAmount = (current?.signedAmount ?? BigInt(0)) + BigInt(10);
+					await store.set({ ...state, signedAmount });
+					return signedAmount;
+				});
+
+			const amounts = await Promise.all([reserve(), reserve(), reserve()]);
+			expect(amounts).toEqual([BigInt(10), BigInt(20), BigInt(30)]);
+		});
+
+		test('file store holds a lock file while locked', async () => {
+			const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'channel-lock-'));
+			const filePath = path.join(dir, 'state.json');
+			try {
+				await new FileChannelStateStore(filePath).withLock('group', async () => {
+					await expect(fs.stat(`${filePath}.lock`)).resolves.toBeDefined();
+				});
+				await expect(fs.stat(`${filePath}.lock`)).rejects.toThrow();
+			} finally {
+				await fs.rm(dir, { recursive: true, force: true });
+			}
+		});
+	});
+
+	test('creates the store for a backend', () => {
+		expect(createChannelStateStore('memory')).toBeInstanceOf(MemoryChannelStateStore);
+		expect(createChannelStateStore('file')).toBeInstanceOf(FileChannelStateStore);
+		expect(createChannelStateStore('workflowStaticData', { staticData: {} })).toBeInstanceOf(
+			StaticDataChannelStateStore,
+		);
+		expect(() => createChannelStateStore('workflowStaticData')).toThrow('static data');
+	});
+});
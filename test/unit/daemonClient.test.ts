@@ -0,0 +1,219 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { DaemonClient } from '../../nodes/Singularitynet/transport/daemonClient';
+import { GrpcTransport } from '../../nodes/Singularitynet/transport/grpcClient';
+import {
+	generateChannelStateSignature,
+	generateTrainingSignature,
+} from '../../nodes/Singularitynet/utils/paymentUtils';
+
+const MPE_ADDRESS = '0x5e592F9b1d303183d963635f895f0f0C48284f4e';
+
+const AUTHORIZATION = {
+	currentBlock: 100,
+	message: '__create_model',
+	signature: '0x0102',
+	signerAddress: '0x1111111111111111111111111111111111111111',
+};
+
+function createTransport(reply: Record<string, unknown>) {
+	const call = jest.fn().mockResolvedValue(reply);
+	const transport: GrpcTransport = {
+		call,
+		stream: jest.fn(),
+		healthCheck: jest.fn(),
+		getEndpoint: () => 'https://daemon.example.com:7000',
+	};
+	return { transport, call };
+}
+
+describe('Daemon Client', () => {
+	describe('getChannelState', () => {
+		test('sends the channel id and signature as bytes', async () => {
+			const { transport, call } = createTransport({});
+			await new DaemonClient(transport).getChannelState(258, '0xabcd', 100);
+
+			const [method, input, options] = call.mock.calls[0];
+			expect(method).toBe('escrow.PaymentChannelStateService/GetChannelState');
+			expect(input).toEqual({
+				channel_id: Buffer.from([0x01, 0x02]).toString('base64'),
+				signature: Buffer.from([0xab, 0xcd]).toString('base64'),
+				current_block: 100,
+			});
+			expect(options.proto.services[0].name).toBe('PaymentChannelStateService');
+		});
+
+		test('decodes big-endian amounts and nonces', async () => {
+			const { transport } = createTransport({
+				current_nonce: Buffer.from([0x02]).toString('base64'),
+				current_signed_amount: Buffer.from([0x01, 0x00]).toString('base64'),
+				current_signature: Buffer.from([0xaa, 0xbb]).toString('base64'),
+				old_nonce_signed_amount: Buffer.from([0x64]).toString('base64'),
+				old_nonce_signature: '',
+				planned_amount: '10',
+				used_amount: '5',
+			});
+			const state = await new DaemonClient(transport).getChannelState(7, '0x00', 100);
+
+			expect(state).toEqual({
+				channelId: 7,
+				currentNonce: 2,
+				currentSignedAmount: BigInt(256),
+				currentSignature: '0xaabb',
+				oldNonceSignedAmount: BigInt(100),
+				oldNonceSignature: undefined,
+				plannedAmount: BigInt(10),
+				usedAmount: BigInt(5),
+			});
+		});
+
+		test('reads an empty reply as an unused channel', async () => {
+			const { transport } = createTransport({
+				current_nonce: '',
+				current_signed_amount: '',
+				old_nonce_signed_amount: '',
+			});
+			const state = await new DaemonClient(transport).getChannelState(7, '0x00', 100);
+
+			expect(state.currentNonce).toBe(0);
+			expect(state.currentSignedAmount).toBe(BigInt(0));
+			expect(state.oldNonceSignedAmount).toBeUndefined();
+		});
+	});
+
+	describe('getToken', () => {
+		test('requests a concurrency token for the signed amount', async () => {
+			const { transport, call } = createTransport({
+				channel_id: '7',
+				token: 'token-1',
+				planned_amount: '1000',
+				used_amount: '0',
+			});
+			const token = await new DaemonClient(transport).getToken({
+				channelId: 7,
+				nonce: 1,
+				signedAmount: BigInt(1000),
+				claimSignature: '0x0102',
+				signature: '0x0304',
+				currentBlock: 100,
+			});
+
+			const [method, input] = call.mock.calls[0];
+			expect(method).toBe('escrow.TokenService/GetToken');
+			expect(input).toMatchObject({
+				channel_id: 7,
+				current_nonce: 1,
+				signed_amount: '1000',
+				claim_signature: Buffer.from([0x01, 0x02]).toString('base64'),
+				signature: Buffer.from([0x03, 0x04]).toString('base64'),
+			});
+			expect(token).toEqual({
+				channelId: 7,
+				token: 'token-1',
+				plannedAmount: BigInt(1000),
+				usedAmount: BigInt(0),
+			});
+		});
+	});
+
+	describe('generateChannelStateSignature', () => {
+		test('signs the channel state request with the wallet', async () => {
+			const wallet = new ethers.Wallet(ethers.Wallet.createRandom().privateKey);
+			const signature = await generateChannelStateSignature(wallet, MPE_ADDRESS, 7, 100);
+
+			const messageHash = ethers.solidityPackedKeccak256(
+				['string', 'address', 'uint256', 'uint256'],
+				['__get_channel_state', MPE_ADDRESS, 7, 100],
+			);
+			expect(ethers.verifyMessage(ethers.getBytes(messageHash), signature)).toBe(wallet.address);
+		});
+	});
+
+	describe('training', () => {
+		test('creates a model with a signed authorization', async () => {
+			const { transport, call } = createTransport({
+				model_details: {
+					model_id: 'model-1',
+					model_name: 'My Model',
+					is_publicly_accessible: true,
+				},
+			});
+			const model = await new DaemonClient(transport).createModel(AUTHORIZATION, {
+				grpcServiceName: 'example.Trainer',
+				grpcMethodName: 'train',
+				modelName: 'My Model',
+				isPubliclyAccessible: true,
+				organizationId: 'snet',
+				serviceId: 'example-service',
+				groupId: 'group-1',
+			});
+
+			const [method, input, options] = call.mock.calls[0];
+			expect(method).toBe('training.Model/create_model');
+			expect(input.authorization).toEqual({
+				current_block: 100,
+				message: '__create_model',
+				signature: Buffer.from([0x01, 0x02]).toString('base64'),
+				signer_address: AUTHORIZATION.signerAddress,
+			});
+			expect(input.model_details).toMatchObject({
+				grpc_service_name: 'example.Trainer',
+				grpc_method_name: 'train',
+				model_name: 'My Model',
+				is_publicly_accessible: true,
+				address_list: [],
+				group_id: 'group-1',
+			});
+			expect(options.proto.services[0].name).toBe('Model');
+			expect(model).toMatchObject({ modelId: 'model-1', modelName: 'My Model', status: 'CREATED' });
+		});
+
+		test('lists the models of a training method', async () => {
+			const { transport, call } = createTransport({
+				list_of_models: [{ model_id: 'model-1' }, { model_id: 'model-2', status: 'COMPLETED' }],
+			});
+			const models = await new DaemonClient(transport).getAllModels(
+				AUTHORIZATION,
+				'example.Trainer',
+				'train',
+			);
+
+			expect(call.mock.calls[0][0]).toBe('training.Model/get_all_models');
+			expect(models.map((model) => [model.modelId, model.status])).toEqual([
+				['model-1', 'CREATED'],
+				['model-2', 'COMPLETED'],
+			]);
+		});
+
+		test('reads the status of a model from the reply', async () => {
+			const { transport } = createTransport({
+				model_details: { model_id: 'model-1' },
+				status: 'IN_PROGRESS',
+			});
+			const model = await new DaemonClient(transport).getModelStatus(AUTHORIZATION, {
+				modelId: 'model-1',
+			});
+
+			expect(model.status).toBe('IN_PROGRESS');
+		});
+	});
+
+	describe('generateTrainingSignature', () => {
+		test('signs the message, address and block with the wallet', async () => {
+			const wallet = new ethers.Wallet(ethers.Wallet.createRandom().privateKey);
+			const signature = await generateTrainingSignature(wallet, '__get_all_models', 100);
+
+			const messageHash = ethers.solidityPackedKeccak256(
+				['string', 'string', 'uint256'],
+				['__get_all_models', wallet.address, 100],
+			);
+			expect(ethers.verifyMessage(ethers.getBytes(messageHash), signature)).toBe(wallet.address);
+		});
+	});
+});
@@ -0,0 +1,74 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	EndpointSelector,
+	isTransportError,
+} from '../../nodes/Singularitynet/transport/endpointSelector';
+import { GrpcError } from '../../nodes/Singularitynet/transport/grpcClient';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('Endpoint Selector', () => {
+	test('ranks healthy endpoints by latency, unhealthy last', async () => {
+		const latencies: Record<string, number> = {
+			'https://a:1': 30,
+			'https://b:1': 0,
+			'https://c:1': 0,
+		};
+		const selector = new EndpointSelector(async (endpoint) => {
+			await delay(latencies[endpoint]);
+			return endpoint !== 'https://c:1';
+		});
+
+		await expect(selector.rank(['https://c:1', 'https://a:1', 'https://b:1'])).resolves.toEqual([
+			'https://b:1',
+			'https://a:1',
+			'https://c:1',
+		]);
+	});
+
+	test('reuses health results within the TTL', async () => {
+		const check = jest.fn().mockResolvedValue(true);
+		const selector = new EndpointSelector(check);
+
+		await selector.rank(['https://ttl-a:1', 'https://ttl-b:1']);
+		await selector.rank(['https://ttl-a:1', 'https://ttl-b:1']);
+		expect(check).toHaveBeenCalledTimes(2);
+
+		await new EndpointSelector(check, 0).rank(['https://ttl-a:1', 'https://ttl-b:1']);
+		expect(check).toHaveBeenCalledTimes(4);
+	});
+
+	test('moves failed endpoints to the end', async () => {
+		const selector = new EndpointSelector(async () => true);
+		await selector.rank(['https://failed-a:1', 'https://failed-b:1']);
+
+		selector.markFailed('https://failed-a:1');
+		await expect(selector.rank(['https://failed-a:1', 'https://failed-b:1'])).resolves.toEqual([
+			'https://failed-b:1',
+			'https://failed-a:1',
+		]);
+	});
+
+	test('does not check a single endpoint', async () => {
+		const check = jest.fn();
+		await expect(new EndpointSelector(check).rank(['https://only:1'])).resolves.toEqual([
+			'https://only:1',
+		]);
+		expect(check).not.toHaveBeenCalled();
+	});
+
+	test('treats unreachable endpoints as transport errors', () => {
+		expect(isTransportError(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }))).toBe(
+			true,
+		);
+		expect(isTransportError(new GrpcError(14, 'unavailable'))).toBe(true);
+		expect(isTransportError(new GrpcError(3, 'invalid argument'))).toBe(false);
+		expect(isTransportError(new Error('boom'))).toBe(false);
+	});
+});
@@ -0,0 +1,154 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { MPE_CONTRACT_ABI } from '../../nodes/Singularitynet/constants/contracts';
+import { EthereumClient } from '../../nodes/Singularitynet/transport/ethereumClient';
+
+const MPE_ADDRESS = '0x5e592F9b1d303183d963635f895f0f0C48284f4e';
+const SENDER = '0x1111111111111111111111111111111111111111';
+
+function createReceipt(blockNumber: number) {
+	const mpe = new ethers.Interface(MPE_CONTRACT_ABI);
+	const addFunds = mpe.encodeEventLog('ChannelAddFunds', [5, 1000]);
+	return {
+		hash: '0xhash',
+		blockNumber,
+		status: 1,
+		from: SENDER,
+		to: MPE_ADDRESS,
+		gasUsed: BigInt(50000),
+		gasPrice: BigInt(2000000000),
+		fee: BigInt(100000000000000),
+		logs: [
+			{ address: MPE_ADDRESS, index: 0, ...addFunds },
+			{ address: SENDER, index: 1, topics: addFunds.topics, data: addFunds.data },
+		],
+	};
+}
+
+describe('Ethereum Client', () => {
+	function createClient(receipts: Array<ReturnType<typeof createReceipt> | null>, blockNumber: number) {
+		const client = new EthereumClient({ network: 'ethereumMainnet' });
+		const provider = client.getProvider();
+		const getReceipt = jest.spyOn(provider, 'getTransactionReceipt');
+		receipts.forEach((receipt) => getReceipt.mockResolvedValueOnce(receipt as unknown as ethers.TransactionReceipt));
+		jest.spyOn(provider, 'getBlockNumber').mockResolvedValue(blockNumber);
+		return { client, getReceipt };
+	}
+
+	test('waits until a transaction is mined and decodes its MPE events', async () => {
+		const { client, getReceipt } = createClient([null, createReceipt(100)], 100);
+
+		const transaction = await client.waitForTransaction('0xhash', 1, 1000, 1);
+
+		expect(getReceipt).toHaveBeenCalledTimes(2);
+		expect(transaction).toMatchObject({
+			hash: '0xhash',
+			status: 'success',
+			blockNumber: 100,
+			confirmations: 1,
+			fee: BigInt(100000000000000),
+		});
+		expect(transaction.events).toEqual([
+			{
+				contract: 'mpe',
+				address: MPE_ADDRESS,
+				name: 'ChannelAddFunds',
+				logIndex: 0,
+				args: { channelId: '5', additionalFunds: '1000' },
+			},
+		]);
+	});
+
+	test('fails when the confirmations are not reached in time', async () => {
+		const { client } = createClient([createReceipt(100), createReceipt(100)], 101);
+
+		await expect(client.waitForTransaction('0xhash', 3, 5, 5)).rejects.toThrow(
+			'Timed out after 5 ms waiting for 3 confirmation(s) of transaction 0xhash'
+		);
+	});
+
+	test('claims payments up to the planned amounts that were signed', async () => {
+		const client = new EthereumClient({
+			network: 'ethereumMainnet',
+			privateKey: ethers.Wallet.createRandom().privateKey,
+		});
+		const sendTransaction = jest
+			.spyOn(client as never, 'sendTransaction')
+			.mockResolvedValue({ tx: { hash: '0xclaim', nonce: 3 }, receipt: null } as never);
+		const signature = { v: 27, r: `0x${'11'.repeat(32)}`, s: `0x${'22'.repeat(32)}` };
+
+		await client.multiChannelClaim(
+			[
+				{ channelId: 1, amount: BigInt(60), plannedAmount: BigInt(100), ...signature },
+				{ channelId: 2, amount: BigInt(50), plannedAmount: BigInt(50), ...signature },
+			],
+			false
+		);
+
+		expect(sendTransaction).toHaveBeenCalledWith(expect.anything(), 'multiChannelClaim', [
+			[1, 2],
+			[BigInt(60), BigInt(50)],
+			[BigInt(100), BigInt(50)],
+			[false, false],
+			[27, 27],
+			[signature.r, signature.r],
+			[signature.s, signature.s],
+		]);
+	});
+
+	test('searches channels from the block the MPE contract was deployed in', async () => {
+		const client = new EthereumClient({ network: 'ethereumMainnet' });
+		const provider = client.getProvider();
+		const getReceipt = jest
+			.spyOn(provider, 'getTransactionReceipt')
+			.mockResolvedValue({ blockNumber: 12000000 } as ethers.TransactionReceipt);
+		jest.spyOn(provider, 'getBlockNumber').mockResolvedValue(12010000);
+		const getLogs = jest.spyOn(provider, 'getLogs').mockResolvedValue([]);
+
+		await client.findChannels(SENDER);
+		await client.findChannels(SENDER);
+
+		expect(getReceipt).toHaveBeenCalledTimes(1);
+		expect(getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 12000000 }));
+	});
+
+	test('lists channels from the MPE deployment unless a start block is given', async () => {
+		const client = new EthereumClient({ network: 'ethereumMainnet' });
+		const provider = client.getProvider();
+		jest
+			.spyOn(provider, 'getTransactionReceipt')
+			.mockResolvedValue({ blockNumber: 12000000 } as ethers.TransactionReceipt);
+		jest.spyOn(provider, 'getBlockNumber').mockResolvedValue(15010000);
+		const getLogs = jest.spyOn(provider, 'getLogs').mockResolvedValue([]);
+
+		await client.getChannelEvents({ sender: SENDER });
+		expect(getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 12000000 }));
+		getLogs.mockClear();
+		await client.getChannelEvents({ sender: SENDER, fromBlock: 15000000 });
+
+		expect(getLogs).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 15000000 }));
+	});
+
+	test('queries events in chunks of blocks', async () => {
+		const client = new EthereumClient({ network: 'ethereumMainnet' });
+		const provider = client.getProvider();
+		jest.spyOn(provider, 'getBlockNumber').mockResolvedValue(12120000);
+		const getLogs = jest.spyOn(provider, 'getLogs').mockResolvedValue([]);
+
+		await client.findChannels(SENDER, undefined, undefined, 12000000);
+
+		expect(
+			getLogs.mock.calls.map(([filter]) => ('fromBlock' in filter ? [filter.fromBlock, filter.toBlock] : []))
+		).toEqual([
+			[12000000, 12049999],
+			[12050000, 12099999],
+			[12100000, 12120000],
+		]);
+	});
+});
@@ -0,0 +1,74 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	decodeGrpcMessage,
+	decodeGrpcWebResponse,
+	encodeGrpcWebFrame,
+	GRPC_WEB_TRAILER_FRAME,
+	httpStatusToGrpcCode,
+	parseGrpcWebFrames,
+	parseGrpcWebTrailers,
+} from '../../nodes/Singularitynet/utils/grpcWebUtils';
+
+describe('gRPC-Web Utils', () => {
+	describe('Framing', () => {
+		test('encodes a length-prefixed data frame', () => {
+			const frame = encodeGrpcWebFrame(new Uint8Array([1, 2, 3]));
+			expect([...frame]).toEqual([0, 0, 0, 0, 3, 1, 2, 3]);
+		});
+
+		test('parses complete frames and keeps the remainder', () => {
+			const first = encodeGrpcWebFrame(Buffer.from('abc'));
+			const second = encodeGrpcWebFrame(Buffer.from('defgh'));
+			const partial = Buffer.concat([first, second.subarray(0, 4)]);
+
+			const { frames, remainder } = parseGrpcWebFrames(partial);
+			expect(frames).toHaveLength(1);
+			expect(frames[0].data.toString()).toBe('abc');
+			expect(remainder).toHaveLength(4);
+
+			const resumed = parseGrpcWebFrames(Buffer.concat([remainder, second.subarray(4)]));
+			expect(resumed.frames[0].data.toString()).toBe('defgh');
+			expect(resumed.remainder).toHaveLength(0);
+		});
+	});
+
+	describe('Trailers', () => {
+		test('parses trailer headers', () => {
+			const trailers = parseGrpcWebTrailers(
+				Buffer.from('grpc-status: 3\r\nGrpc-Message: bad%20input\r\n'),
+			);
+			expect(trailers['grpc-status']).toBe('3');
+			expect(decodeGrpcMessage(trailers['grpc-message'])).toBe('bad input');
+		});
+
+		test('splits messages and trailers in a response body', () => {
+			const body = Buffer.concat([
+				encodeGrpcWebFrame(Buffer.from('message')),
+				encodeGrpcWebFrame(Buffer.from('grpc-status:0\r\n'), GRPC_WEB_TRAILER_FRAME),
+			]);
+
+			const { messages, trailers } = decodeGrpcWebResponse(body);
+			expect(messages.map((m) => m.toString())).toEqual(['message']);
+			expect(trailers['grpc-status']).toBe('0');
+		});
+
+		test('rejects truncated responses', () => {
+			const body = encodeGrpcWebFrame(Buffer.from('message')).subarray(0, 8);
+			expect(() => decodeGrpcWebResponse(body)).toThrow('Truncated');
+		});
+	});
+
+	describe('Status mapping', () => {
+		test('maps HTTP statuses to gRPC codes', () => {
+			expect(httpStatusToGrpcCode(401)).toBe(16);
+			expect(httpStatusToGrpcCode(503)).toBe(14);
+			expect(httpStatusToGrpcCode(500)).toBe(2);
+		});
+	});
+});
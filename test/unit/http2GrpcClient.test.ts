@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import * as http2 from 'http2';
+import type { AddressInfo } from 'net';
+import { GrpcError } from '../../nodes/Singularitynet/transport/grpcClient';
+import { Http2GrpcClient } from '../../nodes/Singularitynet/transport/http2GrpcClient';
+import { encodeGrpcWebFrame } from '../../nodes/Singularitynet/utils/grpcWebUtils';
+import { encodeMessage, parseProtoContent } from '../../nodes/Singularitynet/utils/protobufUtils';
+
+const proto = parseProtoContent(`
+syntax = "proto3";
+package example;
+message Text { string value = 1; }
+service Service { rpc run(Text) returns (Text); }
+`);
+
+async function startServer(
+	handler: (stream: http2.ServerHttp2Stream) => void
+): Promise<{ server: http2.Http2Server; endpoint: string; sessions: () => number }> {
+	let sessions = 0;
+	const server = http2.createServer();
+	server.on('session', () => sessions++);
+	server.on('stream', (stream) => {
+		stream.resume();
+		stream.on('end', () => handler(stream));
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	const { port } = server.address() as AddressInfo;
+	return { server, endpoint: `127.0.0.1:${port}`, sessions: () => sessions };
+}
+
+describe('HTTP/2 gRPC Client', () => {
+	test('maps HTTP error statuses to gRPC codes', async () => {
+		const { server, endpoint } = await startServer((stream) => {
+			stream.respond({ ':status': 503 }, { endStream: true });
+		});
+		const client = new Http2GrpcClient(endpoint, false);
+
+		try {
+			const error = await client.call('example.Service/run', {}, { proto }).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(GrpcError);
+			expect(error).toMatchObject({ code: 14, message: expect.stringContaining('HTTP 503') });
+		} finally {
+			client.close();
+			await new Promise((resolve) => server.close(resolve));
+		}
+	});
+
+	test('shares one session between the clients of an endpoint', async () => {
+		const { server, endpoint, sessions } = await startServer((stream) => {
+			stream.respond(
+				{ ':status': 200, 'content-type': 'application/grpc+proto' },
+				{ waitForTrailers: true }
+			);
+			stream.on('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0' }));
+			stream.end(encodeGrpcWebFrame(encodeMessage(proto, 'example.Text', { value: 'ok' })));
+		});
+		const clients = [new Http2GrpcClient(endpoint, false), new Http2GrpcClient(endpoint, false)];
+
+		try {
+			const results = await Promise.all(
+				clients.map((client) => client.call('example.Service/run', { value: 'hi' }, { proto }))
+			);
+
+			expect(results).toEqual([{ value: 'ok' }, { value: 'ok' }]);
+			expect(sessions()).toBe(1);
+		} finally {
+			clients[0].close();
+			await new Promise((resolve) => server.close(resolve));
+		}
+	});
+});
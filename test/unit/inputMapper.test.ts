@@ -0,0 +1,67 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { ResourceMapperValue } from 'n8n-workflow';
+import { mapperValueToInput, schemaToMapperFields } from '../../nodes/Singularitynet/utils/inputMapper';
+import { getMethodInputSchema, parseProtoContent } from '../../nodes/Singularitynet/utils/protobufUtils';
+
+const PROTO = `
+syntax = "proto2";
+package example;
+message Request {
+	required string text = 1;
+	repeated int32 ids = 2;
+	optional bool verbose = 3;
+}
+message Response { optional string text = 1; }
+service Echo { rpc echo(Request) returns (Response); }
+`;
+
+describe('Input Mapper', () => {
+	const schema = getMethodInputSchema(parseProtoContent(PROTO), 'Echo', 'echo') as Record<
+		string,
+		unknown
+	>;
+	const fields = schemaToMapperFields(schema);
+
+	test('builds one field per proto field', () => {
+		expect(fields.map((f) => [f.id, f.type, f.required])).toEqual([
+			['text', 'string', true],
+			['ids', 'array', false],
+			['verbose', 'boolean', false],
+		]);
+		expect(fields[1].displayName).toBe('ids (Repeated)');
+	});
+
+	test('builds input from values defined below', () => {
+		const mapper: ResourceMapperValue = {
+			mappingMode: 'defineBelow',
+			value: { text: 'hi', ids: '[1, 2]', verbose: null },
+			matchingColumns: [],
+			schema: fields,
+			attemptToConvertTypes: false,
+			convertFieldsToString: false,
+		};
+		expect(mapperValueToInput(mapper)).toEqual({ text: 'hi', ids: [1, 2] });
+	});
+
+	test('auto-maps input item data', () => {
+		const mapper: ResourceMapperValue = {
+			mappingMode: 'autoMapInputData',
+			value: null,
+			matchingColumns: [],
+			schema: fields,
+			attemptToConvertTypes: false,
+			convertFieldsToString: false,
+		};
+		expect(mapperValueToInput(mapper, { text: 'hi', ids: [3], other: true })).toEqual({
+			text: 'hi',
+			ids: [3],
+		});
+		expect(() => mapperValueToInput(mapper, {})).toThrow("Field 'text' is required");
+	});
+});
@@ -0,0 +1,35 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import {
+	generatePaymentSignature,
+	splitPaymentSignature,
+	verifyPaymentSignature,
+} from '../../nodes/Singularitynet/utils/paymentUtils';
+
+const MPE_ADDRESS = '0x5e592F9b1d303183d963635f895f0f0C48284f4e';
+
+describe('Payment Utils', () => {
+	const wallet = new ethers.Wallet(`0x${'11'.repeat(32)}`);
+
+	test('verifies a payment signed by the channel signer', async () => {
+		const { signature } = await generatePaymentSignature(wallet, MPE_ADDRESS, 3, 1, BigInt(500));
+
+		expect(verifyPaymentSignature(MPE_ADDRESS, 3, 1, BigInt(500), signature, wallet.address)).toBe(true);
+		expect(verifyPaymentSignature(MPE_ADDRESS, 3, 1, BigInt(600), signature, wallet.address)).toBe(false);
+	});
+
+	test('splits a signature into v, r and s', async () => {
+		const generated = await generatePaymentSignature(wallet, MPE_ADDRESS, 3, 1, BigInt(500));
+		const split = splitPaymentSignature(generated.signature);
+
+		expect(split).toEqual(generated);
+		expect([27, 28]).toContain(split.v);
+		expect(ethers.Signature.from({ v: split.v, r: split.r, s: split.s }).serialized).toBe(generated.signature);
+	});
+});
@@ -0,0 +1,121 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { gzipSync } from 'zlib';
+import { extractTar } from '../../nodes/Singularitynet/utils/tarUtils';
+import { getModelIpfsHash, parseProtoArchive } from '../../nodes/Singularitynet/utils/protoLoader';
+import { parseProtoFiles } from '../../nodes/Singularitynet/utils/protobufUtils';
+
+/**
+ * Build a minimal ustar archive
+ */
+function buildTar(files: Record<string, string>): Buffer {
+	const blocks: Buffer[] = [];
+
+	Object.entries(files).forEach(([name, content]) => {
+		const data = Buffer.from(content);
+		const header = Buffer.alloc(512);
+		header.write(name, 0);
+		header.write('0000644\0', 100);
+		header.write(`${data.length.toString(8).padStart(11, '0')}\0`, 124);
+		header.write('0', 156);
+		header.write('ustar\0', 257);
+		blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+	});
+
+	blocks.push(Buffer.alloc(1024));
+	return Buffer.concat(blocks);
+}
+
+const COMMON_PROTO = `
+syntax = "proto3";
+package example;
+message Numbers { float a = 1; float b = 2; }
+`;
+
+const SERVICE_PROTO = `
+syntax = "proto3";
+package example;
+import "common.proto";
+import "google/protobuf/empty.proto";
+message Result { float value = 1; }
+service Calculator {
+	rpc add(Numbers) returns (Result);
+	rpc ping(google.protobuf.Empty) returns (google.protobuf.Empty);
+}
+`;
+
+describe('Proto Loader', () => {
+	describe('Tar extraction', () => {
+		test('extracts files from plain and gzipped archives', () => {
+			const tar = buildTar({ './a.proto': 'A', 'dir/b.proto': 'B' });
+
+			[tar, gzipSync(tar)].forEach((archive) => {
+				const entries = extractTar(archive);
+				expect(entries.map((e) => e.name)).toEqual(['a.proto', 'dir/b.proto']);
+				expect(entries[1].data.toString()).toBe('B');
+			});
+		});
+	});
+
+	describe('Proto archives', () => {
+		test('resolves imports between archive files', () => {
+			const proto = parseProtoArchive(
+				buildTar({ 'service.proto': SERVICE_PROTO, 'protos/common.proto': COMMON_PROTO }),
+			);
+
+			const methods = proto.services[0].methods;
+			expect(proto.services[0].name).toBe('Calculator');
+			expect(methods[0].inputType).toBe('example.Numbers');
+			expect(methods[1].inputType).toBe('google.protobuf.Empty');
+		});
+
+		test('loads well-known types imported by several files once', () => {
+			const proto = parseProtoFiles({
+				'a.proto': `
+syntax = "proto3";
+package example;
+import "google/protobuf/timestamp.proto";
+message Event { google.protobuf.Timestamp at = 1; }
+`,
+				'b.proto': `
+syntax = "proto3";
+package example;
+import "google/protobuf/timestamp.proto";
+import "a.proto";
+message Query { google.protobuf.Timestamp since = 1; }
+service Events {
+	rpc list(Query) returns (Event);
+}
+`,
+			});
+
+			expect(proto.services[0].methods[0].inputType).toBe('example.Query');
+			expect(proto.root.lookupType('google.protobuf.Timestamp')).toBeDefined();
+		});
+
+		test('reports missing imports', () => {
+			expect(() => parseProtoFiles({ 'service.proto': SERVICE_PROTO })).toThrow(
+				"Import 'common.proto' of 'service.proto' not found",
+			);
+		});
+
+		test('rejects archives without proto files', () => {
+			expect(() => parseProtoArchive(buildTar({ 'README.md': 'none' }))).toThrow(
+				'No .proto files found',
+			);
+		});
+	});
+
+	describe('Metadata', () => {
+		test('reads the model hash from service metadata', () => {
+			expect(getModelIpfsHash({ model_ipfs_hash: 'QmModel' })).toBe('QmModel');
+			expect(getModelIpfsHash({ service_api_source: 'ipfs://QmSource' })).toBe('QmSource');
+			expect(getModelIpfsHash({})).toBeNull();
+		});
+	});
+});
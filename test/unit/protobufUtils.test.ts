@@ -0,0 +1,134 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	decodeMessage,
+	encodeMessage,
+	getMethodInputSchema,
+	parseProtoContent,
+	validateMethodInput,
+} from '../../nodes/Singularitynet/utils/protobufUtils';
+
+const PROTO = `
+syntax = "proto3";
+package vision;
+import "google/protobuf/timestamp.proto";
+import "google/protobuf/duration.proto";
+import "google/protobuf/struct.proto";
+import "google/protobuf/wrappers.proto";
+
+enum Format { PNG = 0; JPEG = 1; }
+
+message Box { float x = 1; float y = 2; }
+
+message Node {
+	string name = 1;
+	repeated Node children = 2;
+}
+
+message Request {
+	bytes image = 1;
+	Format format = 2;
+	repeated Box boxes = 3;
+	map<string, int64> counts = 4;
+	oneof source {
+		string url = 5;
+		string path = 6;
+	}
+	optional int32 limit = 7;
+	google.protobuf.Timestamp taken_at = 8;
+	google.protobuf.Duration timeout = 9;
+	google.protobuf.Struct params = 10;
+	google.protobuf.StringValue label = 11;
+	Node tree = 12;
+}
+
+service Detector { rpc detect(Request) returns (Request); }
+`;
+
+describe('Protobuf Utils', () => {
+	const proto = parseProtoContent(PROTO);
+
+	describe('JSON Schema', () => {
+		const schema = getMethodInputSchema(proto, 'Detector', 'detect') as Record<string, any>;
+		const properties = schema.properties;
+
+		test('converts scalars, enums and nested messages', () => {
+			expect(properties.image).toEqual({ type: 'string', contentEncoding: 'base64' });
+			expect(properties.format).toEqual({ type: 'string', enum: ['PNG', 'JPEG'] });
+			expect(properties.boxes.type).toBe('array');
+			expect(properties.boxes.items.properties.x).toEqual({ type: 'number', format: 'float' });
+		});
+
+		test('converts maps', () => {
+			expect(properties.counts).toEqual({
+				type: 'object',
+				propertyNames: {},
+				additionalProperties: { type: 'string', format: 'int64', pattern: '^-?\\d+$' },
+			});
+		});
+
+		test('allows at most one oneof field and skips proto3 optionals', () => {
+			expect(schema.oneOf).toHaveLength(3);
+			expect(schema.oneOf[0]).toEqual({ required: ['url'] });
+			expect(schema.allOf).toBeUndefined();
+		});
+
+		test('converts well-known types', () => {
+			expect(properties.taken_at.format).toBe('date-time');
+			expect(properties.timeout.pattern).toBeDefined();
+			expect(properties.params).toEqual({ type: 'object', additionalProperties: true });
+			expect(properties.label.type).toEqual(['string', 'null']);
+		});
+
+		test('stops at recursive messages', () => {
+			const children = properties.tree.properties.children;
+			expect(children.items).toEqual({ type: 'object', description: 'Recursive vision.Node message' });
+		});
+	});
+
+	describe('Encoding', () => {
+		test('round-trips the proto3 JSON mapping', () => {
+			const input = {
+				image: Buffer.from('png').toString('base64'),
+				format: 'JPEG',
+				counts: { cats: '2' },
+				url: 'https://example.com/a.png',
+				taken_at: '2024-01-02T03:04:05.5Z',
+				timeout: '1.5s',
+				params: { threshold: 0.5, labels: ['cat', null], nested: { on: true } },
+				label: 'pets',
+			};
+
+			const output = decodeMessage(proto, 'vision.Request', encodeMessage(proto, 'vision.Request', input));
+
+			expect(output).toMatchObject(input);
+		});
+
+		test('rejects values of the wrong type instead of coercing them', () => {
+			expect(() => encodeMessage(proto, 'vision.Request', { limit: 'abc' })).toThrow(
+				'Invalid message: limit: integer expected'
+			);
+			expect(() => encodeMessage(proto, 'vision.Request', { format: 'GIF' })).toThrow(
+				'format: enum value expected'
+			);
+			expect(() => encodeMessage(proto, 'vision.Request', { url: 'a', path: 'b' })).toThrow(
+				'source: multiple values'
+			);
+		});
+
+		test('rejects unknown fields', () => {
+			expect(() => encodeMessage(proto, 'vision.Request', { limit: 5, typo: 5 })).toThrow(
+				'Invalid message: typo: unknown field'
+			);
+			expect(validateMethodInput(proto, 'Detector', 'detect', { tree: { name: 'a', size: 1 } })).toEqual({
+				valid: false,
+				errors: ['tree.size: unknown field'],
+			});
+		});
+	});
+});
@@ -0,0 +1,78 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+	canonicalJson,
+	createResultCache,
+	FileResultCache,
+	getResultCacheKey,
+	MemoryResultCache,
+} from '../../nodes/Singularitynet/utils/resultCache';
+
+const result = { output: { value: 42 }, groupName: 'default_group' };
+
+describe('Result Cache', () => {
+	test('serializes objects with sorted keys', () => {
+		expect(canonicalJson({ b: 1, a: [{ d: 2, c: undefined }] })).toBe('{"a":[{"d":2}],"b":1}');
+	});
+
+	test('keys calls by service, method and request', () => {
+		const key = getResultCacheKey('org', 'svc', '/pkg.Svc/add', { a: 1, b: 2 });
+		expect(getResultCacheKey('org', 'svc', 'pkg.Svc/add', { b: 2, a: 1 })).toBe(key);
+		expect(getResultCacheKey('org', 'svc', 'pkg.Svc/mul', { a: 1, b: 2 })).not.toBe(key);
+		expect(getResultCacheKey('org', 'svc', 'pkg.Svc/add', Uint8Array.from([8, 1]))).toBe(
+			getResultCacheKey('org', 'svc', 'pkg.Svc/add', Uint8Array.from([8, 1])),
+		);
+	});
+
+	test('memory cache expires entries after the TTL', async () => {
+		const cache = new MemoryResultCache();
+		await cache.set('memory-live', result, 60);
+		await cache.set('memory-expired', result, 0);
+
+		expect(await cache.get('memory-live')).toMatchObject(result);
+		expect(await cache.get('memory-expired')).toBeNull();
+	});
+
+	describe('file cache', () => {
+		let dir: string;
+
+		beforeEach(async () => {
+			dir = await fs.mkdtemp(path.join(os.tmpdir(), 'result-cache-'));
+		});
+
+		afterEach(async () => {
+			await fs.rm(dir, { recursive: true, force: true });
+		});
+
+		test('persists results across cache instances', async () => {
+			const filePath = path.join(dir, 'nested', 'cache.json');
+			await new FileResultCache(filePath).set('key', result, 60);
+
+			expect(await new FileResultCache(filePath).get('key')).toMatchObject(result);
+			expect(await new FileResultCache(filePath).get('other')).toBeNull();
+		});
+
+		test('drops expired entries on write', async () => {
+			const filePath = path.join(dir, 'cache.json');
+			const cache = new FileResultCache(filePath);
+			await cache.set('expired', result, 0);
+			await cache.set('live', result, 60);
+
+			const entries = JSON.parse(await fs.readFile(filePath, 'utf8'));
+			expect(Object.keys(entries)).toEqual(['live']);
+		});
+	});
+
+	test('creates the cache for a backend', () => {
+		expect(createResultCache('memory')).toBeInstanceOf(MemoryResultCache);
+		expect(createResultCache('file')).toBeInstanceOf(FileResultCache);
+	});
+});
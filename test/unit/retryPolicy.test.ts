@@ -0,0 +1,119 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { AxiosError, AxiosHeaders } from 'axios';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { GrpcClient, GrpcError } from '../../nodes/Singularitynet/transport/grpcClient';
+import {
+	checkCircuit,
+	CircuitOpenError,
+	getHost,
+	getRetryDelay,
+	isRetryableError,
+	resolveRetryPolicy,
+	withRetry,
+} from '../../nodes/Singularitynet/transport/retryPolicy';
+
+const fastPolicy = { initialDelay: 0, jitter: 0 };
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+	const config = { headers: new AxiosHeaders() };
+	return new AxiosError(`HTTP ${status}`, 'ERR_BAD_RESPONSE', config, null, {
+		status,
+		statusText: '',
+		data: null,
+		headers,
+		config,
+	});
+}
+
+describe('Retry Policy', () => {
+	test('classifies transient failures as retryable', () => {
+		expect(isRetryableError(httpError(429))).toBe(true);
+		expect(isRetryableError(httpError(503))).toBe(true);
+		expect(isRetryableError(httpError(400))).toBe(false);
+		expect(isRetryableError(new GrpcError(14, 'unavailable'))).toBe(true);
+		expect(isRetryableError(new GrpcError(3, 'invalid argument'))).toBe(false);
+		expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+		expect(isRetryableError(new CircuitOpenError('host', Date.now()))).toBe(false);
+	});
+
+	test('keeps the status of failed JSON daemon calls retryable', async () => {
+		const server = createServer((_request, response) => {
+			response.writeHead(503, { 'Content-Type': 'application/json' });
+			response.end(JSON.stringify({ message: 'daemon busy' }));
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		const { port } = server.address() as AddressInfo;
+
+		try {
+			const client = new GrpcClient(`127.0.0.1:${port}`, false, { mode: 'json' });
+			const error = await client.call('example.Service/run', {}).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(AxiosError);
+			expect((error as AxiosError).message).toBe('gRPC call failed: daemon busy');
+			expect(isRetryableError(error)).toBe(true);
+		} finally {
+			await new Promise((resolve) => server.close(resolve));
+		}
+	});
+
+	test('backs off exponentially up to the maximum delay', () => {
+		const policy = resolveRetryPolicy({ initialDelay: 100, jitter: 0, maxDelay: 1000 });
+		expect([0, 1, 2, 5].map((attempt) => getRetryDelay(attempt, policy))).toEqual([
+			100, 200, 400, 1000,
+		]);
+	});
+
+	test('honors Retry-After headers', () => {
+		const policy = resolveRetryPolicy({ maxDelay: 5000 });
+		expect(getRetryDelay(0, policy, httpError(429, { 'retry-after': '2' }))).toBe(2000);
+		expect(getRetryDelay(0, policy, httpError(429, { 'retry-after': '60' }))).toBe(5000);
+	});
+
+	test('keeps default values for undefined overrides', () => {
+		expect(resolveRetryPolicy({ maxRetries: undefined, initialDelay: 10 })).toMatchObject({
+			maxRetries: 3,
+			initialDelay: 10,
+		});
+	});
+
+	test('retries transient failures until they succeed', async () => {
+		const fn = jest
+			.fn()
+			.mockRejectedValueOnce(httpError(503))
+			.mockRejectedValueOnce(new GrpcError(14, 'unavailable'))
+			.mockResolvedValue('ok');
+
+		await expect(withRetry(fn, { policy: fastPolicy })).resolves.toBe('ok');
+		expect(fn).toHaveBeenCalledTimes(3);
+	});
+
+	test('does not retry permanent failures or vetoed errors', async () => {
+		const permanent = jest.fn().mockRejectedValue(httpError(400));
+		await expect(withRetry(permanent, { policy: fastPolicy })).rejects.toThrow('HTTP 400');
+		expect(permanent).toHaveBeenCalledTimes(1);
+
+		const vetoed = jest.fn().mockRejectedValue(httpError(503));
+		await expect(
+			withRetry(vetoed, { policy: fastPolicy, shouldRetry: () => false }),
+		).rejects.toThrow('HTTP 503');
+		expect(vetoed).toHaveBeenCalledTimes(1);
+	});
+
+	test('opens the circuit of a failing host', async () => {
+		const host = getHost('https://failing.example.com:7000/path');
+		expect(host).toBe('failing.example.com:7000');
+
+		const fn = jest.fn().mockRejectedValue(httpError(503));
+		const policy = { ...fastPolicy, maxRetries: 5, circuitBreakerThreshold: 2 };
+		await expect(withRetry(fn, { policy, host })).rejects.toThrow(CircuitOpenError);
+		expect(fn).toHaveBeenCalledTimes(2);
+		expect(() => checkCircuit(host)).toThrow(CircuitOpenError);
+	});
+});
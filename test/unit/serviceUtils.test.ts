@@ -0,0 +1,66 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	getMethodPrice,
+	parseMethodPath,
+	parsePricing,
+} from '../../nodes/Singularitynet/utils/serviceUtils';
+
+const methodPricing = [
+	{
+		default: true,
+		price_model: 'method_price',
+		details: [
+			{
+				service_name: 'Example',
+				method_pricing: [
+					{ method_name: 'add', price_in_cogs: 5 },
+					{ method_name: 'mul', price_in_cogs: 7 },
+				],
+			},
+		],
+	},
+];
+
+describe('Service Utils', () => {
+	test('parses method pricing from service metadata', () => {
+		expect(parsePricing(methodPricing)).toEqual([
+			{
+				default: true,
+				priceModel: 'method_price',
+				priceInCogs: '0',
+				details: [
+					{ serviceName: 'Example', methodName: 'add', priceInCogs: '5' },
+					{ serviceName: 'Example', methodName: 'mul', priceInCogs: '7' },
+				],
+			},
+		]);
+	});
+
+	test('gets the price of a method by package-qualified service name', () => {
+		const group = { pricing: parsePricing(methodPricing) };
+		expect(getMethodPrice(group, 'example_service.Example', 'mul')).toBe('7');
+		expect(getMethodPrice(group, 'Example', 'add')).toBe('5');
+		expect(getMethodPrice(group, 'Example', 'div')).toBe('0');
+	});
+
+	test('uses the fixed price for every method', () => {
+		const group = {
+			pricing: parsePricing([{ default: true, price_model: 'fixed_price', price_in_cogs: 10 }]),
+		};
+		expect(getMethodPrice(group, 'Example', 'add')).toBe('10');
+	});
+
+	test('splits gRPC method paths', () => {
+		expect(parseMethodPath('/example_service.Example/add')).toEqual({
+			serviceName: 'example_service.Example',
+			methodName: 'add',
+		});
+		expect(parseMethodPath('add')).toEqual({ serviceName: 'add', methodName: '' });
+	});
+});
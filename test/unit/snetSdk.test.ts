@@ -0,0 +1,237 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { ethers } from 'ethers';
+import { GrpcError } from '../../nodes/Singularitynet/transport/grpcClient';
+import { ResolvedServiceGroup, SnetSdk, SnetSdkConfig } from '../../nodes/Singularitynet/transport/snetSdk';
+import { MemoryChannelStateStore } from '../../nodes/Singularitynet/utils/channelStateStore';
+
+const wallet = ethers.Wallet.createRandom();
+const RECIPIENT = '0x2222222222222222222222222222222222222222';
+const GROUP_ID = `0x${'ab'.repeat(32)}`;
+const PRICE = BigInt(10);
+
+const group: ResolvedServiceGroup = {
+	groupId: GROUP_ID,
+	groupName: 'default_group',
+	paymentAddress: RECIPIENT,
+	endpoints: ['https://daemon.example.com'],
+	priceModel: 'fixed_price',
+	priceInCogs: PRICE,
+	mpeAddress: '0x5e592F9b1d303183d963635f895f0f0C48284f4e',
+	freeCalls: 0,
+	freeCallSignerAddress: '',
+};
+
+/**
+ * Daemon that, like the real one, locks the channel for each payment,
+ * only takes the last amount it was paid plus the price and keeps no
+ * payment of a failed call
+ */
+function createDaemon() {
+	const daemon = {
+		paid: BigInt(0),
+		busy: false,
+		calls: 0,
+		failures: 0,
+		async call(_method: string, _input: unknown, options: { metadata: Record<string, string> }) {
+			const amount = BigInt(options.metadata['snet-payment-channel-amount']);
+			if (daemon.busy) {
+				throw new GrpcError(9, 'another transaction on this channel is in progress');
+			}
+			daemon.busy = true;
+			// Earlier calls take longer, so unordered calls would overtake them
+			await new Promise((resolve) => setTimeout(resolve, 20 - daemon.calls++ * 5));
+			daemon.busy = false;
+			if (amount - daemon.paid !== PRICE) {
+				throw new GrpcError(9, 'income != price');
+			}
+			if (daemon.failures > 0) {
+				daemon.failures--;
+				throw new GrpcError(13, 'service failed');
+			}
+			daemon.paid = amount;
+			return { result: amount.toString() };
+		},
+	};
+	return daemon;
+}
+
+function createSdk(
+	daemon: ReturnType<typeof createDaemon>,
+	retryPolicy: SnetSdkConfig['retryPolicy'] = { maxRetries: 0 },
+	client: { call: unknown } = daemon
+): SnetSdk {
+	const sdk = new SnetSdk({
+		networkCredentials: { network: 'ethereumMainnet', authMethod: 'privateKey', privateKey: wallet.privateKey },
+		serviceCredentials: { protocol: 'rest' },
+		retryPolicy,
+	});
+	const ethClient = sdk.getEthereumClient();
+	jest.spyOn(ethClient, 'getCurrentBlock').mockResolvedValue(1000);
+	jest.spyOn(ethClient, 'getChannel').mockResolvedValue({
+		channelId: 1,
+		nonce: 0,
+		sender: wallet.address,
+		signer: wallet.address,
+		recipient: RECIPIENT,
+		groupId: GROUP_ID,
+		value: BigInt(1000),
+		expiration: 1000000,
+	});
+	jest.spyOn(sdk, 'resolveServiceGroup').mockResolvedValue(group);
+	jest.spyOn(sdk, 'getChannelState').mockImplementation(async () => ({
+		channelId: 1,
+		currentNonce: 0,
+		currentSignedAmount: daemon.paid,
+		plannedAmount: BigInt(0),
+		usedAmount: BigInt(0),
+	}));
+	jest.spyOn(sdk, 'getGrpcClient').mockReturnValue(client as never);
+	return sdk;
+}
+
+describe('SNET SDK', () => {
+	test('sends parallel escrow calls on a channel one at a time in signing order', async () => {
+		const daemon = createDaemon();
+		const sdk = createSdk(daemon);
+
+		const results = await Promise.all(
+			[0, 1, 2].map(() =>
+				sdk.callService('org', 'service', {
+					method: 'service.Service/run',
+					input: {},
+					channelId: 1,
+					paymentMode: 'escrow',
+				})
+			)
+		);
+
+		expect(results.map((result) => result.error)).toEqual([undefined, undefined, undefined]);
+		expect(results.map((result) => result.signedAmount)).toEqual([BigInt(10), BigInt(20), BigInt(30)]);
+		expect(daemon.paid).toBe(BigInt(30));
+	});
+
+	test('signs the same amount again after a failed paid call', async () => {
+		const daemon = createDaemon();
+		const sdk = createSdk(daemon);
+		const call = { method: 'service.Service/run', input: {}, channelId: 1 };
+		daemon.failures = 1;
+
+		const failed = await sdk.callService('org', 'service', call);
+		const results = [
+			await sdk.callService('org', 'service', call),
+			await sdk.callService('org', 'service', call),
+		];
+
+		expect(failed).toMatchObject({ success: false, error: expect.stringContaining('service failed') });
+		expect(results.map((result) => result.signedAmount)).toEqual([BigInt(10), BigInt(20)]);
+		expect(daemon.paid).toBe(BigInt(20));
+	});
+
+	test('estimates costs without writing channel state', async () => {
+		const daemon = createDaemon();
+		daemon.paid = BigInt(30);
+		const sdk = createSdk(daemon);
+		jest.spyOn(sdk.getEthereumClient(), 'getEscrowBalance').mockResolvedValue(BigInt(0));
+		const set = jest.spyOn(MemoryChannelStateStore.prototype, 'set');
+
+		const estimate = await sdk.estimateCost('org', 'service', {
+			method: 'service.Service/run',
+			channelId: 1,
+			calls: 2,
+		});
+
+		expect(estimate).toMatchObject({ channelRemaining: BigInt(970), totalCost: BigInt(20) });
+		expect(set).not.toHaveBeenCalled();
+		set.mockRestore();
+	});
+
+	test('pays from the stored channel without searching the chain', async () => {
+		const daemon = createDaemon();
+		const sdk = createSdk(daemon);
+		const findChannels = jest.spyOn(sdk.getEthereumClient(), 'findChannels');
+		const call = { method: 'service.Service/run', input: {} };
+
+		await sdk.callService('org', 'service', { ...call, channelId: 1 });
+		const result = await sdk.callService('org', 'service', call);
+
+		expect(result).toMatchObject({ success: true, channelId: 1, signedAmount: BigInt(20) });
+		expect(findChannels).not.toHaveBeenCalled();
+	});
+
+	test('searches the chain once the stored channel has expired', async () => {
+		const daemon = createDaemon();
+		const sdk = createSdk(daemon);
+		const ethClient = sdk.getEthereumClient();
+		const call = { method: 'service.Service/run', input: {} };
+
+		await sdk.callService('org', 'service', { ...call, channelId: 1 });
+		const channel = await ethClient.getChannel(1);
+		const open = { ...channel, channelId: 2 };
+		jest
+			.spyOn(ethClient, 'getChannel')
+			.mockImplementation(async (channelId) => (channelId === 1 ? { ...channel, expiration: 1000 } : open));
+		const findChannels = jest.spyOn(ethClient, 'findChannels').mockResolvedValue([open]);
+		const result = await sdk.callService('org', 'service', call);
+
+		expect(findChannels).toHaveBeenCalled();
+		expect(result).toMatchObject({ success: true, channelId: 2 });
+	});
+
+	test('signs a new concurrency token once the channel moved to a new nonce', async () => {
+		const daemon = createDaemon();
+		const sdk = createSdk(daemon, { maxRetries: 0 }, { call: async () => ({}) });
+		const getToken = jest.fn(async (request: { channelId: number; signedAmount: bigint }) => ({
+			channelId: request.channelId,
+			token: `token-${request.signedAmount}`,
+			plannedAmount: request.signedAmount,
+			usedAmount: BigInt(0),
+		}));
+		jest.spyOn(sdk, 'getDaemonClient').mockReturnValue({ getToken } as never);
+		const call = {
+			method: 'service.Service/run',
+			input: {},
+			channelId: 1,
+			paymentMode: 'prepaid' as const,
+			prepaidCalls: 3,
+		};
+
+		await sdk.callService('org', 'service', call);
+		await sdk.callService('org', 'service', call);
+		const channel = await sdk.getEthereumClient().getChannel(1);
+		jest.spyOn(sdk.getEthereumClient(), 'getChannel').mockResolvedValue({ ...channel, nonce: 1 });
+		await sdk.callService('org', 'service', call);
+
+		expect(getToken).toHaveBeenCalledTimes(2);
+		expect(getToken.mock.calls[1][0]).toMatchObject({ nonce: 1, signedAmount: BigInt(30) });
+	});
+
+	test('pays for a call without retrying a used up free call', async () => {
+		const daemon = createDaemon();
+		const freeCall = jest.fn().mockRejectedValue(new GrpcError(8, 'free call limit reached'));
+		const sdk = createSdk(daemon, { maxRetries: 3, initialDelay: 0, jitter: 0 }, {
+			call: (method: string, input: unknown, options: { metadata: Record<string, string> }) =>
+				options.metadata['snet-payment-type'] === 'escrow'
+					? daemon.call(method, input, options)
+					: freeCall(),
+		});
+		jest
+			.spyOn(sdk as never, 'prepareFreeCall')
+			.mockResolvedValue({ metadata: { 'snet-payment-type': 'free-call' }, remaining: 1 } as never);
+
+		const result = await sdk.callService('org', 'service', {
+			method: 'service.Service/run',
+			input: {},
+			channelId: 1,
+			freeCallPolicy: 'preferFree',
+		});
+
+		expect(result).toMatchObject({ success: true, freeCall: false, signedAmount: BigInt(10) });
+		expect(freeCall).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,96 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import type { IExecuteFunctions } from 'n8n-workflow';
+import {
+	formatTransactionFees,
+	getTransactionOptions,
+	parseTransactionOptions,
+} from '../../nodes/Singularitynet/utils/transactionOptions';
+
+function createContext(transactionOptions: object, items: number): IExecuteFunctions {
+	return {
+		getNodeParameter: () => transactionOptions,
+		getInputData: () => Array.from({ length: items }, () => ({ json: {} })),
+		getNode: () => ({ name: 'SingularityNET', type: 'singularitynet', typeVersion: 1, position: [0, 0] }),
+	} as unknown as IExecuteFunctions;
+}
+
+describe('Transaction Options', () => {
+	test('converts fee caps from gwei to wei', () => {
+		expect(
+			parseTransactionOptions({ maxFeePerGas: 30, maxPriorityFeePerGas: 1.5, gasLimitMultiplier: 1.2, nonce: 7 })
+		).toEqual({
+			maxFeePerGas: BigInt(30000000000),
+			maxPriorityFeePerGas: BigInt(1500000000),
+			gasLimitMultiplier: 1.2,
+			nonce: 7,
+		});
+	});
+
+	test('leaves unset options to the network defaults', () => {
+		expect(parseTransactionOptions({})).toEqual({});
+		expect(parseTransactionOptions({ maxFeePerGas: 0 })).toEqual({});
+	});
+
+	test('rejects a priority fee above the max fee', () => {
+		expect(() => parseTransactionOptions({ maxFeePerGas: 1, maxPriorityFeePerGas: 2 })).toThrow(
+			'Max priority fee per gas cannot be higher than max fee per gas'
+		);
+	});
+
+	test('only takes a nonce for a single input item', () => {
+		expect(getTransactionOptions.call(createContext({ nonce: 7 }, 1), 0)).toEqual({ nonce: 7 });
+		expect(getTransactionOptions.call(createContext({ gasLimitMultiplier: 2 }, 2), 1)).toEqual({
+			gasLimitMultiplier: 2,
+		});
+		expect(() => getTransactionOptions.call(createContext({ nonce: 7 }, 2), 1)).toThrow(
+			'A nonce can only be set for a single input item'
+		);
+	});
+
+	test('sums the fees of all transactions of an operation', () => {
+		const approval = {
+			hash: '0xapprove',
+			status: 'success' as const,
+			gasUsed: BigInt(46000),
+			effectiveGasPrice: BigInt(1000000000),
+			fee: BigInt(46000000000000),
+			nonce: 4,
+		};
+		const deposit = {
+			hash: '0xdeposit',
+			status: 'success' as const,
+			gasUsed: BigInt(54000),
+			effectiveGasPrice: BigInt(2000000000),
+			fee: BigInt(108000000000000),
+			nonce: 5,
+		};
+
+		expect(formatTransactionFees(approval, deposit)).toEqual({
+			transactionStatus: 'success',
+			nonce: 5,
+			gasUsed: '100000',
+			effectiveGasPriceGwei: '2.0',
+			feeWei: '154000000000000',
+			feeEth: 0.000154,
+		});
+		expect(formatTransactionFees(null, deposit).feeWei).toBe('108000000000000');
+		expect(formatTransactionFees(null)).toEqual({});
+	});
+
+	test('reports a transaction that was not waited for as pending', () => {
+		expect(parseTransactionOptions({ waitForConfirmation: 'none' })).toEqual({ confirmations: 0 });
+		expect(parseTransactionOptions({ waitForConfirmation: 'multiple', confirmations: 3 })).toEqual({
+			confirmations: 3,
+		});
+		expect(formatTransactionFees({ hash: '0xpending', status: 'pending', nonce: 8 })).toEqual({
+			transactionStatus: 'pending',
+			nonce: 8,
+		});
+	});
+});